@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Builds the simplified coastline bundled for the station map
+ *
+ * Decodes Natural Earth 1:50m land polygons (public domain) from the
+ * `world-atlas` TopoJSON, keeps the land around NOAA's stations (Guam to the
+ * Caribbean, American Samoa to the Arctic), simplifies it with
+ * Douglas–Peucker and writes `src/assets/coastline.json`: an array of rings,
+ * each a flat `[lon, lat, lon, lat, ...]` array rounded to 0.01°.
+ *
+ * Longitudes east of Greenwich are shifted by −360° per ring, so the Pacific
+ * stations on both sides of the antimeridian sit on one continuous map.
+ *
+ * Usage:
+ *   npm pack world-atlas@2 && tar xzf world-atlas-2.*.tgz
+ *   node scripts/build-coastline.mjs package/land-50m.json [tolerance°]
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+
+/** Kept region after the antimeridian shift */
+const REGION = { west: -235, east: -50, south: -20, north: 80 };
+
+const OUT_FILE = new URL('../src/assets/coastline.json', import.meta.url);
+
+/**
+ * Decodes the delta-encoded, quantized arcs of a TopoJSON topology
+ */
+function decodeArcs(topology) {
+  const [sx, sy] = topology.transform.scale;
+  const [tx, ty] = topology.transform.translate;
+  return topology.arcs.map(arc => {
+    let x = 0;
+    let y = 0;
+    return arc.map(([dx, dy]) => {
+      x += dx;
+      y += dy;
+      return [x * sx + tx, y * sy + ty];
+    });
+  });
+}
+
+/**
+ * Joins the arcs of one ring; negative indices are reversed arcs
+ */
+function ringFromArcs(arcs, indices) {
+  const ring = [];
+  for (const i of indices) {
+    const arc = i >= 0 ? arcs[i] : [...arcs[~i]].reverse();
+    ring.push(...(ring.length === 0 ? arc : arc.slice(1)));
+  }
+  return ring;
+}
+
+/**
+ * Douglas–Peucker simplification
+ */
+function simplify(points, tolerance) {
+  if (points.length < 3) return points;
+  const keep = new Array(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+  const stack = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [a, b] = stack.pop();
+    const [ax, ay] = points[a];
+    const [bx, by] = points[b];
+    const dx = bx - ax;
+    const dy = by - ay;
+    const length = Math.hypot(dx, dy);
+    let farthest = -1;
+    let farthestDistance = -1;
+
+    for (let i = a + 1; i < b; i++) {
+      const [px, py] = points[i];
+      const distance = length > 0
+        ? Math.abs(dy * (px - ax) - dx * (py - ay)) / length
+        : Math.hypot(px - ax, py - ay);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+
+    if (farthestDistance > tolerance) {
+      keep[farthest] = true;
+      stack.push([a, farthest], [farthest, b]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+async function main() {
+  const [input, toleranceArg = '0.05'] = process.argv.slice(2);
+  if (!input) {
+    console.error('Usage: node scripts/build-coastline.mjs <land-50m.json> [tolerance°]');
+    process.exit(1);
+  }
+  const tolerance = Number(toleranceArg);
+
+  const topology = JSON.parse(await readFile(input, 'utf8'));
+  const arcs = decodeArcs(topology);
+  const rings = [];
+
+  for (const geometry of topology.objects.land.geometries) {
+    const polygons = geometry.type === 'MultiPolygon' ? geometry.arcs : [geometry.arcs];
+    for (const polygon of polygons) {
+      for (const indices of polygon) {
+        const ring = ringFromArcs(arcs, indices);
+        const meanLon = ring.reduce((sum, [lon]) => sum + lon, 0) / ring.length;
+        const shifted = meanLon > 0 ? ring.map(([lon, lat]) => [lon - 360, lat]) : ring;
+
+        const lons = shifted.map(([lon]) => lon);
+        const lats = shifted.map(([, lat]) => lat);
+        if (Math.max(...lons) < REGION.west || Math.min(...lons) > REGION.east) continue;
+        if (Math.max(...lats) < REGION.south || Math.min(...lats) > REGION.north) continue;
+
+        const simplified = simplify(shifted, tolerance);
+        if (simplified.length < 4) continue;
+        rings.push(simplified.flatMap(([lon, lat]) => [Math.round(lon * 100) / 100, Math.round(lat * 100) / 100]));
+      }
+    }
+  }
+
+  await writeFile(OUT_FILE, JSON.stringify(rings));
+  const points = rings.reduce((sum, ring) => sum + ring.length / 2, 0);
+  console.log(`Wrote ${rings.length} rings, ${points} points`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Captures NOAA predictions for validating the local harmonic engine
+ *
+ * For each station, stores the published harmonic constituents, the height of
+ * MSL above MLLW and a week of NOAA's hourly predictions (metric, MLLW) in
+ * `src/lib/__fixtures__/harmonics/<station>.json`. `src/lib/harmonics.test.ts`
+ * replays every stored fixture against `predictTides`.
+ *
+ * Usage: node scripts/capture-harmonic-fixtures.mjs [YYYYMMDD] [station ...]
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+
+/** Stations covering semidiurnal, mixed and diurnal regimes */
+const DEFAULT_STATIONS = [
+  '8658163', // Wrightsville Beach, NC (semidiurnal)
+  '8518750', // The Battery, NY (semidiurnal)
+  '9414290', // San Francisco, CA (mixed)
+  '9447130', // Seattle, WA (mixed, large range)
+  '8729108', // Panama City, FL (diurnal)
+];
+
+const MDAPI = 'https://api.tidesandcurrents.noaa.gov/mdapi/prod/webapi/stations';
+const DATAGETTER = 'https://api.tidesandcurrents.noaa.gov/api/prod/datagetter';
+const OUT_DIR = new URL('../src/lib/__fixtures__/harmonics/', import.meta.url);
+
+async function getJson(url) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${res.status} for ${url}`);
+  const data = await res.json();
+  if (data?.error) throw new Error(`${data.error.message} for ${url}`);
+  return data;
+}
+
+async function capture(station, beginDate) {
+  const [harcon, datums, predictions] = await Promise.all([
+    getJson(`${MDAPI}/${station}/harcon.json?units=metric`),
+    getJson(`${MDAPI}/${station}/datums.json?units=metric`),
+    getJson(`${DATAGETTER}?${new URLSearchParams({
+      product: 'predictions',
+      application: 'canal-dr-flood',
+      format: 'json',
+      time_zone: 'gmt',
+      units: 'metric',
+      datum: 'MLLW',
+      interval: 'h',
+      station,
+      begin_date: beginDate,
+      range: '168',
+    })}`),
+  ]);
+
+  const datum = name => datums.datums.find(d => d.name === name)?.value;
+  const fixture = {
+    station,
+    datum: 'MLLW',
+    units: 'metric',
+    msl: datum('MSL') - datum('MLLW'),
+    constituents: harcon.HarmonicConstituents
+      .filter(c => c.amplitude !== 0)
+      .map(c => ({ name: c.name.toUpperCase(), amplitude: c.amplitude, phase: c.phase_GMT, speed: c.speed })),
+    predictions: Object.fromEntries(predictions.predictions.map(p => [p.t.replace(' ', 'T') + 'Z', Number(p.v)])),
+  };
+
+  await writeFile(new URL(`${station}.json`, OUT_DIR), JSON.stringify(fixture, null, 1) + '\n');
+  console.log(`${station}: ${fixture.constituents.length} constituents, ${Object.keys(fixture.predictions).length} predictions`);
+}
+
+const [beginDate = '20250101', ...stations] = process.argv.slice(2);
+await mkdir(OUT_DIR, { recursive: true });
+for (const station of stations.length > 0 ? stations : DEFAULT_STATIONS) {
+  await capture(station, beginDate);
+}
@@ -21,11 +21,13 @@ import {
   setupIonicReact
 } from '@ionic/react';
 import { IonReactRouter } from '@ionic/react-router';
-import { ellipse, informationCircleOutline } from 'ionicons/icons';
+import { analyticsOutline, ellipse, informationCircleOutline, listOutline } from 'ionicons/icons';
 import Intro from './pages/Intro';
 import React from 'react';
 import Tab2 from './pages/Tab2';
 import Tab3 from './pages/Tab3';
+import TideTable from './pages/TideTable';
+import Analysis from './pages/Analysis';
 
 /* Core CSS required for Ionic components to work properly */
 import '@ionic/react/css/core.css';
@@ -108,6 +110,8 @@ const InitialRoute: React.FC = () => {
  * - / (root): InitialRoute logic determines intro vs main app
  * - /intro: One-time intro screen for new users
  * - /tab2: Main FloodCast functionality (tide/flood data)
+ * - /tides: High/low tide table for the coming week
+ * - /analysis: Forecast backtesting against past observations
  * - /tab3: About page with app information
  *
  * @component
@@ -134,6 +138,14 @@ const App: React.FC = () => (
           <Route exact path="/tab2">
             <Tab2 />
           </Route>
+          {/* High/low tide table for the selected station */}
+          <Route exact path="/tides">
+            <TideTable />
+          </Route>
+          {/* Hindcast analysis of forecast skill */}
+          <Route exact path="/analysis">
+            <Analysis />
+          </Route>
           {/* App information and about page */}
           <Route path="/tab3">
             <Tab3 />
@@ -151,6 +163,16 @@ const App: React.FC = () => (
             <IonIcon aria-hidden="true" icon={ellipse} />
             <IonLabel>FloodCast</IonLabel>
           </IonTabButton>
+          {/* Tide table tab - upcoming high and low tides */}
+          <IonTabButton tab="tides" href="/tides">
+            <IonIcon aria-hidden="true" icon={listOutline} />
+            <IonLabel>Tides</IonLabel>
+          </IonTabButton>
+          {/* Analysis tab - how accurate past forecasts were */}
+          <IonTabButton tab="analysis" href="/analysis">
+            <IonIcon aria-hidden="true" icon={analyticsOutline} />
+            <IonLabel>Analysis</IonLabel>
+          </IonTabButton>
           {/* About tab - app information and help */}
           <IonTabButton tab="tab3" href="/tab3">
             <IonIcon aria-hidden="true" icon={informationCircleOutline} />
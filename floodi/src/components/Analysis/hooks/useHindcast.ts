@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { isAbortError } from '../../../lib/noaa';
+import type { ChunkFailure } from '../../../lib/noaa';
+import { runHindcast } from '../../../lib/hindcast';
+import type { HindcastResult } from '../../../lib/hindcast';
+import { noaaUnitsFor, responseScale } from '../../../lib/units';
+import type { AppConfiguration } from '../../Tab2/types';
+
+/** Surge lookback windows compared by the analysis page */
+export const HINDCAST_LOOKBACKS_H = [3, 6, 12];
+
+/**
+ * Period and horizon of a hindcast run
+ */
+export interface HindcastRequest {
+  /** Days of history to replay, ending now */
+  days: number;
+  /** Forecast length evaluated at each issue time */
+  horizonHours: number;
+}
+
+/**
+ * Custom hook for running forecast hindcasts for the configured station
+ *
+ * Runs are started explicitly since they load weeks of data. Every built-in
+ * surge strategy is compared at each lookback in `HINDCAST_LOOKBACKS_H`, using
+ * the configured datum, units, threshold and surge decay. Results are cleared
+ * when the station, datum or units change.
+ *
+ * @param config Application configuration
+ * @returns Hindcast state and a function to start a run
+ */
+export function useHindcast(config: AppConfiguration) {
+  const [state, setState] = useState<{
+    loading: boolean;
+    error: Error | null;
+    warning: string | null;
+    result: HindcastResult | null;
+  }>({ loading: false, error: null, warning: null, result: null });
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  const run = useCallback(async (request: HindcastRequest) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    setState(prev => ({ ...prev, loading: true, error: null, warning: null }));
+
+    const end = new Date();
+    const partialFailures: ChunkFailure[] = [];
+
+    try {
+      const result = await runHindcast({
+        station: config.station.id,
+        datum: config.datum,
+        units: noaaUnitsFor(config.units),
+        scale: responseScale(config.units),
+        signal,
+        onPartialFailure: failures => partialFailures.push(...failures),
+        start: new Date(end.getTime() - request.days * 86_400_000),
+        end,
+        lookbackHours: HINDCAST_LOOKBACKS_H,
+        decayHours: config.offset.decayHours,
+        horizonHours: request.horizonHours,
+        threshold: config.threshold,
+      });
+      setState({
+        loading: false,
+        error: null,
+        warning: partialFailures.length > 0
+          ? `Some history could not be loaded (${partialFailures.length} ${partialFailures.length === 1 ? 'period' : 'periods'} failed)`
+          : null,
+        result,
+      });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      setState(prev => ({
+        ...prev,
+        loading: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      }));
+    }
+  }, [config.station.id, config.datum, config.units, config.threshold, config.offset.decayHours]);
+
+  // Results describe one station, datum and unit; drop them (and any run in flight) when those change
+  useEffect(() => {
+    abortRef.current?.abort();
+    setState({ loading: false, error: null, warning: null, result: null });
+  }, [config.station.id, config.datum, config.units]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return { ...state, run };
+}
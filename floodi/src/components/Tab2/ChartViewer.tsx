@@ -1,6 +1,13 @@
 import React, { useRef, useEffect, useState, useMemo, useCallback } from 'react';
-import type { Point, ChartConfig } from './types';
+import type { BandPoint, Point, ChartConfig, ChartSegment } from './types';
 import { useChartInteraction, formatTooltipTime } from './hooks/useChartInteraction';
+import { describeObservationFlags, findFloodEvents } from '../../lib/noaa';
+import type { FloodEvent, FloodTier } from '../../lib/noaa';
+import { formatGapDuration, gapAt, splitAtGaps } from '../../lib/gaps';
+import type { DataGap } from '../../lib/gaps';
+import { TIER_COLORS, TIER_LABELS, tierLevel, tierLevelColor } from './floodTiers';
+import { formatLength } from '../../lib/units';
+import type { LengthUnit } from '../../lib/units';
 
 /**
  * Props for the ChartViewer component
@@ -8,6 +15,10 @@ import { useChartInteraction, formatTooltipTime } from './hooks/useChartInteract
 interface ChartViewerProps {
   /** Observed data points */
   observedPoints: Point[];
+  /** Stretches without observations, drawn hatched; lines are not drawn across them */
+  gaps?: DataGap[];
+  /** Interpolated values across interior gaps, drawn dotted */
+  gapBridges?: Point[][];
   /** Predicted data points */
   predictedPoints: Point[];
   /** Adjusted prediction data points */
@@ -16,18 +27,32 @@ interface ChartViewerProps {
   deltaPoints: Point[];
   /** Future surge forecast (offset trend) points */
   surgeForecastPoints?: Point[];
+  /** External surge guidance, as surge (delta view) or water level */
+  guidancePoints?: Point[];
+  /** Future-year tides on today's dates (sea level rise planning); hidden in the delta view */
+  planningPoints?: Point[];
+  /** Legend label of the planning curve, e.g. "2050 Intermediate" */
+  planningLabel?: string;
+  /** Uncertainty envelope around the adjusted prediction */
+  envelopePoints?: BandPoint[];
+  /** Flood episodes to shade; defaults to those of the adjusted prediction */
+  floodEvents?: FloodEvent[];
   /** Time domain start */
   domainStart: Date;
   /** Time domain end */
   domainEnd: Date;
   /** Current time marker */
   now: Date;
-  /** Flood threshold level */
+  /** Flood threshold level (minor tier) */
   threshold: number;
+  /** Flood tiers ordered from lowest to highest; defaults to `threshold` as the only tier */
+  tiers?: FloodTier[];
   /** Whether to show delta series */
   showDelta: boolean;
   /** Timezone for time formatting */
   timezone: 'local' | 'gmt';
+  /** Unit of all height values */
+  units?: LengthUnit;
   /** Chart configuration */
   config?: Partial<ChartConfig>;
   /** Callback for chart interactions */
@@ -46,23 +71,44 @@ function buildPolyline(points: Point[], xOf: (d: Date) => number, yOf: (v: numbe
 }
 
 /**
- * Segment points by threshold for color-coded rendering
+ * Convert a band to a closed SVG polygon: upper edge forward, lower edge back
  */
-function segmentByThreshold(points: Point[], threshold: number): { points: Point[]; above: boolean }[] {
-  const segments: { points: Point[]; above: boolean }[] = [];
+function buildBandPolygon(band: BandPoint[], xOf: (d: Date) => number, yOf: (v: number) => number): string {
+  const upper = band.map(b => `${xOf(b.t)},${yOf(b.upper)}`);
+  const lower = band.map(b => `${xOf(b.t)},${yOf(b.lower)}`).reverse();
+  return [...upper, ...lower].join(' ');
+}
+
+/**
+ * Segment points by flood tier for color-coded rendering
+ *
+ * A new segment starts wherever the series crosses a tier threshold; the
+ * crossing point is interpolated and shared by both segments. A single step
+ * crossing several thresholds produces one short segment per tier passed.
+ */
+function segmentByTiers(points: Point[], tiers: FloodTier[]): ChartSegment[] {
+  const segments: ChartSegment[] = [];
   if (points.length < 2) return segments;
 
   let previous = points[0];
-  let isAbove = previous.v >= threshold;
+  let level = tierLevel(previous.v, tiers);
   let currentSegment: Point[] = [previous];
 
+  const pushSegment = () => {
+    if (currentSegment.length >= 2) {
+      segments.push({ points: currentSegment, above: level > 0, level });
+    }
+  };
+
   for (let i = 1; i < points.length; i++) {
     const current = points[i];
-    const currentAbove = current.v >= threshold;
+    const currentLevel = tierLevel(current.v, tiers);
+
+    // Walk through every threshold between the two levels in order
+    while (level !== currentLevel) {
+      const rising = currentLevel > level;
+      const threshold = tiers[rising ? level : level - 1].threshold;
 
-    if (currentAbove === isAbove) {
-      currentSegment.push(current);
-    } else {
       // Threshold crossing - interpolate intersection point
       const deltaValue = current.v - previous.v;
       const fraction = deltaValue !== 0 ? (threshold - previous.v) / deltaValue : 0;
@@ -73,22 +119,48 @@ function segmentByThreshold(points: Point[], threshold: number): { points: Point
       const crossPoint: Point = { t: crossTime, v: threshold };
 
       currentSegment.push(crossPoint);
-      if (currentSegment.length >= 2) {
-        segments.push({ points: currentSegment, above: isAbove });
-      }
+      pushSegment();
 
       // Start new segment at crossing point
-      currentSegment = [crossPoint, current];
-      isAbove = currentAbove;
+      currentSegment = [crossPoint];
+      level += rising ? 1 : -1;
     }
+
+    currentSegment.push(current);
     previous = current;
   }
 
-  if (currentSegment.length >= 2) {
-    segments.push({ points: currentSegment, above: isAbove });
+  pushSegment();
+  return segments;
+}
+
+/**
+ * Split points into runs of equal QA level so preliminary data can be styled differently
+ *
+ * Interpolated points (no quality) continue the current run. Adjacent runs share
+ * their boundary point so the rendered line stays continuous.
+ */
+function splitByQuality(points: Point[]): { points: Point[]; preliminary: boolean }[] {
+  const runs: { points: Point[]; preliminary: boolean }[] = [];
+  if (points.length < 2) return runs;
+
+  let preliminary = points.find(p => p.quality)?.quality === 'preliminary';
+  let currentRun: Point[] = [points[0]];
+
+  for (let i = 1; i < points.length; i++) {
+    const point = points[i];
+    const pointPreliminary = point.quality ? point.quality === 'preliminary' : preliminary;
+
+    if (pointPreliminary !== preliminary) {
+      if (currentRun.length >= 2) runs.push({ points: currentRun, preliminary });
+      currentRun = [currentRun[currentRun.length - 1]];
+      preliminary = pointPreliminary;
+    }
+    currentRun.push(point);
   }
 
-  return segments;
+  if (currentRun.length >= 2) runs.push({ points: currentRun, preliminary });
+  return runs;
 }
 
 /**
@@ -102,16 +174,25 @@ function segmentByThreshold(points: Point[], threshold: number): { points: Point
  */
 export const ChartViewer: React.FC<ChartViewerProps> = ({
   observedPoints,
+  gaps = [],
+  gapBridges = [],
   predictedPoints,
   adjustedPoints,
   deltaPoints,
   surgeForecastPoints = [],
+  guidancePoints = [],
+  planningPoints = [],
+  planningLabel = 'Future tides',
+  envelopePoints = [],
+  floodEvents,
   domainStart,
   domainEnd,
   now,
   threshold,
+  tiers: tiersProp,
   showDelta,
   timezone,
+  units = 'ft',
   config = {},
   onChartInteraction,
 }) => {
@@ -121,6 +202,11 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
 
   const { hoverT, setHoverT, calculateTooltipData } = useChartInteraction();
 
+  const tiers = useMemo(
+    (): FloodTier[] => tiersProp ?? [{ severity: 'minor', threshold }],
+    [tiersProp, threshold]
+  );
+
   // Handle responsive resizing
   useEffect(() => {
     const container = containerRef.current;
@@ -148,11 +234,13 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
       size,
       margins: { l: 50, r: 20, t: 10, b: bottomMargin },
       threshold,
+      tiers,
       showDelta,
       timezone,
+      units,
       ...config,
     };
-  }, [size, threshold, showDelta, timezone, config]);
+  }, [size, threshold, tiers, showDelta, timezone, units, config]);
 
   const { margins } = chartConfig;
   const innerW = size.w - margins.l - margins.r;
@@ -162,10 +250,14 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
   const yMinMax = useMemo(() => {
     const allValues = [
       ...observedPoints.map(p => p.v),
+      ...gapBridges.flatMap(bridge => bridge.map(p => p.v)),
       ...adjustedPoints.map(p => p.v),
       ...predictedPoints.map(p => p.v),
       ...(showDelta ? deltaPoints.map(p => p.v) : []),
       ...(showDelta ? surgeForecastPoints.map(p => p.v) : []),
+      ...guidancePoints.map(p => p.v),
+      ...(showDelta ? [] : planningPoints.map(p => p.v)),
+      ...envelopePoints.flatMap(b => [b.lower, b.upper]),
       threshold,
     ];
 
@@ -181,7 +273,7 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
 
     const padding = (max - min) * 0.1;
     return { min: min - padding, max: max + padding };
-  }, [observedPoints, adjustedPoints, predictedPoints, deltaPoints, threshold, showDelta]);
+  }, [observedPoints, gapBridges, adjustedPoints, predictedPoints, deltaPoints, surgeForecastPoints, guidancePoints, planningPoints, envelopePoints, threshold, showDelta]);
 
   // Scaling functions
   const t0 = domainStart.getTime();
@@ -189,58 +281,32 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
   const xOf = useCallback((date: Date) => margins.l + ((date.getTime() - t0) / (t1 - t0)) * innerW, [margins.l, t0, t1, innerW]);
   const yOf = useCallback((value: number) => margins.t + (1 - (value - yMinMax.min) / (yMinMax.max - yMinMax.min)) * innerH, [margins.t, yMinMax.min, yMinMax.max, innerH]);
 
-  // Flood highlighting rectangles
+  // Flood highlighting rectangles, one per flood episode
   const floodRects = useMemo(() => {
-    const rects: { x: number; w: number }[] = [];
-    if (adjustedPoints.length < 2) return rects;
-
-    let isAbove = false;
-    let segmentStart: Date | null = null;
-
-    for (let i = 1; i < adjustedPoints.length; i++) {
-      const previous = adjustedPoints[i - 1];
-      const current = adjustedPoints[i];
-      const prevAbove = previous.v >= threshold;
-      const currAbove = current.v >= threshold;
-
-      if (!isAbove && (prevAbove || (!prevAbove && currAbove))) {
-        // Entering flood zone
-        let startTime = previous.t;
-        if (!prevAbove && currAbove && current.v !== previous.v) {
-          const fraction = (threshold - previous.v) / (current.v - previous.v);
-          startTime = new Date(previous.t.getTime() + fraction * (current.t.getTime() - previous.t.getTime()));
-        }
-        segmentStart = startTime;
-        isAbove = true;
-      }
-
-      if (isAbove && !currAbove) {
-        // Leaving flood zone
-        let endTime = current.t;
-        if (current.v !== previous.v) {
-          const fraction = (threshold - previous.v) / (current.v - previous.v);
-          endTime = new Date(previous.t.getTime() + fraction * (current.t.getTime() - previous.t.getTime()));
-        }
-
-        if (segmentStart) {
-          const x = xOf(segmentStart);
-          const width = Math.max(1, xOf(endTime) - x);
-          rects.push({ x, w: width });
-        }
-        isAbove = false;
-        segmentStart = null;
-      }
-    }
-
-    // Handle ongoing flood at end
-    if (isAbove && segmentStart) {
-      const x = xOf(segmentStart);
-      const width = Math.max(1, xOf(domainEnd) - x);
-      rects.push({ x, w: width });
-    }
-
-    return rects;
-  }, [adjustedPoints, threshold, xOf, domainEnd]);
+    const events = floodEvents ?? findFloodEvents(adjustedPoints, threshold);
+    // Episodes already under way when their series starts are shaded from that start
+    const seriesStart = floodEvents ? domainStart : adjustedPoints[0]?.t ?? domainStart;
+    return events.map(event => {
+      const x = xOf(event.onset ?? seriesStart);
+      return { x, w: Math.max(1, xOf(event.recession ?? domainEnd) - x) };
+    });
+  }, [floodEvents, adjustedPoints, threshold, xOf, domainStart, domainEnd]);
+
+  // Gap regions clipped to the plot area
+  const gapRects = useMemo(() => gaps.map(gap => {
+    const x = xOf(gap.start < domainStart ? domainStart : gap.start);
+    const x2 = xOf(gap.end > domainEnd ? domainEnd : gap.end);
+    return { x, w: Math.max(0, x2 - x), label: `No data, ${formatGapDuration(gap)}` };
+  }), [gaps, xOf, domainStart, domainEnd]);
+
+  // Runs of observations between gaps; isolated samples are drawn as dots
+  const observedRuns = useMemo(() => splitAtGaps(observedPoints, gaps), [observedPoints, gaps]);
+
+  // Observed points that failed a NOAA quality check
+  const flaggedPoints = useMemo(
+    () => observedPoints.filter(p => p.flags && describeObservationFlags(p.flags).length > 0),
+    [observedPoints]
+  );
 
   // Mouse/pointer interaction
   const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
@@ -255,7 +321,11 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
 
     setHoverT(hoverTime);
     if (onChartInteraction) {
-      // Find nearest point for callback
+      // Find nearest point for callback; there is none inside a gap
+      if (gapAt(gaps, hoverTime)) {
+        onChartInteraction(null);
+        return;
+      }
       const nearestObs = observedPoints.reduce((best, point) => {
         const dt = Math.abs(point.t.getTime() - timeMs);
         const bestDt = best ? Math.abs(best.t.getTime() - timeMs) : Infinity;
@@ -275,8 +345,8 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
   // Tooltip data calculation
   const tooltipData = useMemo(() => {
     if (!hoverT) return null;
-    return calculateTooltipData(hoverT, observedPoints, predictedPoints, adjustedPoints, deltaPoints, threshold, showDelta);
-  }, [hoverT, observedPoints, predictedPoints, adjustedPoints, deltaPoints, threshold, showDelta, calculateTooltipData]);
+    return calculateTooltipData(hoverT, observedPoints, predictedPoints, adjustedPoints, deltaPoints, tiers, showDelta, units, gaps, gapBridges);
+  }, [hoverT, observedPoints, predictedPoints, adjustedPoints, deltaPoints, tiers, showDelta, units, gaps, gapBridges, calculateTooltipData]);
 
   return (
     <div className="chart-viewer" ref={containerRef}>
@@ -292,6 +362,12 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
         // Allow vertical page scroll while interacting with the chart on mobile
         style={{ touchAction: 'pan-y pinch-zoom', cursor: 'crosshair' }}
       >
+        <defs>
+          <pattern id="chart-gap-hatch" width={8} height={8} patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+            <line x1={0} y1={0} x2={0} y2={8} stroke="var(--chart-axis-text)" strokeWidth={1.5} strokeOpacity={0.35} />
+          </pattern>
+        </defs>
+
         {/* Background */}
         <rect x={0} y={0} width={size.w} height={size.h} fill="var(--chart-bg)" />
         
@@ -317,23 +393,65 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
           />
         ))}
 
-        {/* Threshold line */}
-        <line 
-          x1={margins.l} 
-          x2={margins.l + innerW} 
-          y1={yOf(threshold)} 
-          y2={yOf(threshold)} 
-          stroke="#e74c3c" 
-          strokeDasharray="6 4" 
-        />
-        <text 
-          x={margins.l + 6} 
-          y={yOf(threshold) - 6} 
-          fill="#e74c3c" 
-          fontSize="12"
-        >
-          {threshold.toFixed(1)} ft threshold
-        </text>
+        {/* Missing observations (hatched) */}
+        {gapRects.map((rect, i) => (
+          <g key={`gap-${i}`} className="chart-gap">
+            <rect
+              x={rect.x}
+              y={margins.t}
+              width={rect.w}
+              height={innerH}
+              fill="url(#chart-gap-hatch)"
+            />
+            {rect.w > 80 && (
+              <text
+                x={rect.x + rect.w / 2}
+                y={margins.t + innerH - 8}
+                fill="var(--chart-axis-text)"
+                fontSize="11"
+                textAnchor="middle"
+              >
+                {rect.label}
+              </text>
+            )}
+          </g>
+        ))}
+
+        {/* Tier bands and threshold lines */}
+        {tiers.map((tier, i) => {
+          const yTop = yOf(Math.min(i + 1 < tiers.length ? tiers[i + 1].threshold : yMinMax.max, yMinMax.max));
+          const yBottom = yOf(tier.threshold);
+          if (tier.threshold > yMinMax.max) return null;
+          const color = TIER_COLORS[tier.severity];
+          return (
+            <g key={`tier-${tier.severity}`}>
+              <rect
+                x={margins.l}
+                y={yTop}
+                width={innerW}
+                height={Math.max(0, Math.min(yBottom, margins.t + innerH) - yTop)}
+                fill={color}
+                opacity={0.06}
+              />
+              <line
+                x1={margins.l}
+                x2={margins.l + innerW}
+                y1={yBottom}
+                y2={yBottom}
+                stroke={color}
+                strokeDasharray="6 4"
+              />
+              <text
+                x={margins.l + 6}
+                y={yBottom - 6}
+                fill={color}
+                fontSize="12"
+              >
+                {TIER_LABELS[tier.severity]} {formatLength(tier.threshold, units, { decimals: units === 'cm' ? 0 : 1 })}
+              </text>
+            </g>
+          );
+        })}
 
         {/* Current time marker */}
         <line 
@@ -354,14 +472,53 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
         </text>
 
         {/* Data series */}
-        {/* Observed data (segmented by threshold) */}
-        {observedPoints.length > 1 && segmentByThreshold(observedPoints, threshold).map((segment, i) => (
+        {/* Observed data (split at gaps, segmented by tier; preliminary data drawn lighter) */}
+        {observedRuns.map((observedRun, k) => (
+          observedRun.length === 1 ? (
+            <circle
+              key={`obs-${k}`}
+              cx={xOf(observedRun[0].t)}
+              cy={yOf(observedRun[0].v)}
+              r={2}
+              fill={tierLevelColor(tierLevel(observedRun[0].v, tiers), tiers)}
+            />
+          ) : segmentByTiers(observedRun, tiers).map((segment, i) => (
+            splitByQuality(segment.points).map((run, j) => (
+              <polyline
+                key={`obs-${k}-${i}-${j}`}
+                fill="none"
+                stroke={tierLevelColor(segment.level, tiers)}
+                strokeWidth="2"
+                strokeOpacity={run.preliminary ? 0.6 : 1}
+                points={buildPolyline(run.points, xOf, yOf)}
+              />
+            ))
+          ))
+        ))}
+
+        {/* Interpolated bridges across gaps (gray, dotted; not observations) */}
+        {gapBridges.map((bridge, i) => (
           <polyline
-            key={`obs-${i}`}
+            key={`bridge-${i}`}
+            className="gap-bridge"
             fill="none"
-            stroke={segment.above ? '#e74c3c' : '#2ecc71'}
-            strokeWidth="2"
-            points={buildPolyline(segment.points, xOf, yOf)}
+            stroke="#7f8c8d"
+            strokeWidth="1.5"
+            strokeDasharray="1 3"
+            points={buildPolyline(bridge, xOf, yOf)}
+          />
+        ))}
+
+        {/* Quality-flagged observations */}
+        {flaggedPoints.map((point, i) => (
+          <circle
+            key={`flag-${i}`}
+            cx={xOf(point.t)}
+            cy={yOf(point.v)}
+            r={3}
+            fill="none"
+            stroke="#f39c12"
+            strokeWidth={1.5}
           />
         ))}
 
@@ -376,12 +533,23 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
           />
         )}
 
-        {/* Adjusted predictions (segmented by threshold, dashed) */}
-        {adjustedPoints.length > 1 && segmentByThreshold(adjustedPoints, threshold).map((segment, i) => (
+        {/* Uncertainty envelope of the adjusted predictions */}
+        {envelopePoints.length > 1 && (
+          <polygon
+            className="forecast-envelope"
+            fill="#5b8def"
+            fillOpacity={0.15}
+            stroke="none"
+            points={buildBandPolygon(envelopePoints, xOf, yOf)}
+          />
+        )}
+
+        {/* Adjusted predictions (segmented by tier, dashed) */}
+        {adjustedPoints.length > 1 && segmentByTiers(adjustedPoints, tiers).map((segment, i) => (
           <polyline
             key={`adj-${i}`}
             fill="none"
-            stroke={segment.above ? '#e74c3c' : '#2ecc71'}
+            stroke={tierLevelColor(segment.level, tiers)}
             strokeWidth="2"
             strokeDasharray="5 4"
             points={buildPolyline(segment.points, xOf, yOf)}
@@ -400,12 +568,15 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
               strokeDasharray="4 4" 
               opacity={0.5} 
             />
-            <polyline 
-              fill="none" 
-              stroke="#1976d2" 
-              strokeWidth="2" 
-              points={buildPolyline(deltaPoints, xOf, yOf)} 
-            />
+            {splitAtGaps(deltaPoints, gaps).map((run, i) => (
+              <polyline 
+                key={`delta-${i}`}
+                fill="none" 
+                stroke="#1976d2" 
+                strokeWidth="2" 
+                points={buildPolyline(run, xOf, yOf)} 
+              />
+            ))}
           </g>
         )}
 
@@ -421,6 +592,28 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
           />
         )}
 
+        {/* External surge guidance (dotted) */}
+        {guidancePoints.length > 1 && (
+          <polyline
+            fill="none"
+            stroke="#8e44ad"
+            strokeWidth="2"
+            strokeDasharray="2 3"
+            points={buildPolyline(guidancePoints, xOf, yOf)}
+          />
+        )}
+
+        {/* Future-year tides under sea level rise (long dashes) */}
+        {!showDelta && planningPoints.length > 1 && (
+          <polyline
+            fill="none"
+            stroke="#d35400"
+            strokeWidth="1.5"
+            strokeDasharray="8 3"
+            points={buildPolyline(planningPoints, xOf, yOf)}
+          />
+        )}
+
         {/* Y-axis ticks and labels */}
         {Array.from({ length: 6 }).map((_, i) => {
           const value = yMinMax.min + (i / 5) * (yMinMax.max - yMinMax.min);
@@ -440,7 +633,7 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
                 fill="var(--chart-axis-text)" 
                 fontSize="12"
               >
-                {value.toFixed(1)} ft
+                {formatLength(value, units, { decimals: units === 'cm' ? 0 : 1 })}
               </text>
             </g>
           );
@@ -455,6 +648,12 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
             <text x={120} y={4} fill="var(--chart-label-text)" fontSize="12">Prediction</text>
             <line x1={210} x2={230} y1={0} y2={0} stroke="#2ecc71" strokeWidth={2} strokeDasharray="5 4" />
             <text x={240} y={4} fill="var(--chart-label-text)" fontSize="12">Adjusted prediction</text>
+            {!showDelta && envelopePoints.length > 1 && (
+              <>
+                <rect x={380} y={-5} width={20} height={10} fill="#5b8def" fillOpacity={0.25} />
+                <text x={406} y={4} fill="var(--chart-label-text)" fontSize="12">Forecast range</text>
+              </>
+            )}
             {showDelta && (
               <>
                 <line x1={380} x2={400} y1={0} y2={0} stroke="#1976d2" strokeWidth={2} />
@@ -463,6 +662,18 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
                 <text x={548} y={4} fill="var(--chart-label-text)" fontSize="12">Surge forecast</text>
               </>
             )}
+            {guidancePoints.length > 1 && (
+              <g transform={`translate(${showDelta ? 645 : 500}, 0)`}>
+                <line x1={0} x2={20} y1={0} y2={0} stroke="#8e44ad" strokeWidth={2} strokeDasharray="2 3" />
+                <text x={26} y={4} fill="var(--chart-label-text)" fontSize="12">Guidance</text>
+              </g>
+            )}
+            {!showDelta && planningPoints.length > 1 && (
+              <g transform={`translate(${guidancePoints.length > 1 ? 580 : 500}, 0)`}>
+                <line x1={0} x2={20} y1={0} y2={0} stroke="#d35400" strokeWidth={1.5} strokeDasharray="8 3" />
+                <text x={26} y={4} fill="var(--chart-label-text)" fontSize="12">{planningLabel}</text>
+              </g>
+            )}
           </g>
         ) : (
           <g>
@@ -471,10 +682,28 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
               <text x={24} y={4} fill="var(--chart-label-text)" fontSize="12">Observed</text>
               <line x1={120} x2={140} y1={0} y2={0} stroke="#95a5a6" strokeWidth={2} />
               <text x={144} y={4} fill="var(--chart-label-text)" fontSize="12">Prediction</text>
+              {envelopePoints.length > 1 && (
+                <>
+                  <rect x={240} y={-5} width={20} height={10} fill="#5b8def" fillOpacity={0.25} />
+                  <text x={264} y={4} fill="var(--chart-label-text)" fontSize="12">Range</text>
+                </>
+              )}
+              {guidancePoints.length > 1 && (
+                <>
+                  <line x1={310} x2={330} y1={0} y2={0} stroke="#8e44ad" strokeWidth={2} strokeDasharray="2 3" />
+                  <text x={334} y={4} fill="var(--chart-label-text)" fontSize="12">Guidance</text>
+                </>
+              )}
             </g>
             <g transform={`translate(${margins.l}, ${size.h - 8})`}>
               <line x1={0} x2={20} y1={0} y2={0} stroke="#2ecc71" strokeWidth={2} strokeDasharray="5 4" />
               <text x={24} y={4} fill="var(--chart-label-text)" fontSize="12">Adjusted prediction</text>
+              {!showDelta && planningPoints.length > 1 && (
+                <>
+                  <line x1={180} x2={200} y1={0} y2={0} stroke="#d35400" strokeWidth={1.5} strokeDasharray="8 3" />
+                  <text x={204} y={4} fill="var(--chart-label-text)" fontSize="12">{planningLabel}</text>
+                </>
+              )}
               {showDelta && (
                 <>
                   <line x1={180} x2={200} y1={0} y2={0} stroke="#1976d2" strokeWidth={2} />
@@ -518,7 +747,9 @@ export const ChartViewer: React.FC<ChartViewerProps> = ({
             {(() => {
               const baseX = xOf(hoverT) + 8;
               const baseY = margins.t + 8;
-              const boxWidth = 170;
+              // Widen the box for long rows such as quality flag descriptions
+              const longestRow = Math.max(...tooltipData.rows.map(row => row.label.length + row.value.length + 2));
+              const boxWidth = Math.max(170, Math.ceil(longestRow * 6.5) + 28);
               const lineHeight = 14;
               const boxHeight = (tooltipData.rows.length + 1) * lineHeight + 8;
               const adjustedX = Math.min(baseX, margins.l + innerW - boxWidth - 4);
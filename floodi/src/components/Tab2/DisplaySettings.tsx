@@ -7,8 +7,11 @@ import {
   IonIcon,
   IonSegment,
   IonSegmentButton,
+  IonToggle,
 } from '@ionic/react';
 import { settingsOutline } from 'ionicons/icons';
+import { LENGTH_UNITS } from '../../lib/units';
+import type { LengthUnit } from '../../lib/units';
 
 /**
  * Props for the DisplaySettings component
@@ -18,6 +21,14 @@ interface DisplaySettingsProps {
   theme: 'auto' | 'light' | 'dark' | undefined;
   /** Callback when theme changes */
   onThemeChange: (theme: 'auto' | 'light' | 'dark') => void;
+  /** Unit for heights, thresholds and offsets */
+  units: LengthUnit;
+  /** Callback when the unit changes */
+  onUnitsChange: (units: LengthUnit) => void;
+  /** Whether gaps in the observations are bridged with interpolated values */
+  interpolateGaps: boolean;
+  /** Callback when gap interpolation is toggled */
+  onInterpolateGapsChange: (interpolate: boolean) => void;
 }
 
 /**
@@ -29,7 +40,14 @@ interface DisplaySettingsProps {
  * @param props DisplaySettingsProps
  * @returns JSX.Element
  */
-export const DisplaySettings: React.FC<DisplaySettingsProps> = ({ theme = 'auto', onThemeChange }) => {
+export const DisplaySettings: React.FC<DisplaySettingsProps> = ({
+  theme = 'auto',
+  onThemeChange,
+  units,
+  onUnitsChange,
+  interpolateGaps,
+  onInterpolateGapsChange,
+}) => {
   const handleThemeChange = (event: CustomEvent) => {
     const value = event.detail.value as 'auto' | 'light' | 'dark';
     onThemeChange(value);
@@ -56,6 +74,28 @@ export const DisplaySettings: React.FC<DisplaySettingsProps> = ({ theme = 'auto'
           </IonSegmentButton>
         </IonSegment>
       </IonItem>
+
+      <IonItem>
+        <IonLabel>Units</IonLabel>
+        <IonSegment value={units} onIonChange={(e) => onUnitsChange(e.detail.value as LengthUnit)}>
+          {LENGTH_UNITS.map(unit => (
+            <IonSegmentButton key={unit} value={unit}>
+              <IonLabel>{unit}</IonLabel>
+            </IonSegmentButton>
+          ))}
+        </IonSegment>
+      </IonItem>
+
+      <IonItem>
+        <IonLabel>
+          <h3>Interpolate gaps</h3>
+          <p>Bridge missing observations along the predicted tide, drawn dotted and marked in the tooltip</p>
+        </IonLabel>
+        <IonToggle
+          checked={interpolateGaps}
+          onIonChange={(e) => onInterpolateGapsChange(e.detail.checked)}
+        />
+      </IonItem>
     </IonList>
   );
 };
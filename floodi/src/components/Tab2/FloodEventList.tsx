@@ -0,0 +1,99 @@
+import React from 'react';
+import {
+  IonBadge,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonNote,
+} from '@ionic/react';
+import type { FloodEvent, FloodTier } from '../../lib/noaa';
+import { formatLength } from '../../lib/units';
+import type { LengthUnit } from '../../lib/units';
+import { TIER_LABELS, tierLevel, tierLevelColor } from './floodTiers';
+import { formatTooltipTime } from './hooks/useChartInteraction';
+
+/**
+ * Props for the FloodEventList component
+ */
+interface FloodEventListProps {
+  /** Flood episodes in chronological order */
+  events: FloodEvent[];
+  /** Current time, separating observed from forecast episodes */
+  now: Date;
+  /** Flood tiers ordered from lowest to highest, used to rate each peak */
+  tiers: FloodTier[];
+  /** Unit of the heights */
+  units: LengthUnit;
+  /** Timezone for time formatting */
+  timezone: 'local' | 'gmt';
+}
+
+/**
+ * Format a duration in minutes, e.g. "45 min" or "2 h 15 min"
+ * @param minutes Duration
+ * @returns Human-readable duration
+ */
+function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return m > 0 ? `${h} h ${m} min` : `${h} h`;
+}
+
+/**
+ * Flood event timeline for the displayed range
+ *
+ * Lists every flood episode, observed or forecast, with its onset and
+ * recession, duration, peak and depth above the threshold. Episodes are
+ * labelled with the highest tier their peak reaches.
+ *
+ * @param props FloodEventListProps
+ * @returns JSX.Element, or null when there are no events
+ */
+export const FloodEventList: React.FC<FloodEventListProps> = ({ events, now, tiers, units, timezone }) => {
+  if (events.length === 0) return null;
+
+  const formatTime = (date: Date | null, missing: string) => (date ? formatTooltipTime(date, timezone) : missing);
+
+  return (
+    <IonList className="flood-events">
+      <IonListHeader>
+        <IonLabel>Flood Events ({timezone === 'gmt' ? 'GMT' : 'Local'})</IonLabel>
+      </IonListHeader>
+      {events.map(event => {
+        const level = tierLevel(event.peak, tiers);
+        const status = event.inProgress
+          ? { label: 'Now', color: 'danger' }
+          : event.peakTime <= now
+            ? { label: 'Observed', color: 'medium' }
+            : { label: 'Forecast', color: 'primary' };
+
+        return (
+          <IonItem key={`${event.onset?.getTime() ?? 'start'}-${event.peakTime.getTime()}`}>
+            <IonLabel>
+              <h3>
+                <span className="crossing-tier" style={{ color: tierLevelColor(level, tiers) }}>
+                  {level > 0 ? `${TIER_LABELS[tiers[level - 1].severity]} flooding` : 'Flooding'}
+                </span>
+                <IonBadge color={status.color} className="flood-event-status">{status.label}</IonBadge>
+              </h3>
+              <p>
+                {formatTime(event.onset, 'Before chart start')} – {formatTime(event.recession, 'beyond chart end')}
+                {' '}({formatDuration(event.durationMinutes)})
+              </p>
+              <p>
+                Peak {formatLength(event.peak, units)} at {formatTooltipTime(event.peakTime, timezone)}
+              </p>
+            </IonLabel>
+            <IonNote slot="end" className="flood-event-depth">
+              {formatLength(event.maxDepth, units, { signed: true })}
+            </IonNote>
+          </IonItem>
+        );
+      })}
+    </IonList>
+  );
+};
+
+export default FloodEventList;
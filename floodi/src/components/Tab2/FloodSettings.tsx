@@ -10,22 +10,87 @@ import {
   IonSegmentButton,
   IonIcon,
   IonToggle,
+  IonSelect,
+  IonSelectOption,
+  IonChip,
+  IonButton,
 } from '@ionic/react';
 import { warningOutline } from 'ionicons/icons';
-import type { OffsetConfig } from './types';
+import { DATUMS } from '../../lib/noaa';
+import type { Datum, FloodSeverity } from '../../lib/noaa';
+import { SURGE_STRATEGIES, SURGE_STRATEGY_IDS } from '../../lib/surge';
+import type { SurgeStrategyId } from '../../lib/surge';
+import { formatLength } from '../../lib/units';
+import type { LengthUnit } from '../../lib/units';
+import type { FloodLevelPreset, OffsetConfig, TierThresholds, UncertaintyConfig } from './types';
+
+/** Descriptive names for the selectable datums */
+const DATUM_LABELS: Record<Datum, string> = {
+  MLLW: 'MLLW (mean lower low water)',
+  MHHW: 'MHHW (mean higher high water)',
+  MHW: 'MHW (mean high water)',
+  MSL: 'MSL (mean sea level)',
+  NAVD88: 'NAVD88 (geodetic)',
+  STND: 'STND (station datum)',
+};
+
+/** Selectable envelope widths, as central coverage */
+const COVERAGE_OPTIONS = [
+  { value: 0.5, label: '50% (25–75%)' },
+  { value: 0.8, label: '80% (10–90%)' },
+  { value: 0.9, label: '90% (5–95%)' },
+];
+
+/** Selectable surge lookback windows, in hours */
+const SURGE_LOOKBACK_OPTIONS = [3, 6, 12, 24];
+
+/** Selectable residual history lengths for the spread estimate */
+const HISTORY_OPTIONS = [
+  { value: 0, label: 'Surge lookback only' },
+  { value: 24, label: '1 day' },
+  { value: 72, label: '3 days' },
+  { value: 168, label: '7 days' },
+];
+
+/**
+ * Label for a flood level preset, e.g. "NOS minor" or "NWS major stage"
+ */
+function floodLevelLabel(level: FloodLevelPreset): string {
+  return level.source === 'NWS' ? `NWS ${level.severity} stage` : `NOS ${level.severity}`;
+}
 
 /**
  * Props for the FloodSettings component
  */
 interface FloodSettingsProps {
-  /** Current flood threshold in feet (MLLW) */
+  /** Current flood threshold in `units`, relative to `datum` */
   threshold: number;
   /** Callback when threshold changes */
   onThresholdChange: (threshold: number) => void;
+  /** Optional moderate and major tier thresholds */
+  tiers: TierThresholds;
+  /** Callback when a tier threshold changes */
+  onTiersChange: (tiers: Partial<TierThresholds>) => void;
+  /** Vertical datum heights are referenced to */
+  datum: Datum;
+  /** Callback when the datum changes (the threshold is converted by the caller) */
+  onDatumChange: (datum: Datum) => void;
+  /** Unit of the threshold and offsets */
+  units: LengthUnit;
+  /** Official flood levels of the station, offered as one-tap presets */
+  floodLevels?: FloodLevelPreset[];
+  /** Level suggested as threshold after a station change (hidden when null) */
+  suggestedLevel?: FloodLevelPreset | null;
+  /** Callback when the suggestion is applied or dismissed */
+  onSuggestionDone?: () => void;
   /** Current offset configuration */
   offsetConfig: OffsetConfig;
   /** Callback when offset configuration changes */
   onOffsetConfigChange: (config: Partial<OffsetConfig>) => void;
+  /** Current forecast uncertainty settings */
+  uncertaintyConfig: UncertaintyConfig;
+  /** Callback when forecast uncertainty settings change */
+  onUncertaintyConfigChange: (config: Partial<UncertaintyConfig>) => void;
   /** Computed surge offset from auto mode (can be null) */
   computedOffset: number | null;
   /** Number of data points used for offset calculation */
@@ -48,8 +113,18 @@ interface FloodSettingsProps {
 export const FloodSettings: React.FC<FloodSettingsProps> = ({
   threshold,
   onThresholdChange,
+  tiers,
+  onTiersChange,
+  datum,
+  onDatumChange,
+  units,
+  floodLevels = [],
+  suggestedLevel = null,
+  onSuggestionDone,
   offsetConfig,
   onOffsetConfigChange,
+  uncertaintyConfig,
+  onUncertaintyConfigChange,
   computedOffset,
   offsetDataPoints,
   showDelta,
@@ -62,11 +137,39 @@ export const FloodSettings: React.FC<FloodSettingsProps> = ({
     const value = event.detail.value as string;
     const numericValue = parseFloat(value);
     
-    if (!isNaN(numericValue) && numericValue > 0) {
+    // Zero and negative values are valid relative to datums like MHHW or MSL
+    if (!isNaN(numericValue)) {
       onThresholdChange(numericValue);
     }
   };
 
+  /**
+   * Handle optional tier threshold changes; clearing the input turns the tier off
+   */
+  const handleTierChange = (severity: 'moderate' | 'major') => (event: CustomEvent) => {
+    const value = (event.detail.value as string | null | undefined) ?? '';
+    const numericValue = parseFloat(value);
+
+    if (value.trim() === '') {
+      onTiersChange({ [severity]: null });
+    } else if (!isNaN(numericValue)) {
+      onTiersChange({ [severity]: numericValue });
+    }
+  };
+
+  /** Current threshold of a tier (minor is the main threshold) */
+  const tierThreshold = (severity: FloodSeverity): number | null =>
+    severity === 'minor' ? threshold : tiers[severity];
+
+  /** Apply a station flood level to the tier of the same severity */
+  const applyFloodLevel = (level: FloodLevelPreset) => {
+    if (level.severity === 'minor') {
+      onThresholdChange(level.threshold);
+    } else {
+      onTiersChange({ [level.severity]: level.threshold });
+    }
+  };
+
   /**
    * Handle offset mode selection
    */
@@ -83,13 +186,26 @@ export const FloodSettings: React.FC<FloodSettingsProps> = ({
     onOffsetConfigChange({ value });
   };
 
+  /**
+   * Handle surge decay changes; an empty or non-positive value disables decay
+   */
+  const handleDecayChange = (event: CustomEvent) => {
+    const value = (event.detail.value as string | null | undefined) ?? '';
+    const hours = parseFloat(value);
+
+    if (value.trim() === '' || hours <= 0) {
+      onOffsetConfigChange({ decayHours: null });
+    } else if (!isNaN(hours)) {
+      onOffsetConfigChange({ decayHours: hours });
+    }
+  };
+
   /**
    * Format computed offset display
    */
   const formatComputedOffset = (): string => {
     if (computedOffset === null) return '—';
-    const sign = computedOffset >= 0 ? '+' : '';
-    return `${sign}${computedOffset.toFixed(2)} ft (${offsetDataPoints} pts)`;
+    return `${formatLength(computedOffset, units, { signed: true })} (${offsetDataPoints} pts)`;
   };
 
   return (
@@ -107,18 +223,103 @@ export const FloodSettings: React.FC<FloodSettingsProps> = ({
       </IonItem>
 
       <IonItem>
-        <IonLabel position="stacked">Flood Threshold (ft, MLLW)</IonLabel>
+        <IonSelect
+          label="Datum"
+          value={datum}
+          onIonChange={(e) => onDatumChange(e.detail.value as Datum)}
+          interface="popover"
+        >
+          {DATUMS.map(d => (
+            <IonSelectOption key={d} value={d}>{DATUM_LABELS[d]}</IonSelectOption>
+          ))}
+        </IonSelect>
+        <IonNote slot="helper" color="medium">
+          Switching datums converts the threshold using the station's datum offsets
+        </IonNote>
+      </IonItem>
+
+      <IonItem>
+        <IonLabel position="stacked">Flood Threshold ({units}, {datum})</IonLabel>
         <IonInput
           type="number"
           value={threshold.toString()}
           onIonInput={handleThresholdChange}
-          placeholder="Enter threshold in feet"
-          min="0"
-          step="0.1"
+          placeholder={`Enter threshold in ${units}`}
+          step={units === 'cm' ? '1' : '0.1'}
           className="threshold-input"
         />
+        <IonNote slot="helper" color="medium">
+          Minor flooding starts at this level
+        </IonNote>
       </IonItem>
 
+      {/* Optional higher tiers */}
+      {(['moderate', 'major'] as const).map(severity => (
+        <IonItem key={severity}>
+          <IonLabel position="stacked">
+            {severity === 'moderate' ? 'Moderate' : 'Major'} Flood Threshold ({units}, {datum}, optional)
+          </IonLabel>
+          <IonInput
+            type="number"
+            value={tiers[severity] === null ? '' : String(tiers[severity])}
+            onIonInput={handleTierChange(severity)}
+            placeholder="Leave empty to disable"
+            step={units === 'cm' ? '1' : '0.1'}
+            className="threshold-input"
+          />
+        </IonItem>
+      ))}
+
+      {/* Suggested threshold for a newly selected station */}
+      {suggestedLevel && (
+        <IonItem className="flood-level-suggestion">
+          <IonLabel className="ion-text-wrap">
+            <h3>Suggested threshold</h3>
+            <p>
+              {floodLevelLabel(suggestedLevel)} flood level for this station:{' '}
+              {formatLength(suggestedLevel.threshold, units)}
+            </p>
+          </IonLabel>
+          <IonButton
+            slot="end"
+            size="small"
+            onClick={() => {
+              onThresholdChange(suggestedLevel.threshold);
+              onSuggestionDone?.();
+            }}
+          >
+            Use
+          </IonButton>
+          <IonButton slot="end" size="small" fill="clear" onClick={onSuggestionDone}>
+            Dismiss
+          </IonButton>
+        </IonItem>
+      )}
+
+      {/* Official flood levels as one-tap presets */}
+      {floodLevels.length > 0 && (
+        <IonItem>
+          <IonLabel position="stacked">Station flood levels</IonLabel>
+          <div className="flood-level-presets">
+            {floodLevels.map(level => (
+              <IonChip
+                key={`${level.source}-${level.severity}`}
+                color={level.threshold === tierThreshold(level.severity) ? 'primary' : undefined}
+                outline={level.threshold !== tierThreshold(level.severity)}
+                onClick={() => applyFloodLevel(level)}
+              >
+                <IonLabel>
+                  {floodLevelLabel(level)} · {formatLength(level.threshold, units)}
+                </IonLabel>
+              </IonChip>
+            ))}
+          </div>
+          <IonNote slot="helper" color="medium">
+            NOS flood thresholds and NWS flood stages, converted to {datum}. Tap to use as the matching tier.
+          </IonNote>
+        </IonItem>
+      )}
+
       {/* Surge Offset Section */}
       <IonItem lines="none">
         <IonNote color="medium">
@@ -145,13 +346,13 @@ export const FloodSettings: React.FC<FloodSettingsProps> = ({
 
       {offsetConfig.mode === 'manual' ? (
         <IonItem>
-          <IonLabel position="stacked">Manual Offset (ft)</IonLabel>
+          <IonLabel position="stacked">Manual Offset ({units})</IonLabel>
           <IonInput
             type="number"
             value={offsetConfig.value}
             onIonInput={handleManualOffsetChange}
-            placeholder="Enter offset in feet"
-            step="0.01"
+            placeholder={`Enter offset in ${units}`}
+            step={units === 'cm' ? '1' : '0.01'}
             className="offset-input"
           />
           <IonNote slot="helper" color="medium">
@@ -170,6 +371,101 @@ export const FloodSettings: React.FC<FloodSettingsProps> = ({
         </IonItem>
       )}
 
+      {offsetConfig.mode === 'auto' && (
+        <>
+          <IonItem>
+            <IonSelect
+              label="Surge Estimator"
+              value={offsetConfig.strategy}
+              onIonChange={(e) => onOffsetConfigChange({ strategy: e.detail.value as SurgeStrategyId })}
+              interface="popover"
+            >
+              {SURGE_STRATEGY_IDS.map(id => (
+                <IonSelectOption key={id} value={id}>{SURGE_STRATEGIES[id].label}</IonSelectOption>
+              ))}
+            </IonSelect>
+            <IonNote slot="helper" color="medium">
+              {SURGE_STRATEGIES[offsetConfig.strategy].description}
+            </IonNote>
+          </IonItem>
+
+          <IonItem>
+            <IonSelect
+              label="Surge Lookback"
+              value={offsetConfig.lookbackHours}
+              onIonChange={(e) => onOffsetConfigChange({ lookbackHours: Number(e.detail.value) })}
+              interface="popover"
+            >
+              {SURGE_LOOKBACK_OPTIONS.map(h => (
+                <IonSelectOption key={h} value={h}>{h} hours</IonSelectOption>
+              ))}
+            </IonSelect>
+            <IonNote slot="helper" color="medium">
+              Recent observations the surge is estimated from
+            </IonNote>
+          </IonItem>
+
+          <IonItem>
+            <IonLabel position="stacked">Surge Decay (hours)</IonLabel>
+            <IonInput
+              type="number"
+              value={offsetConfig.decayHours === null ? '' : offsetConfig.decayHours.toString()}
+              onIonInput={handleDecayChange}
+              placeholder="Leave empty to keep surge constant"
+              min="0"
+              step="1"
+              className="offset-input"
+            />
+            <IonNote slot="helper" color="medium">
+              Surge fades toward zero over the forecast, to about a third after this many hours
+            </IonNote>
+          </IonItem>
+        </>
+      )}
+
+      {/* Forecast uncertainty */}
+      <IonItem>
+        <IonLabel>
+          <h3>Show forecast range</h3>
+          <p>Shaded band of likely water levels around the adjusted prediction</p>
+        </IonLabel>
+        <IonToggle
+          checked={uncertaintyConfig.show}
+          onIonChange={(e) => onUncertaintyConfigChange({ show: e.detail.checked })}
+        />
+      </IonItem>
+
+      {uncertaintyConfig.show && (
+        <IonItem>
+          <IonSelect
+            label="Range Width"
+            value={uncertaintyConfig.coverage}
+            onIonChange={(e) => onUncertaintyConfigChange({ coverage: e.detail.value as number })}
+            interface="popover"
+          >
+            {COVERAGE_OPTIONS.map(option => (
+              <IonSelectOption key={option.value} value={option.value}>{option.label}</IonSelectOption>
+            ))}
+          </IonSelect>
+        </IonItem>
+      )}
+
+      <IonItem>
+        <IonSelect
+          label="Spread History"
+          value={uncertaintyConfig.historyHours}
+          onIonChange={(e) => onUncertaintyConfigChange({ historyHours: e.detail.value as number })}
+          interface="popover"
+        >
+          {HISTORY_OPTIONS.map(option => (
+            <IonSelectOption key={option.value} value={option.value}>{option.label}</IonSelectOption>
+          ))}
+        </IonSelect>
+        <IonNote slot="helper" color="medium">
+          Longer history gives a steadier estimate of how fast forecast errors grow
+        </IonNote>
+      </IonItem>
+
       {/* Surge offset trend toggle */}
       <IonItem>
         <IonLabel>
@@ -0,0 +1,214 @@
+import React, { useRef } from 'react';
+import {
+  IonButton,
+  IonIcon,
+  IonInput,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonNote,
+  IonSegment,
+  IonSegmentButton,
+  IonSelect,
+  IonSelectOption,
+  IonSpinner,
+} from '@ionic/react';
+import { cloudDownloadOutline } from 'ionicons/icons';
+import { GUIDANCE_USES } from '../../lib/guidance';
+import type { GuidanceUse, SurgeGuidance } from '../../lib/guidance';
+import { LENGTH_UNITS } from '../../lib/units';
+import type { LengthUnit } from '../../lib/units';
+import type { GuidanceConfig } from './types';
+
+/**
+ * Props for the GuidanceSettings component
+ */
+interface GuidanceSettingsProps {
+  /** Guidance settings */
+  guidanceConfig: GuidanceConfig;
+  /** Callback when guidance settings change */
+  onGuidanceConfigChange: (config: Partial<GuidanceConfig>) => void;
+  /** Currently loaded guidance */
+  guidance: SurgeGuidance | null;
+  /** Whether guidance is loading from the URL */
+  loading: boolean;
+  /** Last load or import error */
+  error: Error | null;
+  /** Callback with a file chosen for import */
+  onImportFile: (file: File) => void;
+  /** Callback to reload guidance from the URL */
+  onReload: () => void;
+  /** Callback to remove the loaded guidance */
+  onClear: () => void;
+}
+
+/**
+ * Describe the period a guidance series covers
+ * @param guidance Loaded guidance
+ * @returns e.g. "97 values, Jan 15 12:00 – Jan 19 12:00 UTC"
+ */
+function describeCoverage(guidance: SurgeGuidance): string {
+  const fmt = (t: number) => new Date(t).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'UTC',
+  });
+  const { points } = guidance;
+  return `${points.length} values, ${fmt(points[0].t)} – ${fmt(points[points.length - 1].t)} UTC`;
+}
+
+/**
+ * Settings for external surge guidance
+ *
+ * Guidance (e.g. ETSS or STOFS surge as CSV or JSON) is loaded from a URL or
+ * an imported file, shown as its own chart series and optionally used as the
+ * surge of the adjusted forecast, alone or blended with the observed residual.
+ *
+ * @param props GuidanceSettingsProps
+ * @returns JSX.Element
+ */
+export const GuidanceSettings: React.FC<GuidanceSettingsProps> = ({
+  guidanceConfig,
+  onGuidanceConfigChange,
+  guidance,
+  loading,
+  error,
+  onImportFile,
+  onReload,
+  onClear,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onGuidanceConfigChange({ url: '' });
+      onImportFile(file);
+    }
+    // Allow importing the same file again after it changed
+    event.target.value = '';
+  };
+
+  /**
+   * Handle blend horizon changes; invalid values are ignored
+   */
+  const handleBlendChange = (event: CustomEvent) => {
+    const hours = parseFloat((event.detail.value as string | null | undefined) ?? '');
+    if (!isNaN(hours) && hours >= 0) {
+      onGuidanceConfigChange({ blendHours: hours });
+    }
+  };
+
+  return (
+    <IonList className="guidance-settings">
+      <IonListHeader>
+        <IonIcon icon={cloudDownloadOutline} slot="start" />
+        <IonLabel>Surge Guidance</IonLabel>
+      </IonListHeader>
+
+      <IonItem>
+        <IonLabel position="stacked">Guidance URL</IonLabel>
+        <IonInput
+          type="url"
+          value={guidanceConfig.url}
+          onIonChange={(e) => onGuidanceConfigChange({ url: (e.detail.value as string | null | undefined) ?? '' })}
+          placeholder="https://example.org/etss.csv"
+          clearInput
+        />
+        <IonNote slot="helper" color="medium">
+          CSV or JSON with time and surge columns; times without a zone are UTC
+        </IonNote>
+      </IonItem>
+
+      <IonItem lines="none">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+          hidden
+          onChange={handleFileChange}
+        />
+        <IonButton fill="outline" size="small" onClick={() => fileInputRef.current?.click()}>
+          Import file
+        </IonButton>
+        {guidanceConfig.url && (
+          <IonButton fill="outline" size="small" disabled={loading} onClick={onReload}>
+            Reload
+          </IonButton>
+        )}
+        {guidance && (
+          <IonButton fill="clear" size="small" color="medium" onClick={onClear}>
+            Remove
+          </IonButton>
+        )}
+        {loading && <IonSpinner name="crescent" slot="end" />}
+      </IonItem>
+
+      {(guidance || error) && (
+        <IonItem lines="none">
+          <IonLabel className="ion-text-wrap">
+            {guidance && (
+              <>
+                <h3>{guidance.source}</h3>
+                <p>{describeCoverage(guidance)}</p>
+              </>
+            )}
+            {error && <IonNote color="danger">{error.message}</IonNote>}
+          </IonLabel>
+        </IonItem>
+      )}
+
+      <IonItem>
+        <IonLabel>Guidance Units</IonLabel>
+        <IonSegment
+          value={guidanceConfig.units}
+          onIonChange={(e) => onGuidanceConfigChange({ units: e.detail.value as LengthUnit })}
+        >
+          {LENGTH_UNITS.map(unit => (
+            <IonSegmentButton key={unit} value={unit}>
+              <IonLabel>{unit}</IonLabel>
+            </IonSegmentButton>
+          ))}
+        </IonSegment>
+      </IonItem>
+
+      <IonItem>
+        <IonSelect
+          label="Use in Forecast"
+          value={guidanceConfig.use}
+          onIonChange={(e) => onGuidanceConfigChange({ use: e.detail.value as GuidanceUse })}
+          interface="popover"
+        >
+          {GUIDANCE_USES.map(option => (
+            <IonSelectOption key={option.value} value={option.value}>{option.label}</IonSelectOption>
+          ))}
+        </IonSelect>
+        <IonNote slot="helper" color="medium">
+          Applies with the automatic surge offset, wherever guidance is available
+        </IonNote>
+      </IonItem>
+
+      {guidanceConfig.use === 'blend' && (
+        <IonItem>
+          <IonLabel position="stacked">Blend Horizon (hours)</IonLabel>
+          <IonInput
+            type="number"
+            value={guidanceConfig.blendHours.toString()}
+            onIonInput={handleBlendChange}
+            min="0"
+            step="1"
+            className="offset-input"
+          />
+          <IonNote slot="helper" color="medium">
+            The forecast starts from the observed residual and follows the guidance fully after this lead time
+          </IonNote>
+        </IonItem>
+      )}
+    </IonList>
+  );
+};
+
+export default GuidanceSettings;
@@ -0,0 +1,125 @@
+import React from 'react';
+import {
+  IonButton,
+  IonContent,
+  IonIcon,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonNote,
+  IonPopover,
+} from '@ionic/react';
+import { bookmarkOutline, checkmark, chevronDown, settingsOutline, timeOutline } from 'ionicons/icons';
+import { describeSavedLocation } from './savedLocations';
+import type { AppConfiguration, RecentStation, SavedLocation, Station } from './types';
+
+/**
+ * Props for the LocationSwitcher component
+ */
+interface LocationSwitcherProps {
+  /** Currently selected station */
+  station: AppConfiguration['station'];
+  /** Saved locations in the user's order */
+  savedLocations: SavedLocation[];
+  /** Location last switched to, if its station is still selected */
+  activeLocationId: string | null;
+  /** Recently selected stations, most recent first */
+  recentStations: RecentStation[];
+  /** Callback to switch to a saved location */
+  onApplyLocation: (id: string) => void;
+  /** Callback to switch to a recent station, keeping the current flood settings */
+  onStationChange: (station: Station) => void;
+  /** Callback to open the saved location settings */
+  onManage: () => void;
+}
+
+/**
+ * Header control for switching between saved locations and recent stations
+ *
+ * The button shows the active location's nickname, or the station when the
+ * current settings don't belong to a saved location.
+ *
+ * @param props LocationSwitcherProps
+ * @returns JSX.Element
+ */
+export const LocationSwitcher: React.FC<LocationSwitcherProps> = ({
+  station,
+  savedLocations,
+  activeLocationId,
+  recentStations,
+  onApplyLocation,
+  onStationChange,
+  onManage,
+}) => {
+  const active = savedLocations.find(l => l.id === activeLocationId) ?? null;
+  const recent = recentStations.filter(r => r.id !== station.id);
+
+  return (
+    <>
+      <IonButton id="location-switcher-trigger" className="location-switcher-button" aria-label="Switch location">
+        <span className="location-switcher-label">{active?.nickname ?? (station.name || station.id)}</span>
+        <IonIcon icon={chevronDown} slot="end" />
+      </IonButton>
+
+      <IonPopover
+        trigger="location-switcher-trigger"
+        dismissOnSelect={true}
+        side="bottom"
+        alignment="end"
+        className="location-switcher-popover"
+      >
+        <IonContent>
+          <IonList>
+            <IonListHeader>
+              <IonLabel>Saved locations</IonLabel>
+            </IonListHeader>
+            {savedLocations.map(location => (
+              <IonItem key={location.id} button detail={false} onClick={() => onApplyLocation(location.id)}>
+                <IonIcon icon={location.id === activeLocationId ? checkmark : bookmarkOutline} slot="start" />
+                <IonLabel>
+                  <h3>{location.nickname}</h3>
+                  <p>{describeSavedLocation(location)}</p>
+                </IonLabel>
+              </IonItem>
+            ))}
+            {savedLocations.length === 0 && (
+              <IonItem lines="none">
+                <IonNote color="medium">No saved locations yet</IonNote>
+              </IonItem>
+            )}
+
+            {recent.length > 0 && (
+              <>
+                <IonListHeader>
+                  <IonLabel>Recent stations</IonLabel>
+                </IonListHeader>
+                {recent.map(r => (
+                  <IonItem
+                    key={r.id}
+                    button
+                    detail={false}
+                    onClick={() => onStationChange({ id: r.id, name: r.name, state: r.state })}
+                  >
+                    <IonIcon icon={timeOutline} slot="start" />
+                    <IonLabel>
+                      <h3>{r.name || r.id}</h3>
+                      <p>{r.id}{r.state ? ` · ${r.state}` : ''}</p>
+                    </IonLabel>
+                  </IonItem>
+                ))}
+              </>
+            )}
+
+            <IonItem button detail={false} lines="none" onClick={onManage}>
+              <IonIcon icon={settingsOutline} slot="start" />
+              <IonLabel>Manage locations</IonLabel>
+            </IonItem>
+          </IonList>
+        </IonContent>
+      </IonPopover>
+    </>
+  );
+};
+
+export default LocationSwitcher;
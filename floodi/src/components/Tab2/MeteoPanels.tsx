@@ -0,0 +1,263 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { IonItem, IonLabel, IonNote, IonSpinner } from '@ionic/react';
+import { STANDARD_PRESSURE_HPA, shoreComponents } from '../../lib/meteo';
+import type { MeteoSurgeFit } from '../../lib/meteo';
+import { formatLength } from '../../lib/units';
+import type { LengthUnit } from '../../lib/units';
+import type { Point, WindPoint } from './types';
+
+/**
+ * Props for the MeteoPanels component
+ */
+interface MeteoPanelsProps {
+  /** Wind observations in the display domain */
+  windPoints: WindPoint[];
+  /** Air pressure (hPa) in the display domain */
+  pressurePoints: Point[];
+  /** Whether to draw the wind panel */
+  showWind: boolean;
+  /** Whether to draw the pressure panel */
+  showPressure: boolean;
+  /** Whether wind and pressure are still loading */
+  loading: boolean;
+  /** Regression of the surge on wind and pressure */
+  fit: MeteoSurgeFit | null;
+  /** Bearing from the station out to open water */
+  shoreNormalDeg: number;
+  /** Unit of the wind speeds */
+  windUnit: 'kn' | 'm/s';
+  /** Unit of the surge contributions */
+  units: LengthUnit;
+  /** Time domain start, shared with the main chart */
+  domainStart: Date;
+  /** Time domain end, shared with the main chart */
+  domainEnd: Date;
+  /** Current time marker */
+  now: Date;
+}
+
+/** Panel height in pixels */
+const PANEL_HEIGHT = 110;
+
+/** Same horizontal margins as the main chart, so the time axes line up */
+const MARGINS = { l: 50, r: 20, t: 8, b: 8 };
+
+/** Wind arrows are drawn at most this often */
+const ARROW_SPACING_PX = 36;
+
+const ONSHORE_COLOR = '#e67e22';
+const OFFSHORE_COLOR = '#3498db';
+
+/**
+ * Surge breakdown sentence for the latest fitted sample
+ * @param fit Weather surge fit
+ * @param units Unit of the contributions
+ * @returns e.g. "Surge +0.42 ft: wind +0.25 ft, pressure +0.10 ft, other +0.07 ft"
+ */
+function describeFit(fit: MeteoSurgeFit, units: LengthUnit): string {
+  const latest = fit.contributions[fit.contributions.length - 1];
+  const total = latest.wind + latest.pressure + latest.other;
+  const parts = [
+    fit.hasWind ? `wind ${formatLength(latest.wind, units, { signed: true })}` : null,
+    fit.hasPressure ? `pressure ${formatLength(latest.pressure, units, { signed: true })}` : null,
+    `other ${formatLength(latest.other, units, { signed: true })}`,
+  ].filter(Boolean);
+  return `Surge ${formatLength(total, units, { signed: true })}: ${parts.join(', ')}`;
+}
+
+/**
+ * How the weather contribution changed over the fitted window
+ * @param fit Weather surge fit
+ * @param units Unit of the contributions
+ * @returns e.g. "Change over 6 h: wind +0.18 ft, pressure +0.02 ft • R² 0.71 from 60 samples"
+ */
+function describeTrend(fit: MeteoSurgeFit, units: LengthUnit): string {
+  const first = fit.contributions[0];
+  const latest = fit.contributions[fit.contributions.length - 1];
+  const hours = Math.round((latest.t - first.t) / 3600_000);
+  const parts = [
+    fit.hasWind ? `wind ${formatLength(latest.wind - first.wind, units, { signed: true })}` : null,
+    fit.hasPressure ? `pressure ${formatLength(latest.pressure - first.pressure, units, { signed: true })}` : null,
+  ].filter(Boolean);
+  return `Change over ${hours} h: ${parts.join(', ')} • R² ${fit.r2.toFixed(2)} from ${fit.n} samples`;
+}
+
+/**
+ * Wind and air pressure panels drawn under the main chart
+ *
+ * The panels share the chart's time axis. Wind is drawn as speed with gusts
+ * and direction arrows colored by whether the wind blows onshore; pressure is
+ * drawn against the standard atmosphere. When a surge fit is available, a
+ * summary attributes the current surge to wind, pressure and everything else.
+ *
+ * @param props MeteoPanelsProps
+ * @returns JSX.Element
+ */
+export const MeteoPanels: React.FC<MeteoPanelsProps> = ({
+  windPoints,
+  pressurePoints,
+  showWind,
+  showPressure,
+  loading,
+  fit,
+  shoreNormalDeg,
+  windUnit,
+  units,
+  domainStart,
+  domainEnd,
+  now,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(900);
+  const visible = showWind || showPressure;
+
+  // Track the container width like the main chart
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const resizeObserver = new ResizeObserver(entries => {
+      for (const entry of entries) {
+        setWidth(Math.max(320, Math.floor(entry.contentRect.width)));
+      }
+    });
+
+    resizeObserver.observe(container);
+    return () => resizeObserver.disconnect();
+  }, [visible]);
+
+  if (!visible) return null;
+
+  const innerW = width - MARGINS.l - MARGINS.r;
+  const innerH = PANEL_HEIGHT - MARGINS.t - MARGINS.b;
+  const t0 = domainStart.getTime();
+  const t1 = domainEnd.getTime();
+  const xOf = (date: Date) => MARGINS.l + ((date.getTime() - t0) / (t1 - t0)) * innerW;
+  const nowX = xOf(now);
+
+  /** Vertical scale for a value range */
+  const scaleFor = (min: number, max: number) => (value: number) =>
+    MARGINS.t + (1 - (value - min) / (max - min || 1)) * innerH;
+
+  /** Panel background, now marker and min/max labels */
+  const frame = (min: string, max: string) => (
+    <>
+      <rect x={0} y={0} width={width} height={PANEL_HEIGHT} fill="var(--chart-bg)" />
+      <rect x={MARGINS.l} y={MARGINS.t} width={innerW} height={innerH} fill="var(--chart-plot-bg)" stroke="var(--chart-plot-stroke)" />
+      <line x1={nowX} x2={nowX} y1={MARGINS.t} y2={MARGINS.t + innerH} stroke="#888" strokeDasharray="2 4" />
+      <text x={4} y={MARGINS.t + 10} fill="var(--chart-axis-text)" fontSize="11">{max}</text>
+      <text x={4} y={MARGINS.t + innerH} fill="var(--chart-axis-text)" fontSize="11">{min}</text>
+    </>
+  );
+
+  const renderWind = () => {
+    const maxSpeed = Math.max(1, ...windPoints.map(p => Math.max(p.speed, p.gust ?? 0)));
+    const yOf = scaleFor(0, maxSpeed * 1.1);
+    const arrows: WindPoint[] = [];
+    let lastX = -Infinity;
+    for (const p of windPoints) {
+      const x = xOf(p.t);
+      if (x - lastX >= ARROW_SPACING_PX) {
+        arrows.push(p);
+        lastX = x;
+      }
+    }
+
+    return (
+      <svg viewBox={`0 0 ${width} ${PANEL_HEIGHT}`} width={width} height={PANEL_HEIGHT} role="img" aria-label="Wind speed and direction">
+        {frame(`0 ${windUnit}`, `${Math.round(maxSpeed * 1.1)} ${windUnit}`)}
+        {windPoints.some(p => p.gust !== null) && (
+          <polyline
+            fill="none"
+            stroke="#7f8c8d"
+            strokeWidth="1"
+            strokeDasharray="2 2"
+            points={windPoints.filter(p => p.gust !== null).map(p => `${xOf(p.t)},${yOf(p.gust!)}`).join(' ')}
+          />
+        )}
+        <polyline
+          fill="none"
+          stroke="#34495e"
+          strokeWidth="1.5"
+          points={windPoints.map(p => `${xOf(p.t)},${yOf(p.speed)}`).join(' ')}
+        />
+        {/* Arrows point where the wind blows to */}
+        {arrows.map((p, i) => {
+          const onshore = shoreComponents(p, shoreNormalDeg).onshore > 0;
+          return (
+            <g key={i} transform={`translate(${xOf(p.t)}, ${MARGINS.t + innerH - 10}) rotate(${p.direction + 180})`}>
+              <line x1={0} y1={7} x2={0} y2={-7} stroke={onshore ? ONSHORE_COLOR : OFFSHORE_COLOR} strokeWidth="1.5" />
+              <polyline points="-3,-3 0,-7 3,-3" fill="none" stroke={onshore ? ONSHORE_COLOR : OFFSHORE_COLOR} strokeWidth="1.5" />
+            </g>
+          );
+        })}
+        <text x={MARGINS.l + 6} y={MARGINS.t + 12} fill="var(--chart-label-text)" fontSize="12">
+          Wind (gusts dotted; <tspan fill={ONSHORE_COLOR}>onshore</tspan> / <tspan fill={OFFSHORE_COLOR}>offshore</tspan>)
+        </text>
+      </svg>
+    );
+  };
+
+  const renderPressure = () => {
+    const values = pressurePoints.map(p => p.v);
+    const min = Math.min(...values) - 1;
+    const max = Math.max(...values) + 1;
+    const yOf = scaleFor(min, max);
+    const standardVisible = STANDARD_PRESSURE_HPA > min && STANDARD_PRESSURE_HPA < max;
+
+    return (
+      <svg viewBox={`0 0 ${width} ${PANEL_HEIGHT}`} width={width} height={PANEL_HEIGHT} role="img" aria-label="Air pressure">
+        {frame(`${Math.round(min)} hPa`, `${Math.round(max)} hPa`)}
+        {standardVisible && (
+          <line
+            x1={MARGINS.l}
+            x2={MARGINS.l + innerW}
+            y1={yOf(STANDARD_PRESSURE_HPA)}
+            y2={yOf(STANDARD_PRESSURE_HPA)}
+            stroke="var(--chart-grid)"
+            strokeDasharray="6 4"
+          />
+        )}
+        <polyline
+          fill="none"
+          stroke="#16a085"
+          strokeWidth="1.5"
+          points={pressurePoints.map(p => `${xOf(p.t)},${yOf(p.v)}`).join(' ')}
+        />
+        <text x={MARGINS.l + 6} y={MARGINS.t + 12} fill="var(--chart-label-text)" fontSize="12">
+          Air pressure{standardVisible ? ' (dashed: 1013 hPa)' : ''}
+        </text>
+      </svg>
+    );
+  };
+
+  return (
+    <div className="meteo-panels" ref={containerRef}>
+      {loading ? (
+        <IonItem lines="none">
+          <IonSpinner name="dots" slot="start" />
+          <IonNote color="medium">Loading wind and pressure...</IonNote>
+        </IonItem>
+      ) : (
+        <>
+          {fit && (
+            <IonItem lines="none" className="meteo-summary">
+              <IonLabel className="ion-text-wrap">
+                <p>{describeFit(fit, units)}</p>
+                <p>{describeTrend(fit, units)}</p>
+              </IonLabel>
+            </IonItem>
+          )}
+          {showWind && (windPoints.length > 1
+            ? renderWind()
+            : <IonNote color="medium" className="meteo-unavailable">No wind observations from this station</IonNote>)}
+          {showPressure && (pressurePoints.length > 1
+            ? renderPressure()
+            : <IonNote color="medium" className="meteo-unavailable">No air pressure observations from this station</IonNote>)}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MeteoPanels;
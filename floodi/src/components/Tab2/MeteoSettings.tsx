@@ -0,0 +1,109 @@
+import React from 'react';
+import {
+  IonIcon,
+  IonInput,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonNote,
+  IonToggle,
+} from '@ionic/react';
+import { cloudyOutline } from 'ionicons/icons';
+import { compassPoint } from '../../lib/geo';
+import type { MeteoConfig } from './types';
+
+/**
+ * Props for the MeteoSettings component
+ */
+interface MeteoSettingsProps {
+  /** Wind and pressure settings */
+  meteoConfig: MeteoConfig;
+  /** Callback when wind and pressure settings change */
+  onMeteoConfigChange: (config: Partial<MeteoConfig>) => void;
+  /** Whether the surge is estimated automatically (the weather model needs auto mode) */
+  autoOffset: boolean;
+}
+
+/**
+ * Settings for the wind and air pressure panels and the weather surge model
+ *
+ * The shore-normal direction orients the regression: wind from that bearing
+ * pushes water straight onto the coast, wind from the opposite bearing
+ * pulls it away.
+ *
+ * @param props MeteoSettingsProps
+ * @returns JSX.Element
+ */
+export const MeteoSettings: React.FC<MeteoSettingsProps> = ({ meteoConfig, onMeteoConfigChange, autoOffset }) => {
+  /**
+   * Handle shore-normal changes; values outside 0–360° are ignored
+   */
+  const handleShoreNormalChange = (event: CustomEvent) => {
+    const degrees = parseFloat((event.detail.value as string | null | undefined) ?? '');
+    if (!isNaN(degrees) && degrees >= 0 && degrees <= 360) {
+      onMeteoConfigChange({ shoreNormalDeg: degrees % 360 });
+    }
+  };
+
+  return (
+    <IonList className="meteo-settings">
+      <IonListHeader>
+        <IonIcon icon={cloudyOutline} slot="start" />
+        <IonLabel>Wind &amp; Pressure</IonLabel>
+      </IonListHeader>
+
+      <IonItem>
+        <IonLabel>
+          <h3>Show wind</h3>
+          <p>Speed, gusts and direction under the chart</p>
+        </IonLabel>
+        <IonToggle
+          checked={meteoConfig.showWind}
+          onIonChange={(e) => onMeteoConfigChange({ showWind: e.detail.checked })}
+        />
+      </IonItem>
+
+      <IonItem>
+        <IonLabel>
+          <h3>Show air pressure</h3>
+          <p>Barometric pressure under the chart</p>
+        </IonLabel>
+        <IonToggle
+          checked={meteoConfig.showPressure}
+          onIonChange={(e) => onMeteoConfigChange({ showPressure: e.detail.checked })}
+        />
+      </IonItem>
+
+      <IonItem>
+        <IonLabel position="stacked">Shore Normal (° true, {compassPoint(meteoConfig.shoreNormalDeg)})</IonLabel>
+        <IonInput
+          type="number"
+          value={meteoConfig.shoreNormalDeg.toString()}
+          onIonInput={handleShoreNormalChange}
+          min="0"
+          max="360"
+          step="5"
+          className="offset-input"
+        />
+        <IonNote slot="helper" color="medium">
+          Direction from the station out to open water; wind from there blows onshore
+        </IonNote>
+      </IonItem>
+
+      <IonItem>
+        <IonLabel>
+          <h3>Weather-driven surge</h3>
+          <p>Estimate the surge from wind stress and the inverse barometer instead of the residual strategy</p>
+        </IonLabel>
+        <IonToggle
+          checked={meteoConfig.useInSurge}
+          disabled={!autoOffset}
+          onIonChange={(e) => onMeteoConfigChange({ useInSurge: e.detail.checked })}
+        />
+      </IonItem>
+    </IonList>
+  );
+};
+
+export default MeteoSettings;
@@ -0,0 +1,103 @@
+import React from 'react';
+import {
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonNote,
+  IonSpinner,
+} from '@ionic/react';
+import type { ExceedanceStats, SlrScenarioId } from '../../lib/slr';
+import { formatLength } from '../../lib/units';
+import type { LengthUnit } from '../../lib/units';
+import type { PlanningSummary } from './types';
+
+/**
+ * Props for the PlanningOutlook component
+ */
+interface PlanningOutlookProps {
+  /** Exceedance statistics, null while loading or unavailable */
+  summary: PlanningSummary | null;
+  /** Scenario drawn on the chart, highlighted in the list */
+  selectedScenario: SlrScenarioId;
+  /** Flood threshold the statistics refer to */
+  threshold: number;
+  /** Unit of the threshold and rise */
+  units: LengthUnit;
+  /** Whether the predictions are still loading */
+  loading: boolean;
+  /** Load failure */
+  error: Error | null;
+}
+
+/**
+ * Describe how often a threshold is reached
+ * @param stats High tide exceedance statistics
+ * @returns e.g. "181 high tides on 163 days"
+ */
+function describeExceedance(stats: ExceedanceStats): string {
+  if (stats.above === 0) return 'never';
+  return `${stats.above} high ${stats.above === 1 ? 'tide' : 'tides'} on ${stats.days} ${stats.days === 1 ? 'day' : 'days'}`;
+}
+
+/**
+ * Threshold exceedance outlook for the sea level rise planning mode
+ *
+ * Lists how many high tides, and on how many days, the predicted tides reach
+ * the flood threshold this year and in the target year under each scenario.
+ * Tides alone are counted: storm surge would add further flooding in both years.
+ *
+ * @param props PlanningOutlookProps
+ * @returns JSX.Element
+ */
+export const PlanningOutlook: React.FC<PlanningOutlookProps> = ({
+  summary,
+  selectedScenario,
+  threshold,
+  units,
+  loading,
+  error,
+}) => (
+  <IonList className="planning-outlook">
+    <IonListHeader>
+      <IonLabel>
+        Tidal flooding {summary ? `in ${summary.targetYear}` : 'outlook'} (above {formatLength(threshold, units)})
+      </IonLabel>
+    </IonListHeader>
+
+    {loading && (
+      <IonItem lines="none">
+        <IonSpinner name="dots" slot="start" />
+        <IonNote color="medium">Loading a year of tide predictions...</IonNote>
+      </IonItem>
+    )}
+
+    {!loading && error && (
+      <IonItem lines="none">
+        <IonNote color="danger">Could not load future predictions: {error.message}</IonNote>
+      </IonItem>
+    )}
+
+    {!loading && summary && (
+      <>
+        <IonItem>
+          <IonLabel>
+            <h3>{summary.currentYear} tides</h3>
+          </IonLabel>
+          <IonNote slot="end">{describeExceedance(summary.baseline)}</IonNote>
+        </IonItem>
+        {summary.scenarios.map(({ scenario, rise, stats }) => (
+          <IonItem key={scenario.id} color={scenario.id === selectedScenario ? 'light' : undefined}>
+            <IonLabel>
+              <h3>{scenario.label}</h3>
+              <p>{formatLength(rise, units, { signed: true })} sea level</p>
+            </IonLabel>
+            <IonNote slot="end">{describeExceedance(stats)}</IonNote>
+          </IonItem>
+        ))}
+      </>
+    )}
+  </IonList>
+);
+
+export default PlanningOutlook;
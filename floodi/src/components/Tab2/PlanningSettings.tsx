@@ -0,0 +1,94 @@
+import React from 'react';
+import {
+  IonIcon,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonNote,
+  IonSelect,
+  IonSelectOption,
+  IonToggle,
+} from '@ionic/react';
+import { trendingUpOutline } from 'ionicons/icons';
+import { SLR_SCENARIOS, SLR_YEARS } from '../../lib/slr';
+import type { SlrScenarioId } from '../../lib/slr';
+import type { PlanningConfig } from './types';
+
+/**
+ * Props for the PlanningSettings component
+ */
+interface PlanningSettingsProps {
+  /** Planning mode settings */
+  planningConfig: PlanningConfig;
+  /** Callback when planning settings change */
+  onPlanningConfigChange: (config: Partial<PlanningConfig>) => void;
+}
+
+/**
+ * Settings for the sea level rise planning mode
+ *
+ * Target years are the decades of the bundled scenario table that lie ahead.
+ *
+ * @param props PlanningSettingsProps
+ * @returns JSX.Element
+ */
+export const PlanningSettings: React.FC<PlanningSettingsProps> = ({ planningConfig, onPlanningConfigChange }) => {
+  const currentYear = new Date().getUTCFullYear();
+  const targetYears = SLR_YEARS.filter(year => year > currentYear);
+
+  return (
+    <IonList className="planning-settings">
+      <IonListHeader>
+        <IonIcon icon={trendingUpOutline} slot="start" />
+        <IonLabel>Sea Level Rise Planning</IonLabel>
+      </IonListHeader>
+
+      <IonItem>
+        <IonLabel>
+          <h3>Planning mode</h3>
+          <p>Compare today's tides with a future year's under sea level rise</p>
+        </IonLabel>
+        <IonToggle
+          checked={planningConfig.enabled}
+          onIonChange={(e) => onPlanningConfigChange({ enabled: e.detail.checked })}
+        />
+      </IonItem>
+
+      {planningConfig.enabled && (
+        <>
+          <IonItem>
+            <IonSelect
+              label="Target Year"
+              value={planningConfig.targetYear}
+              onIonChange={(e) => onPlanningConfigChange({ targetYear: e.detail.value as number })}
+              interface="popover"
+            >
+              {targetYears.map(year => (
+                <IonSelectOption key={year} value={year}>{year}</IonSelectOption>
+              ))}
+            </IonSelect>
+          </IonItem>
+
+          <IonItem>
+            <IonSelect
+              label="Scenario on Chart"
+              value={planningConfig.scenario}
+              onIonChange={(e) => onPlanningConfigChange({ scenario: e.detail.value as SlrScenarioId })}
+              interface="popover"
+            >
+              {SLR_SCENARIOS.map(scenario => (
+                <IonSelectOption key={scenario.id} value={scenario.id}>{scenario.label}</IonSelectOption>
+              ))}
+            </IonSelect>
+            <IonNote slot="helper" color="medium">
+              NOAA 2022 global scenarios; local rise can differ
+            </IonNote>
+          </IonItem>
+        </>
+      )}
+    </IonList>
+  );
+};
+
+export default PlanningSettings;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import {
+  IonButton,
+  IonButtons,
+  IonIcon,
+  IonInput,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonNote,
+} from '@ionic/react';
+import { bookmarksOutline, checkmarkCircle, refreshOutline, trashOutline } from 'ionicons/icons';
+import { describeSavedLocation } from './savedLocations';
+import type { AppConfiguration, SavedLocation } from './types';
+
+/**
+ * Props for the SavedLocationsSettings component
+ */
+interface SavedLocationsSettingsProps {
+  /** Saved locations in the user's order */
+  savedLocations: SavedLocation[];
+  /** Location last switched to, if its station is still selected */
+  activeLocationId: string | null;
+  /** Currently selected station, suggested as the nickname of a new location */
+  station: AppConfiguration['station'];
+  /** Callback to save the current settings as a new location, or into an existing one */
+  onSave: (nickname: string, id?: string) => void;
+  /** Callback to rename a location */
+  onRename: (id: string, nickname: string) => void;
+  /** Callback to delete a location */
+  onRemove: (id: string) => void;
+  /** Callback to switch to a location */
+  onApply: (id: string) => void;
+}
+
+/**
+ * Settings for saved locations
+ *
+ * Saves the current station, flood levels, datum and offset mode under a
+ * nickname, and lets the user rename, refresh or delete saved entries.
+ *
+ * @param props SavedLocationsSettingsProps
+ * @returns JSX.Element
+ */
+export const SavedLocationsSettings: React.FC<SavedLocationsSettingsProps> = ({
+  savedLocations,
+  activeLocationId,
+  station,
+  onSave,
+  onRename,
+  onRemove,
+  onApply,
+}) => {
+  const [nickname, setNickname] = useState('');
+
+  const handleSave = () => {
+    onSave(nickname.trim() || station.name || station.id);
+    setNickname('');
+  };
+
+  return (
+    <IonList className="saved-locations-settings">
+      <IonListHeader>
+        <IonIcon icon={bookmarksOutline} slot="start" />
+        <IonLabel>Saved Locations</IonLabel>
+      </IonListHeader>
+
+      {savedLocations.map(location => (
+        <IonItem key={location.id}>
+          {location.id === activeLocationId && (
+            <IonIcon icon={checkmarkCircle} color="primary" slot="start" aria-label="Active location" />
+          )}
+          <IonLabel>
+            <IonInput
+              aria-label="Nickname"
+              value={location.nickname}
+              onIonChange={(e) => {
+                const value = String(e.detail.value ?? '').trim();
+                if (value) onRename(location.id, value);
+              }}
+            />
+            <p>{describeSavedLocation(location)}</p>
+          </IonLabel>
+          <IonButtons slot="end">
+            {location.id !== activeLocationId && (
+              <IonButton fill="clear" onClick={() => onApply(location.id)}>
+                Switch
+              </IonButton>
+            )}
+            <IonButton
+              fill="clear"
+              aria-label={`Replace ${location.nickname} with the current settings`}
+              onClick={() => onSave(location.nickname, location.id)}
+            >
+              <IonIcon icon={refreshOutline} slot="icon-only" />
+            </IonButton>
+            <IonButton
+              fill="clear"
+              color="danger"
+              aria-label={`Delete ${location.nickname}`}
+              onClick={() => onRemove(location.id)}
+            >
+              <IonIcon icon={trashOutline} slot="icon-only" />
+            </IonButton>
+          </IonButtons>
+        </IonItem>
+      ))}
+
+      {savedLocations.length === 0 && (
+        <IonItem lines="none">
+          <IonNote color="medium">
+            Save the current station with its flood levels, datum and offset to switch back to it from the header
+          </IonNote>
+        </IonItem>
+      )}
+
+      <IonItem>
+        <IonInput
+          label="Nickname"
+          labelPlacement="stacked"
+          placeholder={station.name || station.id}
+          value={nickname}
+          onIonInput={(e) => setNickname(String(e.detail.value ?? ''))}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+        />
+        <IonButton slot="end" onClick={handleSave}>
+          Save current
+        </IonButton>
+      </IonItem>
+    </IonList>
+  );
+};
+
+export default SavedLocationsSettings;
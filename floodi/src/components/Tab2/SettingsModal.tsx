@@ -12,10 +12,17 @@ import {
 } from '@ionic/react';
 import { closeOutline } from 'ionicons/icons';
 import { StationSelector } from './StationSelector';
+import { SavedLocationsSettings } from './SavedLocationsSettings';
 import { FloodSettings } from './FloodSettings';
 import { TimeSettings } from './TimeSettings';
 import { DisplaySettings } from './DisplaySettings';
-import type { AppConfiguration, Station } from './types';
+import { GuidanceSettings } from './GuidanceSettings';
+import { MeteoSettings } from './MeteoSettings';
+import { PlanningSettings } from './PlanningSettings';
+import type { SurgeGuidance } from '../../lib/guidance';
+import type { Datum } from '../../lib/noaa';
+import type { LengthUnit } from '../../lib/units';
+import type { AppConfiguration, FloodLevelPreset, SavedLocation, Station, TierThresholds } from './types';
 
 /**
  * Props for the SettingsModal component
@@ -27,16 +34,64 @@ interface SettingsModalProps {
   onDismiss: () => void;
   /** Current application configuration */
   config: AppConfiguration;
+  /** IDs of stations starred by the user, highlighted in the selector and on the map */
+  favoriteStations: string[];
+  /** Saved locations in the user's order */
+  savedLocations: SavedLocation[];
+  /** Location last switched to, if its station is still selected */
+  activeLocationId: string | null;
   /** Callback when station changes */
   onStationChange: (station: Station) => void;
+  /** Callback to star or unstar a station */
+  onToggleFavoriteStation: (stationId: string) => void;
+  /** Callback to save the current settings as a location, or into an existing one */
+  onSaveLocation: (nickname: string, id?: string) => void;
+  /** Callback to rename a saved location */
+  onRenameLocation: (id: string, nickname: string) => void;
+  /** Callback to delete a saved location */
+  onRemoveLocation: (id: string) => void;
+  /** Callback to switch to a saved location */
+  onApplyLocation: (id: string) => void;
   /** Callback when threshold changes */
   onThresholdChange: (threshold: number) => void;
+  /** Callback when a moderate/major tier threshold changes */
+  onTiersChange: (tiers: Partial<TierThresholds>) => void;
+  /** Callback when the vertical datum changes */
+  onDatumChange: (datum: Datum) => void;
+  /** Callback when the length unit changes */
+  onUnitsChange: (units: LengthUnit) => void;
   /** Callback when offset configuration changes */
   onOffsetConfigChange: (config: Partial<AppConfiguration['offset']>) => void;
+  /** Callback when forecast uncertainty settings change */
+  onUncertaintyChange: (uncertainty: Partial<AppConfiguration['uncertainty']>) => void;
+  /** Callback when surge guidance settings change */
+  onGuidanceChange: (guidance: Partial<AppConfiguration['guidance']>) => void;
+  /** Loaded surge guidance */
+  guidance: SurgeGuidance | null;
+  /** Whether surge guidance is loading */
+  guidanceLoading: boolean;
+  /** Last surge guidance load or import error */
+  guidanceError: Error | null;
+  /** Callback with a guidance file chosen for import */
+  onImportGuidance: (file: File) => void;
+  /** Callback to reload guidance from its URL */
+  onReloadGuidance: () => void;
+  /** Callback to remove the loaded guidance */
+  onClearGuidance: () => void;
+  /** Callback when wind and pressure settings change */
+  onMeteoChange: (meteo: Partial<AppConfiguration['meteo']>) => void;
+  /** Callback when sea level rise planning settings change */
+  onPlanningChange: (planning: Partial<AppConfiguration['planning']>) => void;
   /** Callback when time range changes */
   onTimeRangeChange: (timeRange: Partial<AppConfiguration['timeRange']>) => void;
   /** Callback when display settings change */
   onDisplayChange: (display: Partial<AppConfiguration['display']>) => void;
+  /** Official flood levels of the selected station */
+  floodLevels?: FloodLevelPreset[];
+  /** Threshold suggested after a station change */
+  suggestedLevel?: FloodLevelPreset | null;
+  /** Callback when the threshold suggestion is applied or dismissed */
+  onSuggestionDone?: () => void;
   /** Computed surge offset from auto mode */
   computedOffset: number | null;
   /** Number of data points used for offset calculation */
@@ -62,11 +117,35 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   isOpen,
   onDismiss,
   config,
+  favoriteStations,
+  savedLocations,
+  activeLocationId,
   onStationChange,
+  onToggleFavoriteStation,
+  onSaveLocation,
+  onRenameLocation,
+  onRemoveLocation,
+  onApplyLocation,
   onThresholdChange,
+  onTiersChange,
+  onDatumChange,
+  onUnitsChange,
   onOffsetConfigChange,
+  onUncertaintyChange,
+  onGuidanceChange,
+  guidance,
+  guidanceLoading,
+  guidanceError,
+  onImportGuidance,
+  onReloadGuidance,
+  onClearGuidance,
+  onMeteoChange,
+  onPlanningChange,
   onTimeRangeChange,
   onDisplayChange,
+  floodLevels,
+  suggestedLevel,
+  onSuggestionDone,
   computedOffset,
   offsetDataPoints,
   successMessage,
@@ -109,24 +188,79 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
             onStationChange={onStationChange}
             error={errorMessage}
             successMessage={successMessage}
+            units={config.units}
+            favoriteStationIds={favoriteStations}
+            onToggleFavorite={onToggleFavoriteStation}
+            datum={config.datum}
+            timezone={config.display.timezone}
+          />
+
+          {/* Saved Locations */}
+          <SavedLocationsSettings
+            savedLocations={savedLocations}
+            activeLocationId={activeLocationId}
+            station={config.station}
+            onSave={onSaveLocation}
+            onRename={onRenameLocation}
+            onRemove={onRemoveLocation}
+            onApply={onApplyLocation}
           />
 
           {/* Flood Settings */}
           <FloodSettings
             threshold={config.threshold}
             onThresholdChange={onThresholdChange}
+            tiers={config.tiers}
+            onTiersChange={onTiersChange}
+            datum={config.datum}
+            onDatumChange={onDatumChange}
+            units={config.units}
+            floodLevels={floodLevels}
+            suggestedLevel={suggestedLevel}
+            onSuggestionDone={onSuggestionDone}
             offsetConfig={config.offset}
             onOffsetConfigChange={onOffsetConfigChange}
+            uncertaintyConfig={config.uncertainty}
+            onUncertaintyConfigChange={onUncertaintyChange}
             computedOffset={computedOffset}
             offsetDataPoints={offsetDataPoints}
             showDelta={config.display.showDelta}
             onShowDeltaChange={(show) => onDisplayChange({ showDelta: show })}
           />
 
+          {/* Surge Guidance */}
+          <GuidanceSettings
+            guidanceConfig={config.guidance}
+            onGuidanceConfigChange={onGuidanceChange}
+            guidance={guidance}
+            loading={guidanceLoading}
+            error={guidanceError}
+            onImportFile={onImportGuidance}
+            onReload={onReloadGuidance}
+            onClear={onClearGuidance}
+          />
+
+          {/* Wind & Pressure */}
+          <MeteoSettings
+            meteoConfig={config.meteo}
+            onMeteoConfigChange={onMeteoChange}
+            autoOffset={config.offset.mode === 'auto'}
+          />
+
+          {/* Sea Level Rise Planning */}
+          <PlanningSettings
+            planningConfig={config.planning}
+            onPlanningConfigChange={onPlanningChange}
+          />
+
           {/* Display Settings */}
           <DisplaySettings
             theme={config.display.theme || 'auto'}
             onThemeChange={(theme) => onDisplayChange({ theme })}
+            units={config.units}
+            onUnitsChange={onUnitsChange}
+            interpolateGaps={config.display.interpolateGaps}
+            onInterpolateGapsChange={(interpolateGaps) => onDisplayChange({ interpolateGaps })}
           />
 
           {/* Time Settings */}
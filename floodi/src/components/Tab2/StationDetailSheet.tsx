@@ -0,0 +1,373 @@
+import React, { useEffect } from 'react';
+import {
+  IonButton,
+  IonButtons,
+  IonChip,
+  IonContent,
+  IonHeader,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonModal,
+  IonNote,
+  IonSpinner,
+  IonTitle,
+  IonToolbar,
+} from '@ionic/react';
+import { useStationSearch } from './hooks/useStationSearch';
+import { formatTooltipTime } from './hooks/useChartInteraction';
+import { TIER_COLORS, TIER_LABELS } from './floodTiers';
+import { convertDatum } from '../../lib/noaa';
+import type { Datum, FloodLevel, StationDatums } from '../../lib/noaa';
+import { STATE_NAMES } from '../../lib/stationSearch';
+import { convertLength, formatLength } from '../../lib/units';
+import type { LengthUnit } from '../../lib/units';
+
+/**
+ * Props for the StationDetailSheet component
+ */
+interface StationDetailSheetProps {
+  /** Whether the sheet is open */
+  isOpen: boolean;
+  /** Callback when the sheet should be dismissed */
+  onDismiss: () => void;
+  /** Station to describe */
+  stationId: string;
+  /** Datum heights and levels are shown relative to */
+  datum: Datum;
+  /** Height unit */
+  units: LengthUnit;
+  /** Time zone setting for dates and times */
+  timezone: 'local' | 'gmt';
+}
+
+/** Names of the tidal datums NOAA publishes */
+const DATUM_NAMES: Record<string, string> = {
+  MHHW: 'Mean Higher High Water',
+  MHW: 'Mean High Water',
+  DTL: 'Diurnal Tide Level',
+  MTL: 'Mean Tide Level',
+  MSL: 'Mean Sea Level',
+  MLW: 'Mean Low Water',
+  MLLW: 'Mean Lower Low Water',
+  NAVD88: 'North American Vertical Datum of 1988',
+  STND: 'Station Datum',
+  MAX: 'Highest observed',
+  MIN: 'Lowest observed',
+  HAT: 'Highest Astronomical Tide',
+  LAT: 'Lowest Astronomical Tide',
+};
+
+/** Values in the datums response that are ranges, not elevations */
+const TIDE_RANGES: Record<string, string> = {
+  GT: 'Great diurnal range',
+  MN: 'Mean range',
+  DHQ: 'Mean diurnal high water inequality',
+  DLQ: 'Mean diurnal low water inequality',
+};
+
+/** Lunitidal intervals (hours) in the datums response, neither elevations nor ranges */
+const INTERVALS = ['HWI', 'LWI'];
+
+/** A labelled height on the datum ladder */
+interface Rung {
+  label: string;
+  value: number;
+  color?: string;
+}
+
+/** Ladder geometry (px) */
+const LADDER = { width: 300, height: 260, top: 12, bottom: 12, axis: 110 };
+
+/**
+ * Vertical scale of datum heights, with flood levels on the right
+ *
+ * Labels closer together than the font height are nudged apart so every
+ * rung stays readable.
+ */
+const DatumLadder: React.FC<{ datums: Rung[]; levels: Rung[]; units: LengthUnit }> = ({ datums, levels, units }) => {
+  const all = [...datums, ...levels];
+  if (all.length < 2) return null;
+  const max = Math.max(...all.map(r => r.value));
+  const min = Math.min(...all.map(r => r.value));
+  const span = max - min || 1;
+  const y = (v: number) => LADDER.top + (max - v) / span * (LADDER.height - LADDER.top - LADDER.bottom);
+
+  const spread = (rungs: Rung[]) => {
+    const placed: { rung: Rung; y: number; labelY: number }[] = [];
+    for (const rung of [...rungs].sort((a, b) => b.value - a.value)) {
+      const previous = placed[placed.length - 1];
+      const labelY = previous ? Math.max(y(rung.value), previous.labelY + 12) : y(rung.value);
+      placed.push({ rung, y: y(rung.value), labelY });
+    }
+    return placed;
+  };
+
+  return (
+    <svg className="datum-ladder" viewBox={`0 0 ${LADDER.width} ${LADDER.height + 24}`} role="img" aria-label="Datum ladder">
+      <line x1={LADDER.axis} x2={LADDER.axis} y1={LADDER.top} y2={LADDER.height - LADDER.bottom} className="datum-ladder-axis" />
+      {spread(datums).map(({ rung, y: ry, labelY }) => (
+        <g key={rung.label}>
+          <line x1={LADDER.axis - 8} x2={LADDER.axis} y1={ry} y2={ry} className="datum-ladder-tick" />
+          <text x={LADDER.axis - 12} y={labelY + 4} textAnchor="end" className="datum-ladder-label">
+            {rung.label} {formatLength(rung.value, units, { signed: true })}
+          </text>
+        </g>
+      ))}
+      {spread(levels).map(({ rung, y: ry, labelY }) => (
+        <g key={rung.label}>
+          <line x1={LADDER.axis} x2={LADDER.axis + 8} y1={ry} y2={ry} stroke={rung.color} strokeWidth={2} />
+          <text x={LADDER.axis + 12} y={labelY + 4} style={{ fill: rung.color }} className="datum-ladder-label datum-ladder-level">
+            {rung.label} {formatLength(rung.value, units, { signed: true })}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+/**
+ * Re-reference an STND height (feet) to the display datum and unit
+ */
+function displayHeight(value: number, reference: string, datums: StationDatums, units: LengthUnit): number | null {
+  const relative = convertDatum(value, 'STND', reference, datums);
+  return relative === null ? null : convertLength(relative, 'ft', units);
+}
+
+/**
+ * Format a metadata date (YYYY-MM-DD) for display
+ */
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * Describe how long ago something happened
+ */
+function formatAge(t: Date): string {
+  const minutes = Math.round((Date.now() - t.getTime()) / 60_000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours} h ago` : `${Math.round(hours / 24)} days ago`;
+}
+
+/**
+ * Station detail sheet
+ *
+ * Shows NOAA's metadata for a station: location, service dates, products and
+ * sensors, tidal datums with a datum ladder, official flood levels and the
+ * time of the latest observation. Metadata is cached with the station list;
+ * the latest observation is always fetched fresh.
+ *
+ * @param props StationDetailSheetProps
+ * @returns JSX.Element
+ */
+export const StationDetailSheet: React.FC<StationDetailSheetProps> = ({
+  isOpen,
+  onDismiss,
+  stationId,
+  datum,
+  units,
+  timezone,
+}) => {
+  const { detail, loadDetail } = useStationSearch(stationId);
+  const { data, latestObservation, loading, error } = detail;
+
+  useEffect(() => {
+    if (isOpen) loadDetail(stationId, datum);
+  }, [isOpen, stationId, datum, loadDetail]);
+
+  const datums = data?.datums ?? {};
+  const reference = datum in datums ? datum : 'STND';
+  const elevations = Object.entries(datums)
+    .filter(([name]) => !(name in TIDE_RANGES) && !INTERVALS.includes(name))
+    .flatMap(([name, value]) => {
+      const height = displayHeight(value, reference, datums, units);
+      return height === null ? [] : [{ label: name, value: height }];
+    })
+    .sort((a, b) => b.value - a.value);
+  const ranges = Object.entries(datums).filter(([name]) => name in TIDE_RANGES);
+  const floodLevels = (data?.floodLevels ?? []).flatMap((level: FloodLevel) => {
+    const height = displayHeight(level.value, reference, datums, units);
+    return height === null ? [] : [{
+      label: `${level.source} ${TIER_LABELS[level.severity].toLowerCase()}`,
+      value: height,
+      color: TIER_COLORS[level.severity],
+    }];
+  });
+
+  const station = data?.station;
+  const info = data?.details;
+
+  return (
+    <IonModal
+      isOpen={isOpen}
+      onDidDismiss={onDismiss}
+      initialBreakpoint={0.75}
+      breakpoints={[0, 0.75, 1]}
+      className="station-detail-sheet"
+    >
+      <IonHeader>
+        <IonToolbar>
+          <IonTitle>{station?.name || stationId}</IonTitle>
+          <IonButtons slot="end">
+            <IonButton onClick={onDismiss}>Close</IonButton>
+          </IonButtons>
+        </IonToolbar>
+      </IonHeader>
+
+      <IonContent className="station-detail-content">
+        {loading && !data && (
+          <div className="station-loading">
+            <IonSpinner name="crescent" />
+            <IonNote>Loading station details...</IonNote>
+          </div>
+        )}
+
+        {error && (
+          <IonItem lines="none">
+            <IonNote color="danger">{error}</IonNote>
+            <IonButton slot="end" fill="clear" onClick={() => loadDetail(stationId, datum)}>
+              Retry
+            </IonButton>
+          </IonItem>
+        )}
+
+        {data && (
+          <>
+            <IonList>
+              <IonListHeader>
+                <IonLabel>Station</IonLabel>
+              </IonListHeader>
+              <IonItem>
+                <IonLabel>
+                  <h3>{station?.name || 'Unnamed station'} ({stationId})</h3>
+                  <p>
+                    {station?.state ? `${STATE_NAMES[station.state] ?? station.state} · ` : ''}
+                    {station?.lat !== undefined && station?.lon !== undefined
+                      ? `${Math.abs(station.lat).toFixed(4)}°${station.lat >= 0 ? 'N' : 'S'}, ${Math.abs(station.lon).toFixed(4)}°${station.lon >= 0 ? 'E' : 'W'}`
+                      : 'Location unknown'}
+                  </p>
+                </IonLabel>
+              </IonItem>
+              <IonItem>
+                <IonLabel>Established</IonLabel>
+                <IonNote slot="end">{info?.established ? formatDate(info.established) : 'Unknown'}</IonNote>
+              </IonItem>
+              <IonItem>
+                <IonLabel>Status</IonLabel>
+                <IonNote slot="end" color={info?.removed ? 'warning' : undefined}>
+                  {info?.removed ? `Removed ${formatDate(info.removed)}` : 'Active'}
+                </IonNote>
+              </IonItem>
+              {info?.tideType && (
+                <IonItem>
+                  <IonLabel>Tide type</IonLabel>
+                  <IonNote slot="end">{info.tideType}</IonNote>
+                </IonItem>
+              )}
+              <IonItem>
+                <IonLabel>Latest observation</IonLabel>
+                <IonNote slot="end">
+                  {latestObservation
+                    ? `${formatLength(convertLength(latestObservation.v, 'ft', units), units)} ${datum} · ${formatTooltipTime(latestObservation.t, timezone)} (${formatAge(latestObservation.t)})`
+                    : loading ? 'Checking...' : 'None available'}
+                </IonNote>
+              </IonItem>
+            </IonList>
+
+            {info && info.products.length > 0 && (
+              <IonList>
+                <IonListHeader>
+                  <IonLabel>Products</IonLabel>
+                </IonListHeader>
+                <div className="station-detail-chips">
+                  {info.products.map(product => (
+                    <IonChip key={product} outline>{product}</IonChip>
+                  ))}
+                </div>
+              </IonList>
+            )}
+
+            {info && info.sensors.length > 0 && (
+              <IonList>
+                <IonListHeader>
+                  <IonLabel>Sensors</IonLabel>
+                </IonListHeader>
+                {info.sensors.map(sensor => (
+                  <IonItem key={`${sensor.id}-${sensor.name}`}>
+                    <IonLabel>
+                      {sensor.name}
+                      {sensor.id && <p>{sensor.id}</p>}
+                    </IonLabel>
+                    <IonNote slot="end" color={sensor.active ? 'success' : 'medium'}>
+                      {sensor.active ? 'Active' : 'Inactive'}
+                    </IonNote>
+                  </IonItem>
+                ))}
+              </IonList>
+            )}
+
+            <IonList>
+              <IonListHeader>
+                <IonLabel>Tidal Datums</IonLabel>
+              </IonListHeader>
+              {elevations.length <= 1 ? (
+                <IonItem lines="none">
+                  <IonNote color="medium">NOAA publishes no tidal datums for this station</IonNote>
+                </IonItem>
+              ) : (
+                <>
+                  <IonItem lines="none">
+                    <IonNote color="medium">
+                      Heights above {reference}{reference !== datum ? ` (${datum} is not published for this station)` : ''}
+                    </IonNote>
+                  </IonItem>
+                  <DatumLadder datums={elevations} levels={floodLevels} units={units} />
+                  {elevations.map(({ label, value }) => (
+                    <IonItem key={label}>
+                      <IonLabel>
+                        {label}
+                        {DATUM_NAMES[label] && <p>{DATUM_NAMES[label]}</p>}
+                      </IonLabel>
+                      <IonNote slot="end">{formatLength(value, units, { signed: true })}</IonNote>
+                    </IonItem>
+                  ))}
+                  {ranges.map(([name, value]) => (
+                    <IonItem key={name}>
+                      <IonLabel>
+                        {name}
+                        <p>{TIDE_RANGES[name]}</p>
+                      </IonLabel>
+                      <IonNote slot="end">{formatLength(convertLength(value, 'ft', units), units)}</IonNote>
+                    </IonItem>
+                  ))}
+                </>
+              )}
+            </IonList>
+
+            <IonList>
+              <IonListHeader>
+                <IonLabel>Flood Levels</IonLabel>
+              </IonListHeader>
+              {floodLevels.length === 0 ? (
+                <IonItem lines="none">
+                  <IonNote color="medium">No official flood levels for this station</IonNote>
+                </IonItem>
+              ) : floodLevels.map(level => (
+                <IonItem key={level.label}>
+                  <IonLabel style={{ color: level.color }}>{level.label}</IonLabel>
+                  <IonNote slot="end">{formatLength(level.value, units, { signed: true })} {reference}</IonNote>
+                </IonItem>
+              ))}
+            </IonList>
+          </>
+        )}
+      </IonContent>
+    </IonModal>
+  );
+};
+
+export default StationDetailSheet;
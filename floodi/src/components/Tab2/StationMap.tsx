@@ -0,0 +1,396 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { IonButton, IonIcon, IonNote, IonSpinner } from '@ionic/react';
+import { add, remove, locateOutline } from 'ionicons/icons';
+import { clusterByGrid, projectLonLat, ringsToPath } from '../../lib/stationMap';
+import type { MapPoint } from '../../lib/stationMap';
+import type { Station } from './types';
+
+/**
+ * Props for the StationMap component
+ */
+interface StationMapProps {
+  /** Stations to plot; those without coordinates are skipped */
+  stations: Station[];
+  /** Currently selected station ID, highlighted and centered initially */
+  selectedStationId: string;
+  /** Favourite station IDs, highlighted and never clustered */
+  favoriteStationIds?: string[];
+  /** Callback when a station marker is tapped */
+  onStationSelect: (station: Station) => void;
+  /** Whether the station list is still loading */
+  loading?: boolean;
+}
+
+/** Map view: center in map units and pixels per map unit */
+interface MapView {
+  cx: number;
+  cy: number;
+  zoom: number;
+}
+
+/** A marker in screen pixels */
+interface Marker {
+  x: number;
+  y: number;
+  r: number;
+  kind: 'station' | 'cluster' | 'favorite' | 'selected';
+  stations: Station[];
+}
+
+/** Cluster cell edge in pixels */
+const CLUSTER_CELL_PX = 32;
+
+/** Pointer travel below which a press counts as a tap */
+const TAP_SLOP_PX = 6;
+
+/** Zoom limits in pixels per degree */
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4000;
+
+/** Initial span in degrees around the selected station, and of the fallback view */
+const STATION_SPAN_DEG = 12;
+const OVERVIEW = { lon: -96, lat: 38, span: 60 };
+
+const SELECTED_COLOR = '#e74c3c';
+const FAVORITE_COLOR = '#f1c40f';
+const STATION_COLOR = '#3880ff';
+
+/**
+ * Five-pointed star path centered on the origin
+ * @param r Outer radius
+ * @returns SVG path data
+ */
+function starPath(r: number): string {
+  const points: string[] = [];
+  for (let i = 0; i < 10; i++) {
+    const radius = i % 2 === 0 ? r : r * 0.45;
+    const angle = (Math.PI / 5) * i - Math.PI / 2;
+    points.push(`${(radius * Math.cos(angle)).toFixed(2)},${(radius * Math.sin(angle)).toFixed(2)}`);
+  }
+  return `M${points.join('L')}Z`;
+}
+
+/**
+ * Interactive map of stations on a bundled coastline
+ *
+ * Plots every station from its coordinates with grid clustering, pan (drag),
+ * zoom (wheel, pinch or buttons) and tap-to-select. The simplified Natural
+ * Earth coastline ships with the app and is loaded on first use, so the map
+ * works offline without a tile server. The selected station and favourites
+ * are drawn on top and never merged into clusters.
+ *
+ * @param props StationMapProps
+ * @returns JSX.Element
+ */
+export const StationMap: React.FC<StationMapProps> = ({
+  stations,
+  selectedStationId,
+  favoriteStationIds = [],
+  onStationSelect,
+  loading = false,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [size, setSize] = useState({ w: 360, h: 360 });
+  const [coastline, setCoastline] = useState<string | null>(null);
+  const [hovered, setHovered] = useState<Station | null>(null);
+  const [view, setView] = useState<MapView | null>(null);
+
+  // Active pointers and the press that started a gesture
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const travelRef = useRef(0);
+
+  // Track the container size like the chart
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const resizeObserver = new ResizeObserver(entries => {
+      for (const entry of entries) {
+        setSize({
+          w: Math.max(240, Math.floor(entry.contentRect.width)),
+          h: Math.max(240, Math.floor(entry.contentRect.height)),
+        });
+      }
+    });
+
+    resizeObserver.observe(container);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  // The coastline is a separate chunk, loaded when the map is first shown
+  useEffect(() => {
+    let cancelled = false;
+    import('../../assets/coastline.json').then(module => {
+      if (!cancelled) setCoastline(ringsToPath(module.default as number[][]));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Stations with coordinates in map units
+  const projected = useMemo(() => stations.flatMap(station => (
+    typeof station.lat === 'number' && typeof station.lon === 'number'
+      ? [{ station, ...projectLonLat(station.lon, station.lat) }]
+      : []
+  )), [stations]);
+
+  const selected = projected.find(p => p.station.id === selectedStationId) ?? null;
+
+  /**
+   * View centered on the selected station, or on the contiguous US
+   */
+  const homeView = (): MapView => {
+    if (selected) return { cx: selected.x, cy: selected.y, zoom: size.w / STATION_SPAN_DEG };
+    const center = projectLonLat(OVERVIEW.lon, OVERVIEW.lat);
+    return { cx: center.x, cy: center.y, zoom: size.w / OVERVIEW.span };
+  };
+
+  const current = view ?? homeView();
+  const { cx, cy, zoom } = current;
+  const toScreen = (p: MapPoint) => ({ x: (p.x - cx) * zoom + size.w / 2, y: (cy - p.y) * zoom + size.h / 2 });
+
+  /**
+   * Zoom by a factor, keeping the map point under (px, py) in place
+   */
+  const zoomAt = (factor: number, px: number, py: number) => {
+    setView(prev => {
+      const v = prev ?? current;
+      const mx = v.cx + (px - size.w / 2) / v.zoom;
+      const my = v.cy - (py - size.h / 2) / v.zoom;
+      const nextZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, v.zoom * factor));
+      return { cx: mx - (px - size.w / 2) / nextZoom, cy: my + (py - size.h / 2) / nextZoom, zoom: nextZoom };
+    });
+  };
+
+  // Markers in screen space: clusters of ordinary stations, then favourites and the selection on top
+  const favorites = new Set(favoriteStationIds);
+  const margin = CLUSTER_CELL_PX;
+  const onScreen = projected
+    .map(p => ({ ...toScreen(p), item: p.station }))
+    .filter(p => p.x > -margin && p.x < size.w + margin && p.y > -margin && p.y < size.h + margin);
+
+  const markers: Marker[] = [
+    ...clusterByGrid(onScreen.filter(p => p.item.id !== selectedStationId && !favorites.has(p.item.id)), CLUSTER_CELL_PX)
+      .map((cluster): Marker => cluster.items.length === 1
+        ? { x: cluster.x, y: cluster.y, r: 5, kind: 'station', stations: cluster.items }
+        : { x: cluster.x, y: cluster.y, r: 9 + 2 * Math.log2(cluster.items.length), kind: 'cluster', stations: cluster.items }),
+    ...onScreen
+      .filter(p => p.item.id !== selectedStationId && favorites.has(p.item.id))
+      .map((p): Marker => ({ x: p.x, y: p.y, r: 8, kind: 'favorite', stations: [p.item] })),
+    ...onScreen
+      .filter(p => p.item.id === selectedStationId)
+      .map((p): Marker => ({ x: p.x, y: p.y, r: 8, kind: 'selected', stations: [p.item] })),
+  ];
+
+  /**
+   * Topmost marker under a screen position
+   */
+  const markerAt = (x: number, y: number): Marker | null => {
+    for (let i = markers.length - 1; i >= 0; i--) {
+      const marker = markers[i];
+      if (Math.hypot(marker.x - x, marker.y - y) <= marker.r + TAP_SLOP_PX) return marker;
+    }
+    return null;
+  };
+
+  /**
+   * Position of a pointer event in SVG pixels
+   */
+  const localPoint = (event: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointersRef.current.set(event.pointerId, localPoint(event));
+    if (pointersRef.current.size === 1) travelRef.current = 0;
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const point = localPoint(event);
+    const pointers = pointersRef.current;
+    const last = pointers.get(event.pointerId);
+
+    if (!last) {
+      // Hover (mouse only): name the station under the cursor
+      const marker = markerAt(point.x, point.y);
+      setHovered(marker && marker.stations.length === 1 ? marker.stations[0] : null);
+      return;
+    }
+
+    if (pointers.size === 1) {
+      // Drag to pan
+      const dx = point.x - last.x;
+      const dy = point.y - last.y;
+      travelRef.current += Math.hypot(dx, dy);
+      setView(prev => {
+        const v = prev ?? current;
+        return { ...v, cx: v.cx - dx / v.zoom, cy: v.cy + dy / v.zoom };
+      });
+    } else if (pointers.size === 2) {
+      // Pinch to zoom around the midpoint
+      const [other] = [...pointers.entries()].filter(([id]) => id !== event.pointerId).map(([, p]) => p);
+      const before = Math.hypot(last.x - other.x, last.y - other.y);
+      const after = Math.hypot(point.x - other.x, point.y - other.y);
+      travelRef.current += TAP_SLOP_PX;
+      if (before > 0) zoomAt(after / before, (point.x + other.x) / 2, (point.y + other.y) / 2);
+    }
+    pointers.set(event.pointerId, point);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    const pointers = pointersRef.current;
+    const wasTap = pointers.size === 1 && travelRef.current < TAP_SLOP_PX;
+    pointers.delete(event.pointerId);
+    if (!wasTap) return;
+
+    const point = localPoint(event);
+    const marker = markerAt(point.x, point.y);
+    if (!marker) return;
+    if (marker.kind === 'cluster') {
+      // Zoom into the cluster
+      zoomAt(3, marker.x, marker.y);
+    } else {
+      onStationSelect(marker.stations[0]);
+    }
+  };
+
+  const handlePointerCancel = (event: React.PointerEvent<SVGSVGElement>) => {
+    pointersRef.current.delete(event.pointerId);
+  };
+
+  // Wheel zoom; a native listener so the page doesn't scroll underneath
+  const zoomAtRef = useRef(zoomAt);
+  useEffect(() => {
+    zoomAtRef.current = zoomAt;
+  });
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      zoomAtRef.current(Math.exp(-event.deltaY * 0.002), event.clientX - rect.left, event.clientY - rect.top);
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const selectedLabel = markers.find(m => m.kind === 'selected');
+
+  return (
+    <div className="station-map" ref={containerRef}>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${size.w} ${size.h}`}
+        width={size.w}
+        height={size.h}
+        role="img"
+        aria-label="Map of NOAA water level stations"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+        onPointerLeave={() => setHovered(null)}
+        style={{ touchAction: 'none', cursor: hovered ? 'pointer' : 'grab' }}
+      >
+        <rect x={0} y={0} width={size.w} height={size.h} className="station-map-water" />
+
+        {coastline && (
+          <g transform={`translate(${size.w / 2 - cx * zoom}, ${size.h / 2 + cy * zoom}) scale(${zoom})`}>
+            <path d={coastline} className="station-map-land" vectorEffect="non-scaling-stroke" />
+          </g>
+        )}
+
+        {markers.map((marker, i) => {
+          switch (marker.kind) {
+            case 'cluster':
+              return (
+                <g key={`c-${i}`} transform={`translate(${marker.x}, ${marker.y})`}>
+                  <circle r={marker.r} fill={STATION_COLOR} fillOpacity={0.75} stroke="#fff" strokeWidth={1.5} />
+                  <text y={4} textAnchor="middle" fontSize="11" fill="#fff">{marker.stations.length}</text>
+                </g>
+              );
+            case 'favorite':
+              return (
+                <path
+                  key={`f-${marker.stations[0].id}`}
+                  d={starPath(marker.r)}
+                  transform={`translate(${marker.x}, ${marker.y})`}
+                  fill={FAVORITE_COLOR}
+                  stroke="#7f6000"
+                  strokeWidth={1}
+                />
+              );
+            case 'selected':
+              return (
+                <circle
+                  key="selected"
+                  cx={marker.x}
+                  cy={marker.y}
+                  r={marker.r}
+                  fill={SELECTED_COLOR}
+                  stroke="#fff"
+                  strokeWidth={2.5}
+                />
+              );
+            default:
+              return (
+                <circle
+                  key={`s-${marker.stations[0].id}`}
+                  cx={marker.x}
+                  cy={marker.y}
+                  r={marker.r}
+                  fill={STATION_COLOR}
+                  stroke="#fff"
+                  strokeWidth={1}
+                />
+              );
+          }
+        })}
+
+        {selectedLabel && (
+          <text x={selectedLabel.x + 12} y={selectedLabel.y + 4} fontSize="12" className="station-map-label">
+            {selectedLabel.stations[0].name}
+          </text>
+        )}
+
+        <text x={6} y={14} fontSize="10" className="station-map-attribution">
+          Coastline: Natural Earth
+        </text>
+      </svg>
+
+      <div className="station-map-controls">
+        <IonButton size="small" fill="solid" color="light" onClick={() => zoomAt(2, size.w / 2, size.h / 2)} title="Zoom in">
+          <IonIcon icon={add} />
+        </IonButton>
+        <IonButton size="small" fill="solid" color="light" onClick={() => zoomAt(0.5, size.w / 2, size.h / 2)} title="Zoom out">
+          <IonIcon icon={remove} />
+        </IonButton>
+        <IonButton size="small" fill="solid" color="light" onClick={() => setView(homeView())} title="Back to the selected station">
+          <IonIcon icon={locateOutline} />
+        </IonButton>
+      </div>
+
+      <div className="station-map-status">
+        {loading ? (
+          <>
+            <IonSpinner name="dots" />
+            <IonNote>Loading stations...</IonNote>
+          </>
+        ) : (
+          <IonNote color="medium">
+            {hovered
+              ? `${hovered.name} (${hovered.id})${hovered.state ? `, ${hovered.state}` : ''}`
+              : `${projected.length} stations • drag to pan, pinch or scroll to zoom, tap a station to select it`}
+          </IonNote>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StationMap;
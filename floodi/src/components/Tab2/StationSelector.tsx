@@ -12,9 +12,24 @@ import {
   IonContent,
   IonListHeader,
   IonIcon,
+  IonSegment,
+  IonSegmentButton,
+  IonModal,
+  IonHeader,
+  IonToolbar,
+  IonTitle,
+  IonSelect,
+  IonSelectOption,
+  IonCheckbox,
 } from '@ionic/react';
-import { navigateOutline, refresh } from 'ionicons/icons';
+import { informationCircleOutline, locateOutline, mapOutline, navigateOutline, refresh, star, starOutline } from 'ionicons/icons';
 import { useStationSearch } from './hooks/useStationSearch';
+import { StationMap } from './StationMap';
+import { StationDetailSheet } from './StationDetailSheet';
+import { compassPoint, formatDistance } from '../../lib/geo';
+import { STATE_NAMES } from '../../lib/stationSearch';
+import type { Datum } from '../../lib/noaa';
+import type { LengthUnit } from '../../lib/units';
 import type { Station } from './types';
 
 /**
@@ -29,8 +44,37 @@ interface StationSelectorProps {
   error?: string | null;
   /** Optional success message to display */
   successMessage?: string | null;
+  /** Height unit; feet shows distances in miles, otherwise kilometers */
+  units?: LengthUnit;
+  /** IDs of starred stations */
+  favoriteStationIds?: string[];
+  /** Callback to star or unstar a station */
+  onToggleFavorite?: (stationId: string) => void;
+  /** Datum the station details show heights relative to */
+  datum?: Datum;
+  /** Time zone setting for the station details */
+  timezone?: 'local' | 'gmt';
 }
 
+/**
+ * Text with the given character ranges emphasised
+ */
+const Highlighted: React.FC<{ text: string; ranges?: [number, number][] }> = ({ text, ranges = [] }) => {
+  if (ranges.length === 0) return <>{text}</>;
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const [start, end] of sorted) {
+    if (end <= cursor) continue;
+    const from = Math.max(start, cursor);
+    if (from > cursor) parts.push(text.slice(cursor, from));
+    parts.push(<mark key={from} className="station-match">{text.slice(from, end)}</mark>);
+    cursor = end;
+  }
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
 /**
  * Professional station selector component with search functionality
  * 
@@ -45,11 +89,19 @@ export const StationSelector: React.FC<StationSelectorProps> = ({
   onStationChange,
   error,
   successMessage,
+  units = 'ft',
+  favoriteStationIds = [],
+  onToggleFavorite,
+  datum = 'MLLW',
+  timezone = 'local',
 }) => {
   const [popoverOpen, setPopoverOpen] = useState(false);
+  const [mapOpen, setMapOpen] = useState(false);
+  const [detailOpen, setDetailOpen] = useState(false);
   const [searchbarRef, setSearchbarRef] = useState<HTMLIonSearchbarElement | null>(null);
 
   const {
+    allStations,
     searchResults,
     loading,
     error: searchError,
@@ -60,6 +112,14 @@ export const StationSelector: React.FC<StationSelectorProps> = ({
     setSelectedIndex,
     getStationDisplayName,
     loadStations,
+    mode,
+    locating,
+    locationError,
+    showNearby,
+    showSearch,
+    filters,
+    setFilters,
+    availableStates,
   } = useStationSearch(selectedStationId);
 
   /**
@@ -79,6 +139,33 @@ export const StationSelector: React.FC<StationSelectorProps> = ({
     setSearchQuery(query);
   };
 
+  /**
+   * Select a station on the map
+   */
+  const handleMapSelect = (station: Station) => {
+    onStationChange(station);
+    setMapOpen(false);
+  };
+
+  /**
+   * Open the map and ensure stations are loaded
+   */
+  const handleMapOpen = () => {
+    setMapOpen(true);
+    loadStations();
+  };
+
+  /**
+   * Switch between text search and stations near the device
+   */
+  const handleModeChange = (event: CustomEvent) => {
+    if (event.detail.value === 'nearby') {
+      showNearby();
+    } else {
+      showSearch();
+    }
+  };
+
   /**
    * Handle keyboard navigation in search results
    */
@@ -153,6 +240,24 @@ export const StationSelector: React.FC<StationSelectorProps> = ({
           </IonButton>
           
           <IonButtons>
+            <IonButton
+              onClick={() => setDetailOpen(true)}
+              color="medium"
+              fill="clear"
+              title="Station details"
+              aria-label="Station details"
+            >
+              <IonIcon icon={informationCircleOutline} slot="icon-only" />
+            </IonButton>
+            <IonButton
+              onClick={handleMapOpen}
+              color="medium"
+              fill="clear"
+              title="Pick a station on the map"
+            >
+              <IonIcon icon={mapOutline} slot="start" />
+              Map
+            </IonButton>
             <IonButton
               onClick={handleReset}
               color="medium"
@@ -200,6 +305,50 @@ export const StationSelector: React.FC<StationSelectorProps> = ({
               className="station-searchbar"
             />
 
+            <IonSegment value={mode} onIonChange={handleModeChange} className="station-search-mode">
+              <IonSegmentButton value="search">
+                <IonLabel>All stations</IonLabel>
+              </IonSegmentButton>
+              <IonSegmentButton value="nearby" layout="icon-start">
+                <IonIcon icon={locateOutline} />
+                <IonLabel>Near me</IonLabel>
+              </IonSegmentButton>
+            </IonSegment>
+
+            <div className="station-search-filters">
+              <IonSelect
+                label="State"
+                interface="popover"
+                value={filters.state ?? ''}
+                onIonChange={(e) => setFilters({ state: e.detail.value || null })}
+              >
+                <IonSelectOption value="">All states</IonSelectOption>
+                {availableStates.map(state => (
+                  <IonSelectOption key={state} value={state}>{STATE_NAMES[state] ?? state}</IonSelectOption>
+                ))}
+              </IonSelect>
+              <IonCheckbox
+                labelPlacement="end"
+                checked={!!filters.hasPredictions}
+                onIonChange={(e) => setFilters({ hasPredictions: e.detail.checked })}
+              >
+                With predictions
+              </IonCheckbox>
+            </div>
+
+            {locating && (
+              <div className="station-loading">
+                <IonSpinner name="crescent" />
+                <IonNote>Finding your location...</IonNote>
+              </div>
+            )}
+
+            {locationError && !locating && (
+              <IonItem lines="none">
+                <IonNote color="warning">{locationError}</IonNote>
+              </IonItem>
+            )}
+
             {loading && (
               <div className="station-loading">
                 <IonSpinner name="crescent" />
@@ -221,7 +370,7 @@ export const StationSelector: React.FC<StationSelectorProps> = ({
               </IonItem>
             )}
 
-            {!loading && !searchError && (
+            {!loading && !locating && !searchError && (
               <IonList>
                 {searchResults.length === 0 ? (
                   <IonItem>
@@ -236,17 +385,35 @@ export const StationSelector: React.FC<StationSelectorProps> = ({
                       className={selectedStation?.id === station.id ? 'selected-station' : ''}
                     >
                       <IonLabel>
-                        <h3>{station.name}</h3>
+                        <h3><Highlighted text={station.name} ranges={station.highlights?.name} /></h3>
                         <p>
-                          ID: {station.id}
+                          ID: <Highlighted text={station.id} ranges={station.highlights?.id} />
                           {station.state && ` • ${station.state}`}
-                          {station.lat && station.lon && (
+                          {station.distanceKm !== undefined && station.bearingDeg !== undefined ? (
+                            <span className="station-distance">
+                              {` • ${formatDistance(station.distanceKm, units)} ${compassPoint(station.bearingDeg)}`}
+                            </span>
+                          ) : station.lat && station.lon && (
                             <span className="station-coordinates">
                               {` • ${station.lat.toFixed(4)}, ${station.lon.toFixed(4)}`}
                             </span>
                           )}
                         </p>
                       </IonLabel>
+                      {onToggleFavorite && (
+                        <IonButton
+                          slot="end"
+                          fill="clear"
+                          color={favoriteStationIds.includes(station.id) ? 'warning' : 'medium'}
+                          title={favoriteStationIds.includes(station.id) ? 'Remove from favourites' : 'Add to favourites'}
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            onToggleFavorite(station.id);
+                          }}
+                        >
+                          <IonIcon icon={favoriteStationIds.includes(station.id) ? star : starOutline} />
+                        </IonButton>
+                      )}
                     </IonItem>
                   ))
                 )}
@@ -255,6 +422,45 @@ export const StationSelector: React.FC<StationSelectorProps> = ({
           </div>
         </IonContent>
       </IonPopover>
+
+      {/* Map picker */}
+      <IonModal isOpen={mapOpen} onDidDismiss={() => setMapOpen(false)} className="station-map-modal">
+        <IonHeader>
+          <IonToolbar>
+            <IonTitle>Choose a Station</IonTitle>
+            <IonButtons slot="end">
+              <IonButton onClick={() => setMapOpen(false)}>Close</IonButton>
+            </IonButtons>
+          </IonToolbar>
+        </IonHeader>
+        <IonContent scrollY={false}>
+          {searchError ? (
+            <IonItem lines="none">
+              <IonNote color="danger">{searchError}</IonNote>
+              <IonButton slot="end" fill="clear" onClick={loadStations} title="Retry loading stations">
+                <IonIcon icon={refresh} />
+              </IonButton>
+            </IonItem>
+          ) : (
+            <StationMap
+              stations={allStations}
+              selectedStationId={selectedStationId}
+              favoriteStationIds={favoriteStationIds}
+              onStationSelect={handleMapSelect}
+              loading={loading}
+            />
+          )}
+        </IonContent>
+      </IonModal>
+
+      <StationDetailSheet
+        isOpen={detailOpen}
+        onDismiss={() => setDetailOpen(false)}
+        stationId={selectedStationId}
+        datum={datum}
+        units={units}
+        timezone={timezone}
+      />
     </IonList>
   );
 };
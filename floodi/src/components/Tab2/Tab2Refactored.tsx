@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import {
   IonContent,
   IonHeader,
@@ -16,14 +16,34 @@ import {
   IonButton,
   IonIcon,
 } from '@ionic/react';
-import { settingsOutline } from 'ionicons/icons';
+import { informationCircleOutline, settingsOutline } from 'ionicons/icons';
 import './styles/Tab2.css';
 import { ChartViewer } from './ChartViewer';
 import { SettingsModal } from './SettingsModal';
+import { LocationSwitcher } from './LocationSwitcher';
+import { StationDetailSheet } from './StationDetailSheet';
+import { FloodEventList } from './FloodEventList';
+import { MeteoPanels } from './MeteoPanels';
+import { PlanningOutlook } from './PlanningOutlook';
 import { useSettingsStorage } from './hooks/useSettingsStorage';
+import { useSurgeGuidance } from './hooks/useSurgeGuidance';
 import { useChartData } from './hooks/useChartData';
+import { useFloodLevels } from './hooks/useFloodLevels';
+import { usePlanningScenario } from './hooks/usePlanningScenario';
+import { useNearestStation } from './hooks/useNearestStation';
+import { TIER_COLORS, TIER_LABELS, tiersFromConfig } from './floodTiers';
 import { formatTooltipTime } from './hooks/useChartInteraction';
-import type { Station } from './types';
+import { SERIES_LABELS, describeLoadError, describeSeriesErrors, formatDataAge } from './loadStatus';
+import { convertDatum, fetchStationDatums } from '../../lib/noaa';
+import type { Datum } from '../../lib/noaa';
+import { formatProbability } from '../../lib/uncertainty';
+import { formatDistance } from '../../lib/geo';
+import { slrScenario } from '../../lib/slr';
+import { formatLength, noaaUnitsFor, responseScale, roundLength } from '../../lib/units';
+import type { SeriesName, Station } from './types';
+
+/** Smallest exceedance chance worth an outlook card when no crossing is forecast */
+const OUTLOOK_MIN_PROBABILITY = 0.1;
 
 /**
  * Professional FloodCast Tab2 Component
@@ -47,6 +67,9 @@ import type { Station } from './types';
 export const Tab2Refactored: React.FC = () => {
   // Settings modal state
   const [showSettings, setShowSettings] = useState(false);
+
+  // Station detail sheet state
+  const [showStationDetail, setShowStationDetail] = useState(false);
   
   // User feedback messages
   const [messages, setMessages] = useState<{
@@ -57,34 +80,150 @@ export const Tab2Refactored: React.FC = () => {
   // Professional configuration management
   const {
     config,
+    favoriteStations,
+    savedLocations,
+    activeLocationId,
+    recentStations,
+    firstLaunch,
     updateStation,
+    toggleFavoriteStation,
+    saveLocation,
+    updateSavedLocation,
+    removeSavedLocation,
+    applySavedLocation,
     updateThreshold,
+    updateTiers,
+    updateDatum,
+    updateUnits,
     updateOffset,
+    updateUncertainty,
+    updateGuidance,
+    updateMeteo,
+    updatePlanning,
     updateTimeRange,
     updateDisplay,
   } = useSettingsStorage();
 
+  // Latest datum switch; earlier ones still awaiting station datums are dropped
+  const datumRequestRef = useRef(0);
+
+  // Official flood levels of the selected station, offered as threshold presets
+  const floodLevels = useFloodLevels(config);
+
+  // Station picked in the selector whose minor flood level should be suggested
+  const [suggestFor, setSuggestFor] = useState<string | null>(null);
+  const suggestedLevel = suggestFor === floodLevels.stationId
+    && !floodLevels.loading
+    && floodLevels.suggested
+    && floodLevels.suggested.threshold !== config.threshold
+    ? floodLevels.suggested
+    : null;
+
+  // External surge guidance from a URL or imported file
+  const surgeGuidance = useSurgeGuidance(config.guidance);
+
   // Professional data fetching and processing
   const {
     loading,
+    seriesLoading,
     error,
+    seriesErrors,
     data,
+    cache,
+    warning,
     processedData,
-    thresholdCrossing,
+    floodEvents,
+    tierCrossings,
     refresh,
-  } = useChartData(config);
+  } = useChartData(config, surgeGuidance.guidance);
+
+  // Series that failed while others loaded, noted beside the chart
+  const seriesErrorNotes = describeSeriesErrors(seriesErrors);
+
+  // Highest flood tier the forecast enters (crossings are ordered low to high)
+  const highestCrossing = tierCrossings.length > 0 ? tierCrossings[tierCrossings.length - 1] : null;
+  const exceedance = processedData?.exceedance ?? null;
+
+  // Sea level rise planning: target-year tides and threshold exceedance
+  const planning = usePlanningScenario(config, processedData.timeDomain);
+
+  const showOutlook = !!exceedance && (highestCrossing !== null || exceedance.probability >= OUTLOOK_MIN_PROBABILITY);
 
   /**
    * Handle station selection changes
    */
   const handleStationChange = (station: Station) => {
     updateStation(station);
+    setSuggestFor(station.id);
     setMessages({
       success: `Station updated to ${station.name} (${station.id})`,
       error: null,
     });
   };
 
+  /**
+   * Switch to a saved location's station and flood settings
+   */
+  const handleApplyLocation = (id: string) => {
+    const location = savedLocations.find(l => l.id === id);
+    if (!location) return;
+    applySavedLocation(id);
+    setSuggestFor(null);
+    setMessages({
+      success: `Switched to ${location.nickname}`,
+      error: null,
+    });
+  };
+
+  // On first launch, switch to the station closest to the device if location access is allowed
+  useNearestStation(firstLaunch, ({ id, name, state, lat, lon, distanceKm }) => {
+    handleStationChange({ id, name, state, lat, lon });
+    setMessages({
+      success: `Selected the nearest station, ${name} (${id})${distanceKm !== undefined ? `, ${formatDistance(distanceKm, config.units)} away` : ''}`,
+      error: null,
+    });
+  });
+
+  /**
+   * Handle vertical datum changes
+   *
+   * Re-references the thresholds through the station's datum offsets so they
+   * still describe the same physical water levels. The switch is refused when the
+   * station doesn't publish one of the two datums.
+   */
+  const handleDatumChange = async (datum: Datum) => {
+    if (datum === config.datum) return;
+    const request = ++datumRequestRef.current;
+
+    try {
+      const datums = await fetchStationDatums({ station: config.station.id, units: noaaUnitsFor(config.units) });
+      if (request !== datumRequestRef.current) return;
+
+      // Datum conversion is a constant shift: the old datum's height above the new one
+      const shift = convertDatum(0, config.datum, datum, datums);
+      if (shift === null) {
+        setMessages({
+          error: `Station ${config.station.id} has no ${datums[datum] === undefined ? datum : config.datum} datum`,
+          success: null,
+        });
+        return;
+      }
+
+      const scaledShift = shift * responseScale(config.units);
+      updateDatum(datum, scaledShift);
+      setMessages({
+        success: `Datum changed to ${datum}; threshold is now ${formatLength(roundLength(config.threshold + scaledShift, config.units), config.units)}`,
+        error: null,
+      });
+    } catch (err) {
+      if (request !== datumRequestRef.current) return;
+      setMessages({
+        error: `Could not load station datums: ${err instanceof Error ? err.message : String(err)}`,
+        success: null,
+      });
+    }
+  };
+
   /**
    * Clear user messages
    */
@@ -97,7 +236,7 @@ export const Tab2Refactored: React.FC = () => {
    */
   const handleRefresh = async (event: CustomEvent) => {
     try {
-      await refresh();
+      await Promise.all([refresh(), surgeGuidance.reload()]);
     } catch (error: any) {
       setMessages({
         error: error?.message || 'Failed to refresh data',
@@ -118,11 +257,18 @@ export const Tab2Refactored: React.FC = () => {
   /**
    * Memoized chart configuration
    */
+  const tiers = useMemo(
+    () => tiersFromConfig({ threshold: config.threshold, tiers: config.tiers }),
+    [config.threshold, config.tiers]
+  );
+
   const chartConfig = useMemo(() => ({
     threshold: config.threshold,
+    tiers,
     showDelta: config.display.showDelta,
     timezone: config.display.timezone,
-  }), [config.threshold, config.display.showDelta, config.display.timezone]);
+    units: config.units,
+  }), [config.threshold, tiers, config.display.showDelta, config.display.timezone, config.units]);
 
   return (
     <IonPage className="floodcast-page">
@@ -130,6 +276,21 @@ export const Tab2Refactored: React.FC = () => {
         <IonToolbar>
           <IonTitle>FloodCast</IonTitle>
           <IonButtons slot="end">
+            <LocationSwitcher
+              station={config.station}
+              savedLocations={savedLocations}
+              activeLocationId={activeLocationId}
+              recentStations={recentStations}
+              onApplyLocation={handleApplyLocation}
+              onStationChange={handleStationChange}
+              onManage={() => setShowSettings(true)}
+            />
+            <IonButton
+              aria-label="Station details"
+              onClick={() => setShowStationDetail(true)}
+            >
+              <IonIcon icon={informationCircleOutline} />
+            </IonButton>
             <IonButton 
               aria-label="Open settings" 
               onClick={() => setShowSettings(true)}
@@ -149,26 +310,51 @@ export const Tab2Refactored: React.FC = () => {
           />
         </IonRefresher>
 
-        {/* Loading state */}
-        {loading && (
+        {/* Loading state: full spinner until there is something to draw */}
+        {seriesLoading.observed && seriesLoading.predicted ? (
           <div className="loading-container">
             <IonSpinner name="crescent" />
             <IonLabel>Loading water level data...</IonLabel>
           </div>
+        ) : loading && (
+          <IonItem lines="none" className="series-loading">
+            <IonSpinner name="dots" slot="start" />
+            <IonNote color="medium">
+              Loading {(Object.keys(seriesLoading) as SeriesName[])
+                .filter(name => seriesLoading[name])
+                .map(name => SERIES_LABELS[name])
+                .join(', ')}...
+            </IonNote>
+          </IonItem>
         )}
 
         {/* Error state */}
-        {error && (
-          <IonItem color="danger" className="error-item">
-            <IonLabel>
-              <h2>Failed to load data</h2>
-              <p>{error}</p>
-            </IonLabel>
-            <IonButton 
-              slot="end" 
-              fill="clear" 
-              onClick={() => refresh()}
-            >
+        {error && (() => {
+          const { title, message, changeStation } = describeLoadError(error);
+          return (
+            <IonItem color="danger" className="error-item">
+              <IonLabel>
+                <h2>{title}</h2>
+                <p>{message}</p>
+              </IonLabel>
+              <IonButton 
+                slot="end" 
+                fill="clear" 
+                onClick={() => (changeStation ? setShowSettings(true) : refresh())}
+              >
+                {changeStation ? 'Change station' : 'Retry'}
+              </IonButton>
+            </IonItem>
+          );
+        })()}
+
+        {/* Series that failed while the rest of the chart loaded */}
+        {!error && seriesErrorNotes.length > 0 && (
+          <IonItem lines="none" className="series-errors">
+            <IonNote color="warning">
+              {seriesErrorNotes.map(line => <div key={line}>{line}</div>)}
+            </IonNote>
+            <IonButton slot="end" fill="clear" onClick={() => refresh()}>
               Retry
             </IonButton>
           </IonItem>
@@ -178,47 +364,156 @@ export const Tab2Refactored: React.FC = () => {
         {!error && processedData && (
           <ChartViewer
             observedPoints={processedData.observedPoints}
+            gaps={seriesLoading.observed ? undefined : processedData.observedGaps}
+            gapBridges={processedData.gapBridges}
             predictedPoints={processedData.predictedPoints}
             adjustedPoints={processedData.adjustedPoints}
             deltaPoints={processedData.deltaPoints}
             surgeForecastPoints={processedData.surgeForecastPoints}
+            guidancePoints={config.display.showDelta ? processedData.guidancePoints : processedData.guidanceLevelPoints}
+            envelopePoints={config.uncertainty.show ? processedData.envelopePoints : undefined}
+            planningPoints={config.planning.enabled ? planning.planningPoints : undefined}
+            planningLabel={`${config.planning.targetYear} ${slrScenario(config.planning.scenario).label}`}
+            floodEvents={floodEvents}
             domainStart={processedData.timeDomain.start}
             domainEnd={processedData.timeDomain.end}
             now={processedData.timeDomain.now}
             threshold={config.threshold}
+            tiers={tiers}
             showDelta={config.display.showDelta}
             timezone={config.display.timezone}
+            units={config.units}
             config={chartConfig}
           />
         )}
 
-        {/* Threshold crossing information */}
-        {!loading && !error && thresholdCrossing && (
+        {/* Wind and pressure on the chart's time axis */}
+        {!error && processedData && (
+          <MeteoPanels
+            windPoints={processedData.windPoints}
+            pressurePoints={processedData.pressurePoints}
+            showWind={config.meteo.showWind}
+            showPressure={config.meteo.showPressure}
+            loading={seriesLoading.meteo}
+            fit={data.meteoFit}
+            shoreNormalDeg={config.meteo.shoreNormalDeg}
+            windUnit={noaaUnitsFor(config.units) === 'english' ? 'kn' : 'm/s'}
+            units={config.units}
+            domainStart={processedData.timeDomain.start}
+            domainEnd={processedData.timeDomain.end}
+            now={processedData.timeDomain.now}
+          />
+        )}
+
+        {/* How often the threshold would be exceeded in the planning target year */}
+        {config.planning.enabled && (
+          <PlanningOutlook
+            summary={planning.summary}
+            selectedScenario={config.planning.scenario}
+            threshold={config.threshold}
+            units={config.units}
+            loading={planning.loading}
+            error={planning.error}
+          />
+        )}
+
+        {/* Partial data warning */}
+        {!error && warning && (
+          <IonItem lines="none" className="data-warning">
+            <IonNote color="warning">{warning}</IonNote>
+          </IonItem>
+        )}
+
+        {/* Cache provenance */}
+        {!error && cache?.fromCache && (
+          <IonItem lines="none" className="cache-status">
+            <IonNote color="medium">
+              Showing cached data fetched {formatDataAge(cache.fetchedAt)}
+            </IonNote>
+          </IonItem>
+        )}
+
+        {/* Threshold crossing information: highest tier expected, and the chance of flooding */}
+        {!seriesLoading.adjusted && !error && (highestCrossing || showOutlook) && (
           <IonList className="crossing-info">
             <IonItem>
               <IonLabel>
                 <h2>
-                  Next Flood Crossing ({config.display.timezone === 'gmt' ? 'GMT' : 'Local'})
+                  {highestCrossing ? 'Next Flood Crossing' : 'Flood Outlook'} ({config.display.timezone === 'gmt' ? 'GMT' : 'Local'})
                 </h2>
-                <p>
-                  {formatTime(thresholdCrossing.tCross)}
-                  <IonNote className="lead-time" color="medium">
-                    {' '}• Lead time: {thresholdCrossing.leadMinutes} minutes
-                  </IonNote>
-                </p>
+                {highestCrossing && (
+                  <p>
+                    <span className="crossing-tier" style={{ color: TIER_COLORS[highestCrossing.severity] }}>
+                      {TIER_LABELS[highestCrossing.severity]} flooding
+                    </span>
+                    {' '}({formatLength(highestCrossing.threshold, config.units)}) at{' '}
+                    {formatTime(highestCrossing.tCross)}
+                    <IonNote className="lead-time" color="medium">
+                      {' '}• Lead time: {highestCrossing.leadMinutes} minutes
+                    </IonNote>
+                  </p>
+                )}
+                {tierCrossings.length > 1 && (
+                  <p>
+                    {tierCrossings.slice(0, -1).map(crossing => (
+                      `${TIER_LABELS[crossing.severity]} from ${formatTime(crossing.tCross)}`
+                    )).join(' • ')}
+                  </p>
+                )}
+                {showOutlook && exceedance && (
+                  <p className="crossing-probability">
+                    {formatProbability(exceedance.probability)} chance of exceeding{' '}
+                    {formatLength(exceedance.threshold, config.units)} by {formatTime(exceedance.by)}
+                  </p>
+                )}
               </IonLabel>
             </IonItem>
           </IonList>
         )}
 
+        {/* Every flood episode in the displayed range, observed and forecast */}
+        {!error && processedData && (
+          <FloodEventList
+            events={floodEvents}
+            now={processedData.timeDomain.now}
+            tiers={tiers}
+            units={config.units}
+            timezone={config.display.timezone}
+          />
+        )}
+
         {/* Professional settings modal */}
         <SettingsModal
           isOpen={showSettings}
           onDismiss={() => setShowSettings(false)}
           config={config}
+          favoriteStations={favoriteStations}
+          savedLocations={savedLocations}
+          activeLocationId={activeLocationId}
           onStationChange={handleStationChange}
+          onToggleFavoriteStation={toggleFavoriteStation}
+          onSaveLocation={saveLocation}
+          onRenameLocation={(id, nickname) => updateSavedLocation(id, { nickname })}
+          onRemoveLocation={removeSavedLocation}
+          onApplyLocation={handleApplyLocation}
           onThresholdChange={updateThreshold}
+          onTiersChange={updateTiers}
+          onDatumChange={handleDatumChange}
+          onUnitsChange={updateUnits}
+          floodLevels={floodLevels.levels}
+          suggestedLevel={suggestedLevel}
+          onSuggestionDone={() => setSuggestFor(null)}
           onOffsetConfigChange={updateOffset}
+          onUncertaintyChange={updateUncertainty}
+          onGuidanceChange={updateGuidance}
+          guidance={surgeGuidance.guidance}
+          guidanceLoading={surgeGuidance.loading}
+          guidanceError={surgeGuidance.error}
+          onImportGuidance={surgeGuidance.importFile}
+          onReloadGuidance={surgeGuidance.reload}
+          onClearGuidance={surgeGuidance.clear}
+          onMeteoChange={updateMeteo}
+          onPlanningChange={updatePlanning}
           onTimeRangeChange={updateTimeRange}
           onDisplayChange={updateDisplay}
           computedOffset={data.offset}
@@ -227,6 +522,16 @@ export const Tab2Refactored: React.FC = () => {
           errorMessage={messages.error}
           onClearMessages={clearMessages}
         />
+
+        {/* Station metadata, datums and flood levels */}
+        <StationDetailSheet
+          isOpen={showStationDetail}
+          onDismiss={() => setShowStationDetail(false)}
+          stationId={config.station.id}
+          datum={config.datum}
+          units={config.units}
+          timezone={config.display.timezone}
+        />
       </IonContent>
     </IonPage>
   );
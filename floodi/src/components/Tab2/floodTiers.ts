@@ -0,0 +1,68 @@
+/**
+ * Flood tier helpers shared by the chart, tooltips and settings
+ *
+ * Colours follow the NWS hydrograph convention: minor orange, moderate red,
+ * major purple.
+ */
+
+import type { FloodSeverity, FloodTier } from '../../lib/noaa';
+import type { AppConfiguration } from './types';
+
+/** Series colour below the lowest tier */
+export const BELOW_FLOOD_COLOR = '#2ecc71';
+
+/** Line, band and segment colour for each tier */
+export const TIER_COLORS: Record<FloodSeverity, string> = {
+  minor: '#e67e22',
+  moderate: '#e74c3c',
+  major: '#8e44ad',
+};
+
+/** Display names for each tier */
+export const TIER_LABELS: Record<FloodSeverity, string> = {
+  minor: 'Minor',
+  moderate: 'Moderate',
+  major: 'Major',
+};
+
+/**
+ * Build the active flood tiers from the configuration
+ *
+ * The minor tier is the main flood threshold. Moderate and major are optional
+ * and ignored unless they lie above every lower tier.
+ *
+ * @param config Application configuration
+ * @returns Tiers ordered from lowest to highest threshold
+ */
+export function tiersFromConfig(config: Pick<AppConfiguration, 'threshold' | 'tiers'>): FloodTier[] {
+  const tiers: FloodTier[] = [{ severity: 'minor', threshold: config.threshold }];
+  for (const severity of ['moderate', 'major'] as const) {
+    const threshold = config.tiers[severity];
+    if (threshold !== null && threshold > tiers[tiers.length - 1].threshold) {
+      tiers.push({ severity, threshold });
+    }
+  }
+  return tiers;
+}
+
+/**
+ * Tier level of a water level
+ * @param value Water level
+ * @param tiers Tiers ordered from lowest to highest
+ * @returns 0 below all tiers, otherwise 1-based index of the highest tier reached
+ */
+export function tierLevel(value: number, tiers: FloodTier[]): number {
+  let level = 0;
+  while (level < tiers.length && value >= tiers[level].threshold) level++;
+  return level;
+}
+
+/**
+ * Colour for a tier level from `tierLevel`
+ * @param level Tier level
+ * @param tiers Tiers ordered from lowest to highest
+ * @returns Hex colour
+ */
+export function tierLevelColor(level: number, tiers: FloodTier[]): string {
+  return level === 0 ? BELOW_FLOOD_COLOR : TIER_COLORS[tiers[level - 1].severity];
+}
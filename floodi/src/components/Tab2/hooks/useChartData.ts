@@ -1,6 +1,116 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { buildAdjustedFuture, fetchObservedWaterLevels, fetchPredictions, findNextThresholdCrossing } from '../../../lib/noaa';
-import type { ChartData, DataState, Point, ThresholdCrossing, AppConfiguration } from '../types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  adjustPredictions,
+  findFloodEvents,
+  findNextThresholdCrossing,
+  findNextTierCrossings,
+  isAbortError,
+  surgeResiduals,
+} from '../../../lib/noaa';
+import type {
+  CacheMeta,
+  CacheOptions,
+  ChunkFailure,
+  FloodEvent,
+  ObservationSeries,
+  TierCrossing,
+  TimeSeries,
+  WindSeries,
+} from '../../../lib/noaa';
+import { alignGuidance, combineSurge, guidanceAt } from '../../../lib/guidance';
+import type { SurgeGuidance } from '../../../lib/guidance';
+import {
+  fetchPlannedAirPressure,
+  fetchPlannedObservations,
+  fetchPlannedPredictions,
+  fetchPlannedWind,
+  planChartData,
+} from '../../../lib/dataPlan';
+import { bridgeGaps, findGaps } from '../../../lib/gaps';
+import { fitMeteoSurge, meteoSurgeStrategy } from '../../../lib/meteo';
+import type { MeteoSurgeFit } from '../../../lib/meteo';
+import { projectSurge } from '../../../lib/surge';
+import type { SurgeModel, SurgeResidual } from '../../../lib/surge';
+import {
+  estimateUncertainty,
+  exceedanceOutlook,
+  exceedanceProbability,
+  forecastBand,
+  forecastSigma,
+} from '../../../lib/uncertainty';
+import { convertLength, noaaUnitsFor, responseScale, scaleObservations, scaleTimeSeries } from '../../../lib/units';
+import { tiersFromConfig } from '../floodTiers';
+import type {
+  BandPoint,
+  CacheStatus,
+  ChartData,
+  DataState,
+  Point,
+  SeriesErrors,
+  SeriesLoading,
+  SeriesName,
+  ThresholdCrossing,
+  AppConfiguration,
+  WindPoint,
+} from '../types';
+
+/** Spacing of NOAA water level observations, and of the predictions fetched to match them */
+const SAMPLE_INTERVAL_MIN = 6;
+
+/** Age of the newest observation that is still normal: NOAA posts samples late and responses are cached */
+const OBSERVATION_LATENCY_MIN = 15;
+
+const EMPTY_CHART_DATA: ChartData = {
+  observed: {},
+  predicted: {},
+  adjusted: {},
+  offset: null,
+  surgeModel: null,
+  residuals: [],
+  surgeHistory: null,
+  nPoints: 0,
+  wind: {},
+  pressure: {},
+  meteoFit: null,
+};
+
+const ALL_SERIES_LOADING: SeriesLoading = { observed: true, predicted: true, adjusted: true, meteo: true };
+
+/** Series drawn as water levels; the chart is only replaced by an error when all of them fail */
+const WATER_LEVEL_SERIES: SeriesName[] = ['observed', 'predicted', 'adjusted'];
+
+/**
+ * Scale surge residuals, e.g. from meters to centimeters
+ * @param residuals Residuals from a NOAA response
+ * @param factor Scale factor
+ * @returns Scaled residuals
+ */
+function scaleResiduals(residuals: SurgeResidual[], factor: number): SurgeResidual[] {
+  return factor === 1 ? residuals : residuals.map(r => ({ t: r.t, v: r.v * factor }));
+}
+
+/**
+ * Scale a weather surge fit, e.g. from meters to centimeters
+ * @param fit Fit in the NOAA response unit
+ * @param factor Scale factor
+ * @returns Fit with surge values and coefficients scaled
+ */
+function scaleMeteoFit(fit: MeteoSurgeFit, factor: number): MeteoSurgeFit {
+  if (factor === 1) return fit;
+  return {
+    ...fit,
+    intercept: fit.intercept * factor,
+    onshoreCoef: fit.onshoreCoef * factor,
+    alongshoreCoef: fit.alongshoreCoef * factor,
+    barometricCoef: fit.barometricCoef * factor,
+    contributions: fit.contributions.map(c => ({
+      t: c.t,
+      wind: c.wind * factor,
+      pressure: c.pressure * factor,
+      other: c.other * factor,
+    })),
+  };
+}
 
 /**
  * Convert NOAA series data to Point array format
@@ -13,25 +123,74 @@ function seriesToPoints(series: Record<string, number>): Point[] {
     .sort((a, b) => a.t.getTime() - b.t.getTime());
 }
 
+/**
+ * Convert NOAA observations to Point array format, keeping quality metadata
+ * @param series Observation series keyed by timestamp
+ * @returns Sorted array of Points with quality and flags
+ */
+function observationsToPoints(series: ObservationSeries): Point[] {
+  return Object.entries(series)
+    .map(([k, obs]) => ({ t: new Date(k), v: obs.v, quality: obs.quality, flags: obs.flags }))
+    .sort((a, b) => a.t.getTime() - b.t.getTime());
+}
+
+/**
+ * Summarize per-request cache metadata into a single status for the UI
+ * @param metas Cache metadata collected from each NOAA request
+ * @returns Combined cache status, or null when no request reported metadata
+ */
+function summarizeCache(metas: CacheMeta[]): CacheStatus | null {
+  if (metas.length === 0) return null;
+  return {
+    fromCache: metas.some(m => m.fromCache),
+    fetchedAt: new Date(Math.min(...metas.map(m => m.fetchedAt))),
+  };
+}
+
 /**
  * Custom hook for fetching and processing NOAA chart data
  * 
  * @param config Application configuration containing station, time range, etc.
+ * @param guidance External surge guidance, shown as its own series and used per `config.guidance.use`
  * @returns Data state, refresh function, and processed chart data
  */
-export function useChartData(config: AppConfiguration) {
+export function useChartData(config: AppConfiguration, guidance: SurgeGuidance | null = null) {
   const [dataState, setDataState] = useState<DataState>({
     loading: true,
+    seriesLoading: ALL_SERIES_LOADING,
     error: null,
-    data: {
-      observed: {},
-      predicted: {},
-      adjusted: {},
-      offset: null,
-      nPoints: 0,
-    },
+    seriesErrors: {},
+    data: EMPTY_CHART_DATA,
+    cache: null,
+    warning: null,
   });
 
+  // Request generation: only the latest fetchData may commit results
+  const generationRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
+  // Identifies the data currently held, so a new station/range clears stale series
+  const dataKeyRef = useRef<string | null>(null);
+
+  // Latest fetchData, so background revalidation can trigger a re-read
+  const fetchDataRef = useRef<(() => Promise<void>) | null>(null);
+  const revalidateTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  /**
+   * Re-read data once background revalidation has refreshed stale cache entries.
+   * Several requests may revalidate together, so refreshes are coalesced.
+   */
+  const handleRevalidated = useCallback(() => {
+    if (revalidateTimer.current !== null) return;
+    revalidateTimer.current = setTimeout(() => {
+      revalidateTimer.current = null;
+      fetchDataRef.current?.();
+    }, 250);
+  }, []);
+
+  useEffect(() => () => {
+    if (revalidateTimer.current !== null) clearTimeout(revalidateTimer.current);
+  }, []);
+
   /**
    * Calculate time domain based on current configuration
    */
@@ -56,67 +215,204 @@ export function useChartData(config: AppConfiguration) {
 
   /**
    * Fetch and process all required data from NOAA APIs
+   *
+   * Each call supersedes the previous one: in-flight requests are aborted and
+   * results from older generations are discarded. Observations and
+   * predictions are fetched once per window of the data plan and committed as
+   * soon as each arrives; the adjusted forecast and residual history are then
+   * derived from them without further requests.
    */
   const fetchData = useCallback(async () => {
-    setDataState(prev => ({ ...prev, loading: true, error: null }));
-    
-    try {
-      const { start, end, now } = timeDomain;
-      const { station, timeRange } = config;
-      
-      // Build adjusted future (includes surge offset calculation)
-      const adjustedResult = await buildAdjustedFuture({
-        station: station.id,
-        now,
-        lookbackHours: 6,
-        lookaheadHours: timeRange.mode === 'relative' ? timeRange.lookaheadH : 
-          Math.ceil((end.getTime() - now.getTime()) / (1000 * 60 * 60)),
-        interval: 6,
-        datum: 'MLLW',
-        units: 'english',
-      });
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const generation = ++generationRef.current;
+    const { signal } = controller;
 
-      // Fetch observed water levels for the past period
-      const observed = await fetchObservedWaterLevels({
-        station: station.id,
-        start,
-        end: now,
-        interval: 6,
-        datum: 'MLLW',
-        units: 'english',
-      });
+    const { start, end, now } = timeDomain;
+    const { station, datum, units, offset } = config;
+    const noaaUnits = noaaUnitsFor(units);
+    const scale = responseScale(units);
 
-      // Fetch predictions for the entire time range
-      const predicted = await fetchPredictions({
-        station: station.id,
-        start,
-        end,
-        interval: 6,
-        datum: 'MLLW',
-        units: 'english',
-      });
+    // Keep showing current series on refresh, but never mix data across stations/ranges/datums/units
+    const dataKey = `${station.id}|${datum}|${units}|${start.toISOString()}|${end.toISOString()}`;
+    const keepData = dataKeyRef.current === dataKey;
+    dataKeyRef.current = dataKey;
 
-      const chartData: ChartData = {
-        observed,
-        predicted,
-        adjusted: adjustedResult.adjusted,
-        offset: adjustedResult.offset,
-        nPoints: adjustedResult.n,
-      };
+    /** Apply a state update only if this request is still the latest */
+    const commit = (update: (prev: DataState) => DataState) => {
+      if (generation === generationRef.current) setDataState(update);
+    };
+
+    // Wind and pressure are only fetched when shown or used for the surge
+    const meteoWanted = config.meteo.showWind || config.meteo.showPressure || config.meteo.useInSurge;
+
+    commit(prev => ({
+      ...prev,
+      loading: true,
+      seriesLoading: { ...ALL_SERIES_LOADING, meteo: meteoWanted },
+      error: null,
+      seriesErrors: {},
+      data: keepData ? prev.data : EMPTY_CHART_DATA,
+    }));
 
-      setDataState({
-        loading: false,
-        error: null,
-        data: chartData,
+    const cacheMetas: CacheMeta[] = [];
+    const cache: CacheOptions = {
+      onMeta: meta => cacheMetas.push(meta),
+      onRevalidated: handleRevalidated,
+    };
+    const partialFailures: ChunkFailure[] = [];
+    const onPartialFailure = (failures: ChunkFailure[]) => partialFailures.push(...failures);
+
+    /**
+     * Record a failed series; cancellations are ignored. The load as a whole
+     * only fails once every water level series has failed.
+     */
+    const fail = (series: SeriesName) => (error: unknown) => {
+      if (isAbortError(error)) return;
+      commit(prev => {
+        const seriesErrors: SeriesErrors = {
+          ...prev.seriesErrors,
+          [series]: error instanceof Error ? error : new Error(String(error)),
+        };
+        const allFailed = WATER_LEVEL_SERIES.every(name => seriesErrors[name]);
+        return {
+          ...prev,
+          seriesLoading: { ...prev.seriesLoading, [series]: false },
+          seriesErrors,
+          error: allFailed ? seriesErrors.predicted ?? seriesErrors[series] ?? null : null,
+        };
       });
-    } catch (error: any) {
-      setDataState(prev => ({
+    };
+
+    // One fetch per window covering the display range, surge lookback and residual history
+    const historyHours = config.uncertainty.historyHours;
+    const plan = planChartData({ start, end, now, surgeLookbackHours: offset.lookbackHours, historyHours });
+    let localPredictions = false;
+    const skippedConstituents = new Set<string>();
+    const request = {
+      station: station.id,
+      interval: SAMPLE_INTERVAL_MIN,
+      datum,
+      units: noaaUnits,
+      cache,
+      signal,
+      onPartialFailure,
+      onLocalPredictions: () => { localPredictions = true; },
+      onUnsupported: (names: string[]) => names.forEach(name => skippedConstituents.add(name)),
+    };
+
+    const observedFetch = fetchPlannedObservations(plan, request);
+    const predictedFetch = fetchPlannedPredictions(plan, request);
+
+    const observedTask = observedFetch.then(observed => commit(prev => ({
+      ...prev,
+      seriesLoading: { ...prev.seriesLoading, observed: false },
+      data: { ...prev.data, observed: scaleObservations(observed, scale) },
+    })), fail('observed'));
+
+    const predictedTask = predictedFetch.then(predicted => commit(prev => ({
+      ...prev,
+      seriesLoading: { ...prev.seriesLoading, predicted: false },
+      data: { ...prev.data, predicted: scaleTimeSeries(predicted, scale) },
+    })), fail('predicted'));
+
+    // Weather sensors are optional: a station without them just has no wind or pressure
+    const optional = <T,>(empty: T) => (error: unknown): T => {
+      if (isAbortError(error)) throw error;
+      return empty;
+    };
+    const meteoFetch: Promise<[WindSeries, TimeSeries]> = meteoWanted
+      ? Promise.all([
+          fetchPlannedWind(plan, request).catch(optional<WindSeries>({})),
+          fetchPlannedAirPressure(plan, request).catch(optional<TimeSeries>({})),
+        ])
+      : Promise.resolve([{}, {}]);
+    const meteoOptions = { shoreNormalDeg: config.meteo.shoreNormalDeg, units: noaaUnits };
+
+    const meteoTask = meteoFetch.then(([wind, pressure]) => commit(prev => ({
+      ...prev,
+      seriesLoading: { ...prev.seriesLoading, meteo: false },
+      data: { ...prev.data, wind, pressure },
+    })), fail('meteo'));
+
+    // The adjusted forecast only waits for the weather when it is estimated from it
+    const adjustedFetch = Promise.all([
+      observedFetch,
+      predictedFetch,
+      config.meteo.useInSurge ? meteoFetch : null,
+    ]).then(([observed, predicted, meteo]) => ({
+      observed,
+      predicted,
+      result: adjustPredictions(observed, predicted, {
+        now,
+        lookbackHours: offset.lookbackHours,
+        surge: {
+          strategy: meteo ? meteoSurgeStrategy(meteo[0], meteo[1], meteoOptions) : offset.strategy,
+          decayHours: offset.decayHours,
+        },
+      }),
+    }));
+
+    // Adjusted forecast and residual history are derived from the same two results
+    const adjustedTask = adjustedFetch.then(({ observed, predicted, result }) => {
+      const historyStartMs = now.getTime() - historyHours * 3600_000;
+      const history = historyHours > 0
+        ? scaleResiduals(
+            surgeResiduals(observed, predicted).filter(r => r.t >= historyStartMs && r.t <= now.getTime()),
+            scale
+          )
+        : null;
+
+      commit(prev => ({
         ...prev,
-        loading: false,
-        error: error?.message || String(error),
+        seriesLoading: { ...prev.seriesLoading, adjusted: false },
+        data: {
+          ...prev.data,
+          adjusted: scaleTimeSeries(result.adjusted, scale),
+          offset: result.offset * scale,
+          surgeModel: {
+            ...result.model,
+            offset: result.model.offset * scale,
+            slopePerHour: result.model.slopePerHour * scale,
+          },
+          residuals: scaleResiduals(result.residuals, scale),
+          surgeHistory: history,
+          nPoints: result.n,
+        },
       }));
-    }
-  }, [timeDomain, config]);
+    }, fail('adjusted'));
+
+    // Breakdown of the surge into wind, pressure and other contributions
+    const meteoFitTask = Promise.all([meteoFetch, adjustedFetch]).then(([[wind, pressure], { result }]) => {
+      const fit = fitMeteoSurge(result.residuals, wind, pressure, meteoOptions);
+      commit(prev => ({ ...prev, data: { ...prev.data, meteoFit: fit && scaleMeteoFit(fit, scale) } }));
+    }, () => undefined); // Failures are reported by the adjusted and meteo tasks
+
+    await Promise.all([observedTask, predictedTask, adjustedTask, meteoTask, meteoFitTask]);
+
+    commit(prev => ({
+      ...prev,
+      loading: false,
+      cache: summarizeCache(cacheMetas),
+      warning: partialFailures.length > 0
+        ? `Some data could not be loaded (${partialFailures.length} ${partialFailures.length === 1 ? 'period' : 'periods'} failed)`
+        : localPredictions
+          ? 'Offline: tide predictions computed on this device from harmonic constituents'
+            + (skippedConstituents.size > 0 ? ` (without ${[...skippedConstituents].join(', ')})` : '')
+          : null,
+    }));
+  }, [timeDomain, config, handleRevalidated]);
+
+  // Cancel any in-flight requests on unmount
+  useEffect(() => () => {
+    generationRef.current++;
+    abortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    fetchDataRef.current = fetchData;
+  }, [fetchData]);
 
   // Auto-refresh data when configuration changes
   useEffect(() => {
@@ -131,12 +427,21 @@ export function useChartData(config: AppConfiguration) {
     const { start, end, now } = timeDomain;
     
     // Convert to points and filter by domain
-    const observedPoints = seriesToPoints(data.observed)
+    const observedPoints = observationsToPoints(data.observed)
       .filter(p => p.t >= start && p.t <= end);
     
     const predictedPoints = seriesToPoints(data.predicted)
       .filter(p => p.t >= start && p.t <= end);
 
+    // Missing observations up to now, optionally bridged along the predicted tide
+    const intervalMs = SAMPLE_INTERVAL_MIN * 60_000;
+    const observedUntil = new Date(Math.min(end.getTime(), now.getTime() - OBSERVATION_LATENCY_MIN * 60_000));
+    const observedGaps = findGaps(observedPoints, { intervalMs, start, end: observedUntil });
+    const gapBridges: Point[][] = config.display.interpolateGaps
+      ? bridgeGaps(observedPoints, observedGaps, { intervalMs, reference: data.predicted })
+          .map(bridge => bridge.map(p => ({ ...p, interpolated: true })))
+      : [];
+
     // Calculate effective offset based on mode
     const effectiveOffset = config.offset.mode === 'manual' 
       ? (() => {
@@ -145,20 +450,51 @@ export function useChartData(config: AppConfiguration) {
         })()
       : data.offset ?? 0;
 
-    // Generate adjusted series (predictions + offset for future times only)
-    const adjustedSeries: Record<string, number> = {};
+    // Guidance values in the display unit
+    const guidanceScale = convertLength(1, config.guidance.units, config.units);
+
+    // Surge at a future time: the manual offset is constant, the auto model may trend and
+    // decay, and may be replaced by or blended with external guidance
     const nowMs = now.getTime();
+    const surgeAt = (t: number) => {
+      if (config.offset.mode !== 'auto') return effectiveOffset;
+      const hoursAhead = (t - nowMs) / 3600_000;
+      const residualSurge = data.surgeModel
+        ? projectSurge(data.surgeModel, hoursAhead, config.offset.decayHours)
+        : effectiveOffset;
+      const guidanceSurge = guidance ? guidanceAt(guidance, t) : null;
+      return combineSurge(residualSurge, guidanceSurge === null ? null : guidanceSurge * guidanceScale, hoursAhead, config.guidance);
+    };
+
+    // Generate adjusted series (predictions + surge for future times only)
+    const adjustedSeries: Record<string, number> = {};
     
     for (const [k, v] of Object.entries(data.predicted)) {
       const t = new Date(k).getTime();
       if (t >= nowMs) {
-        adjustedSeries[k] = v + effectiveOffset;
+        adjustedSeries[k] = v + surgeAt(t);
       }
     }
 
-    const adjustedPoints = seriesToPoints(adjustedSeries)
+    // Forecast spread from the scatter and drift of the residuals
+    const surgeModel: SurgeModel = config.offset.mode === 'auto' && data.surgeModel
+      ? data.surgeModel
+      : { strategy: 'manual', offset: effectiveOffset, n: data.residuals.length, slopePerHour: 0, trendLimitHours: 0 };
+    const history = config.uncertainty.historyHours > 0 ? data.surgeHistory ?? undefined : undefined;
+    const uncertainty = estimateUncertainty(data.residuals, surgeModel, now, { history });
+
+    const adjustedPoints: Point[] = seriesToPoints(adjustedSeries)
       .filter(p => p.t >= start && p.t <= end);
 
+    const envelopePoints: BandPoint[] = [];
+    if (uncertainty) {
+      for (const p of adjustedPoints) {
+        const sigma = forecastSigma(uncertainty, (p.t.getTime() - nowMs) / 3600_000);
+        p.exceedance = exceedanceProbability(p.v, sigma, config.threshold);
+        envelopePoints.push({ t: p.t, ...forecastBand(p.v, sigma, config.uncertainty.coverage) });
+      }
+    }
+
     // Calculate delta points (observed - predicted at matching timestamps)
     const deltaPoints: Point[] = [];
     for (const obsPoint of observedPoints) {
@@ -174,21 +510,47 @@ export function useChartData(config: AppConfiguration) {
       }
     }
 
-    // Build future surge forecast (constant offset) for future timestamps
+    // Build future surge forecast for future timestamps
     const surgeForecastPoints: Point[] = predictedPoints
-      .filter(p => p.t.getTime() >= now.getTime())
-      .map(p => ({ t: p.t, v: effectiveOffset }));
+      .filter(p => p.t.getTime() >= nowMs)
+      .map(p => ({ t: p.t, v: surgeAt(p.t.getTime()) }));
+
+    // Weather observations over the past part of the domain
+    const windPoints: WindPoint[] = Object.entries(data.wind)
+      .map(([k, w]) => ({ t: new Date(k), ...w }))
+      .filter(p => p.t >= start && p.t <= end)
+      .sort((a, b) => a.t.getTime() - b.t.getTime());
+    const pressurePoints: Point[] = seriesToPoints(data.pressure)
+      .filter(p => p.t >= start && p.t <= end);
+
+    // Guidance at the prediction times, as surge and as water level (prediction + guidance)
+    const guidancePoints: Point[] = guidance
+      ? seriesToPoints(alignGuidance(guidance, data.predicted, guidanceScale)).filter(p => p.t >= start && p.t <= end)
+      : [];
+    const guidanceLevelPoints: Point[] = guidancePoints.flatMap(p => {
+      const predicted = data.predicted[p.t.toISOString().slice(0, 16) + 'Z'];
+      return predicted === undefined ? [] : [{ t: p.t, v: predicted + p.v }];
+    });
 
     return {
       observedPoints,
+      observedGaps,
+      gapBridges,
       predictedPoints,
       adjustedPoints,
       deltaPoints,
       surgeForecastPoints,
+      guidancePoints,
+      guidanceLevelPoints,
+      windPoints,
+      pressurePoints,
+      envelopePoints,
+      adjustedSeries,
+      exceedance: exceedanceOutlook(adjustedPoints, config.threshold),
       effectiveOffset,
       timeDomain,
     };
-  }, [dataState.data, timeDomain, config.offset]);
+  }, [dataState.data, timeDomain, config.offset, config.threshold, config.uncertainty, config.guidance, config.units, config.display.interpolateGaps, guidance]);
 
   /**
    * Find next threshold crossing in adjusted data
@@ -197,18 +559,47 @@ export function useChartData(config: AppConfiguration) {
     const { data } = dataState;
     const { now } = timeDomain;
     
-    // Use adjusted data if available, otherwise fall back to predicted
-    const seriesForCrossing = Object.keys(data.adjusted).length > 0 
-      ? data.adjusted 
+    // Use adjusted data (with the surge actually shown) if available, otherwise fall back to predicted
+    const seriesForCrossing = Object.keys(processedData.adjustedSeries).length > 0 
+      ? processedData.adjustedSeries 
       : data.predicted;
       
     return findNextThresholdCrossing(seriesForCrossing, config.threshold, now);
-  }, [dataState.data, timeDomain.now, config.threshold]);
+  }, [dataState.data, processedData.adjustedSeries, timeDomain.now, config.threshold]);
+
+  /**
+   * Find the next entry into each configured flood tier
+   */
+  const tierCrossings = useMemo((): TierCrossing[] => {
+    const data = dataState.data;
+    const seriesForCrossing = Object.keys(processedData.adjustedSeries).length > 0
+      ? processedData.adjustedSeries
+      : data.predicted;
+
+    return findNextTierCrossings(
+      seriesForCrossing,
+      tiersFromConfig({ threshold: config.threshold, tiers: config.tiers }),
+      timeDomain.now
+    );
+  }, [dataState.data, processedData.adjustedSeries, timeDomain.now, config.threshold, config.tiers]);
+
+  /**
+   * Flood episodes over the displayed range: observations up to now joined to
+   * the adjusted forecast (or plain predictions while it loads) afterwards
+   */
+  const floodEvents = useMemo((): FloodEvent[] => {
+    const { observedPoints, adjustedPoints, predictedPoints, timeDomain: { now } } = processedData;
+    const future = (adjustedPoints.length > 0 ? adjustedPoints : predictedPoints).filter(p => p.t > now);
+    const past = observedPoints.filter(p => p.t <= now);
+    return findFloodEvents([...past, ...future], config.threshold, { now });
+  }, [processedData, config.threshold]);
 
   return {
     ...dataState,
     processedData,
+    floodEvents,
     thresholdCrossing,
+    tierCrossings,
     refresh: fetchData,
   };
 }
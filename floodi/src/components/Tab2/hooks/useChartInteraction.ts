@@ -1,5 +1,13 @@
 import { useState, useCallback, useMemo } from 'react';
 import type { Point, ChartInteraction } from '../types';
+import { describeObservationFlags } from '../../../lib/noaa';
+import type { FloodTier } from '../../../lib/noaa';
+import { formatGapDuration, gapAt } from '../../../lib/gaps';
+import type { DataGap } from '../../../lib/gaps';
+import { TIER_LABELS, tierLevel, tierLevelColor } from '../floodTiers';
+import { formatProbability } from '../../../lib/uncertainty';
+import { formatLength } from '../../../lib/units';
+import type { LengthUnit } from '../../../lib/units';
 
 /**
  * Find the nearest point in a series to a given timestamp
@@ -87,8 +95,11 @@ export function useChartInteraction(): ChartInteraction & {
     predictedPoints: Point[],
     adjustedPoints: Point[],
     deltaPoints: Point[],
-    threshold: number,
-    showDelta: boolean
+    tiers: FloodTier[],
+    showDelta: boolean,
+    units: LengthUnit,
+    gaps?: DataGap[],
+    gapBridges?: Point[][]
   ) => TooltipData | null;
   calculateTooltipPosition: typeof calculateTooltipPosition;
   formatTooltipTime: typeof formatTooltipTime;
@@ -104,11 +115,17 @@ export function useChartInteraction(): ChartInteraction & {
     predictedPoints: Point[],
     adjustedPoints: Point[],
     deltaPoints: Point[],
-    threshold: number,
-    showDelta: boolean
+    tiers: FloodTier[],
+    showDelta: boolean,
+    units: LengthUnit,
+    gaps: DataGap[] = [],
+    gapBridges: Point[][] = []
   ): TooltipData | null => {
     if (!hoverTime) return null;
 
+    // Inside a gap the nearest observation may be hours away; say so instead
+    const gap = gapAt(gaps, hoverTime);
+
     const nearestObs = findNearestPoint(observedPoints, hoverTime);
     const nearestPred = findNearestPoint(predictedPoints, hoverTime);
     const nearestAdj = findNearestPoint(adjustedPoints, hoverTime);
@@ -117,14 +134,43 @@ export function useChartInteraction(): ChartInteraction & {
     const rows: TooltipRow[] = [];
 
     // Observed data (only show if within 9 minutes)
-    if (nearestObs && nearestObs.dtMin <= 9) {
-      const color = nearestObs.point.v >= threshold ? '#e74c3c' : '#2ecc71';
+    if (gap) {
       rows.push({
         label: 'Observed',
-        value: `${nearestObs.point.v.toFixed(2)} ft`,
+        value: `no data (${formatGapDuration(gap)} gap)`,
+        color: '#7f8c8d',
+      });
+
+      const bridge = gapBridges.find(b => b[0].t.getTime() === gap.start.getTime());
+      const nearestBridge = bridge ? findNearestPoint(bridge, hoverTime) : null;
+      if (nearestBridge) {
+        rows.push({
+          label: 'Interpolated',
+          value: `~${formatLength(nearestBridge.point.v, units)}`,
+          color: '#7f8c8d',
+          point: nearestBridge.point,
+          dashed: true,
+        });
+      }
+    } else if (nearestObs && nearestObs.dtMin <= 9) {
+      const { point } = nearestObs;
+      const color = tierLevelColor(tierLevel(point.v, tiers), tiers);
+      rows.push({
+        label: point.quality === 'preliminary' ? 'Observed (prelim.)' : 'Observed',
+        value: formatLength(point.v, units),
         color,
-        point: nearestObs.point,
+        point,
       });
+
+      // NOAA quality checks this sample failed
+      const flagDescriptions = point.flags ? describeObservationFlags(point.flags) : [];
+      if (flagDescriptions.length > 0) {
+        rows.push({
+          label: 'Flags',
+          value: flagDescriptions.join(', '),
+          color: '#f39c12',
+        });
+      }
     } else {
       rows.push({
         label: 'Observed',
@@ -137,7 +183,7 @@ export function useChartInteraction(): ChartInteraction & {
     if (nearestPred) {
       rows.push({
         label: 'Prediction',
-        value: `${nearestPred.point.v.toFixed(2)} ft`,
+        value: formatLength(nearestPred.point.v, units),
         color: '#95a5a6',
         point: nearestPred.point,
       });
@@ -145,22 +191,33 @@ export function useChartInteraction(): ChartInteraction & {
 
     // Adjusted prediction data
     if (nearestAdj) {
-      const color = nearestAdj.point.v >= threshold ? '#e74c3c' : '#2ecc71';
+      const level = tierLevel(nearestAdj.point.v, tiers);
       rows.push({
         label: 'Adjusted prediction',
-        value: `${nearestAdj.point.v.toFixed(2)} ft`,
-        color,
+        value: level > 0
+          ? `${formatLength(nearestAdj.point.v, units)} (${TIER_LABELS[tiers[level - 1].severity].toLowerCase()})`
+          : formatLength(nearestAdj.point.v, units),
+        color: tierLevelColor(level, tiers),
         point: nearestAdj.point,
         dashed: true,
       });
+
+      // Chance of reaching the flood threshold given the forecast spread
+      if (nearestAdj.point.exceedance !== undefined && tiers.length > 0) {
+        rows.push({
+          label: `Chance ≥ ${formatLength(tiers[0].threshold, units)}`,
+          value: formatProbability(nearestAdj.point.exceedance),
+          color: tierLevelColor(1, tiers),
+        });
+      }
     }
 
     // Delta data (observed - predicted)
-    if (showDelta && nearestDelta) {
+    if (showDelta && nearestDelta && !gap) {
       const deltaValue = nearestDelta.point.v;
       rows.push({
         label: 'Δ obs - pred',
-        value: `${deltaValue >= 0 ? '+' : ''}${deltaValue.toFixed(2)} ft`,
+        value: formatLength(deltaValue, units, { signed: true }),
         color: '#1976d2',
         point: nearestDelta.point,
       });
@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react';
+import { convertDatum, fetchFloodLevels, fetchHarmonicConstituents, fetchStationDatums, isAbortError } from '../../../lib/noaa';
+import type { FloodLevel } from '../../../lib/noaa';
+import { noaaUnitsFor, responseScale, roundLength } from '../../../lib/units';
+import type { AppConfiguration, FloodLevelPreset } from '../types';
+
+/**
+ * Pick the level to suggest as threshold for a newly selected station
+ * @param levels Station flood levels
+ * @returns NOS minor flood level, falling back to the NWS minor flood stage
+ */
+function suggestedLevel<T extends FloodLevel>(levels: T[]): T | null {
+  return levels.find(l => l.source === 'NOS' && l.severity === 'minor')
+    ?? levels.find(l => l.source === 'NWS' && l.severity === 'minor')
+    ?? null;
+}
+
+/**
+ * Custom hook for loading a station's official flood levels as threshold presets
+ *
+ * Fetches NOS flood thresholds and NWS flood stages together with the station
+ * datums, and re-references every level from station datum to the configured
+ * datum and unit. Levels that can't be converted (the station doesn't publish
+ * the configured datum) are dropped. The harmonic constituents are loaded
+ * alongside, so they and the datums are in the station metadata cache when
+ * tide predictions later have to be computed offline.
+ *
+ * @param config Application configuration (station, datum, units)
+ * @returns Presets, the suggested preset and loading state
+ */
+export function useFloodLevels(config: Pick<AppConfiguration, 'station' | 'datum' | 'units'>) {
+  const [state, setState] = useState<{
+    stationId: string | null;
+    levels: FloodLevelPreset[];
+    loading: boolean;
+    error: Error | null;
+  }>({ stationId: null, levels: [], loading: false, error: null });
+
+  const stationId = config.station.id;
+  const { datum, units } = config;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    const noaaUnits = noaaUnitsFor(units);
+    const scale = responseScale(units);
+
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    // Only cached for offline predictions; a station without constituents just can't predict locally
+    fetchHarmonicConstituents({ station: stationId, units: noaaUnits, signal }).catch(() => undefined);
+
+    Promise.all([
+      fetchFloodLevels({ station: stationId, units: noaaUnits, signal }),
+      fetchStationDatums({ station: stationId, units: noaaUnits, signal }),
+    ]).then(([levels, datums]) => {
+      const presets: FloodLevelPreset[] = [];
+      for (const level of levels) {
+        const converted = convertDatum(level.value, 'STND', datum, datums);
+        if (converted !== null) {
+          presets.push({ ...level, threshold: roundLength(converted * scale, units) });
+        }
+      }
+      setState({ stationId, levels: presets, loading: false, error: null });
+    }).catch(error => {
+      if (isAbortError(error)) return;
+      setState({
+        stationId,
+        levels: [],
+        loading: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    });
+
+    return () => controller.abort();
+  }, [stationId, datum, units]);
+
+  return {
+    /** Station the levels belong to (null until the first load finishes) */
+    stationId: state.stationId,
+    levels: state.levels,
+    suggested: suggestedLevel(state.levels),
+    loading: state.loading,
+    error: state.error,
+  };
+}
@@ -0,0 +1,51 @@
+import { useState, useEffect, useRef } from 'react';
+import { getCurrentPosition, rankByDistance } from '../../../lib/geo';
+import { loadStationList } from './useStationSearch';
+import type { StationResult } from '../types';
+
+/**
+ * Custom hook that finds the station closest to the device once
+ *
+ * Used on first launch: the location permission prompt doubles as the user's
+ * consent. When location is denied or unavailable, nothing happens and the
+ * default station stays selected. Disabling the hook while the lookup runs,
+ * e.g. because the user picked a station, discards its result.
+ *
+ * @param enabled Whether to look up the nearest station (e.g. no station chosen yet)
+ * @param onFound Callback with the closest station, its distance and bearing
+ * @returns Whether the lookup is in progress
+ */
+export function useNearestStation(enabled: boolean, onFound: (station: StationResult) => void) {
+  const [locating, setLocating] = useState(false);
+
+  // Latest callback, so a re-rendered parent doesn't restart the lookup
+  const onFoundRef = useRef(onFound);
+  useEffect(() => {
+    onFoundRef.current = onFound;
+  }, [onFound]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    setLocating(true);
+
+    Promise.all([getCurrentPosition(), loadStationList()])
+      .then(([position, stations]) => {
+        const [nearest] = rankByDistance(stations, position, 1);
+        if (!cancelled && nearest) onFoundRef.current(nearest);
+      })
+      .catch(() => {
+        // Location denied or unavailable, or no station list: keep the default station
+      })
+      .finally(() => {
+        if (!cancelled) setLocating(false);
+      });
+
+    return () => {
+      cancelled = true;
+      setLocating(false);
+    };
+  }, [enabled]);
+
+  return { locating };
+}
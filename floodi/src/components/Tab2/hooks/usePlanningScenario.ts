@@ -0,0 +1,145 @@
+import { useState, useEffect, useMemo } from 'react';
+import { fetchHighLowPredictions, isAbortError } from '../../../lib/noaa';
+import type { TideEvent } from '../../../lib/noaa';
+import { fetchTidePredictions } from '../../../lib/harmonics';
+import { SLR_SCENARIOS, exceedanceStats, riseBetween, shiftYears } from '../../../lib/slr';
+import { convertLength, noaaUnitsFor, responseScale } from '../../../lib/units';
+import type { AppConfiguration, PlanningSummary, Point } from '../types';
+
+/**
+ * Prediction range of a calendar year (UTC)
+ * @param year Year
+ * @returns Start and end of the year
+ */
+function yearRange(year: number): { start: Date; end: Date } {
+  return { start: new Date(Date.UTC(year, 0, 1)), end: new Date(Date.UTC(year, 11, 31, 23, 59)) };
+}
+
+/**
+ * Custom hook for the sea level rise planning mode
+ *
+ * Loads a year of high/low predictions for the current and the target year, and
+ * the target-year tides on the calendar dates of the displayed range. The
+ * target-year curve is moved back onto today's dates and raised by the rise of
+ * the selected scenario, so both years' tides can be drawn on one axis.
+ * Exceedance statistics count high tides for every bundled scenario.
+ *
+ * @param config Application configuration (station, datum, units, threshold, planning)
+ * @param domain Displayed time range
+ * @returns Planning summary, target-year curve and loading state
+ */
+export function usePlanningScenario(config: AppConfiguration, domain: { start: Date; end: Date }) {
+  const [years, setYears] = useState<{
+    current: TideEvent[] | null;
+    target: TideEvent[] | null;
+    loading: boolean;
+    error: Error | null;
+  }>({ current: null, target: null, loading: false, error: null });
+  const [curve, setCurve] = useState<Point[]>([]);
+
+  const stationId = config.station.id;
+  const { datum, units, threshold } = config;
+  const { enabled, targetYear, scenario } = config.planning;
+  const startMs = domain.start.getTime();
+  const endMs = domain.end.getTime();
+  const currentYear = new Date().getUTCFullYear();
+
+  // A year of high and low tides for this year and the target year
+  useEffect(() => {
+    if (!enabled) {
+      setYears({ current: null, target: null, loading: false, error: null });
+      return;
+    }
+
+    const controller = new AbortController();
+    const request = { station: stationId, datum, units: noaaUnitsFor(units), signal: controller.signal };
+    const scale = responseScale(units);
+    const scaleEvents = (events: TideEvent[]) => (scale === 1 ? events : events.map(e => ({ ...e, v: e.v * scale })));
+
+    setYears(prev => ({ ...prev, loading: true, error: null }));
+
+    Promise.all([
+      fetchHighLowPredictions({ ...request, ...yearRange(currentYear) }),
+      fetchHighLowPredictions({ ...request, ...yearRange(targetYear) }),
+    ]).then(([current, target]) => {
+      setYears({
+        current: scaleEvents(current),
+        target: scaleEvents(target),
+        loading: false,
+        error: null,
+      });
+    }).catch(error => {
+      if (isAbortError(error)) return;
+      setYears({
+        current: null,
+        target: null,
+        loading: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    });
+
+    return () => controller.abort();
+  }, [enabled, targetYear, currentYear, stationId, datum, units]);
+
+  // Target-year tides on the calendar dates of the displayed range
+  useEffect(() => {
+    if (!enabled) {
+      setCurve([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const shift = targetYear - currentYear;
+    const scale = responseScale(units);
+
+    fetchTidePredictions({
+      station: stationId,
+      datum,
+      units: noaaUnitsFor(units),
+      start: shiftYears(new Date(startMs), shift),
+      end: shiftYears(new Date(endMs), shift),
+      signal: controller.signal,
+    }).then(series => {
+      setCurve(Object.entries(series)
+        .map(([k, v]) => ({ t: shiftYears(new Date(k), -shift), v: v * scale }))
+        .sort((a, b) => a.t.getTime() - b.t.getTime()));
+    }).catch(error => {
+      // The outlook reports load failures; the chart just omits the curve
+      if (!isAbortError(error)) setCurve([]);
+    });
+
+    return () => controller.abort();
+  }, [enabled, targetYear, currentYear, stationId, datum, units, startMs, endMs]);
+
+  /**
+   * Threshold exceedance this year and in the target year under every scenario
+   */
+  const summary = useMemo((): PlanningSummary | null => {
+    const { current, target } = years;
+    if (!current || !target) return null;
+    return {
+      currentYear,
+      targetYear,
+      baseline: exceedanceStats(current, threshold),
+      scenarios: SLR_SCENARIOS.map(s => {
+        const rise = convertLength(riseBetween(s.id, currentYear, targetYear), 'm', units);
+        return { scenario: s, rise, stats: exceedanceStats(target, threshold, rise) };
+      }),
+    };
+  }, [years, currentYear, targetYear, threshold, units]);
+
+  /**
+   * Target-year tides under the selected scenario, on today's dates
+   */
+  const planningPoints = useMemo((): Point[] => {
+    const rise = convertLength(riseBetween(scenario, currentYear, targetYear), 'm', units);
+    return curve.map(p => ({ t: p.t, v: p.v + rise }));
+  }, [curve, scenario, currentYear, targetYear, units]);
+
+  return {
+    summary,
+    planningPoints,
+    loading: years.loading,
+    error: years.error,
+  };
+}
@@ -1,14 +1,49 @@
 import { useState, useEffect, useCallback } from 'react';
-import type { AppConfiguration, TimeRange, OffsetConfig } from '../types';
+import { DATUMS } from '../../../lib/noaa';
+import type { Datum } from '../../../lib/noaa';
+import { GUIDANCE_USES } from '../../../lib/guidance';
+import type { GuidanceUse } from '../../../lib/guidance';
+import { SLR_SCENARIO_IDS } from '../../../lib/slr';
+import type { SlrScenarioId } from '../../../lib/slr';
+import { SURGE_STRATEGY_IDS } from '../../../lib/surge';
+import type { SurgeStrategyId } from '../../../lib/surge';
+import { LENGTH_UNITS, convertLength, roundLength } from '../../../lib/units';
+import type { LengthUnit } from '../../../lib/units';
+import type { AppConfiguration, GuidanceConfig, LocationState, MeteoConfig, PlanningConfig, RecentStation, SavedLocation, TimeRange, OffsetConfig, TierThresholds, UncertaintyConfig } from '../types';
 
 /**
  * Local storage keys for configuration persistence
  */
 const STORAGE_KEYS = {
   STATION: 'floodi.station',
+  FAVORITE_STATIONS: 'floodi.stations.favorites',
+  RECENT_STATIONS: 'floodi.stations.recent',
+  LOCATIONS: 'floodi.locations',
+  ACTIVE_LOCATION: 'floodi.locations.active',
   THRESHOLD: 'floodi.threshold',
+  THRESHOLD_MODERATE: 'floodi.threshold.moderate',
+  THRESHOLD_MAJOR: 'floodi.threshold.major',
+  DATUM: 'floodi.datum',
+  UNITS: 'floodi.units',
   OFFSET_MODE: 'floodi.offset.mode',
   OFFSET_VALUE: 'floodi.offset.value',
+  OFFSET_STRATEGY: 'floodi.offset.strategy',
+  OFFSET_DECAY_H: 'floodi.offset.decayH',
+  OFFSET_LOOKBACK_H: 'floodi.offset.lookbackH',
+  UNCERTAINTY_SHOW: 'floodi.unc.show',
+  UNCERTAINTY_COVERAGE: 'floodi.unc.coverage',
+  UNCERTAINTY_HISTORY_H: 'floodi.unc.historyH',
+  GUIDANCE_URL: 'floodi.guidance.url',
+  GUIDANCE_UNITS: 'floodi.guidance.units',
+  GUIDANCE_USE: 'floodi.guidance.use',
+  GUIDANCE_BLEND_H: 'floodi.guidance.blendH',
+  METEO_SHOW_WIND: 'floodi.meteo.showWind',
+  METEO_SHOW_PRESSURE: 'floodi.meteo.showPressure',
+  METEO_SHORE_NORMAL: 'floodi.meteo.shoreNormalDeg',
+  METEO_USE_IN_SURGE: 'floodi.meteo.useInSurge',
+  PLANNING_ENABLED: 'floodi.planning.enabled',
+  PLANNING_YEAR: 'floodi.planning.year',
+  PLANNING_SCENARIO: 'floodi.planning.scenario',
   LOOKBACK_H: 'floodi.hist.lookbackH',
   LOOKAHEAD_H: 'floodi.hist.lookaheadH',
   RANGE_MODE: 'floodi.hist.rangeMode',
@@ -16,6 +51,7 @@ const STORAGE_KEYS = {
   ABS_END: 'floodi.hist.absEnd',
   TIMEZONE: 'floodi.tz',
   SHOW_DELTA: 'floodi.delta.show',
+  INTERPOLATE_GAPS: 'floodi.gaps.interpolate',
   THEME: 'floodi.theme',
 } as const;
 
@@ -28,10 +64,41 @@ const DEFAULT_CONFIG: AppConfiguration = {
     name: '',
     state: undefined,
   },
-  threshold: 6.1, // MLLW feet
+  threshold: 6.1, // feet above MLLW
+  tiers: {
+    moderate: null,
+    major: null,
+  },
+  datum: 'MLLW',
+  units: 'ft',
   offset: {
     mode: 'auto',
     value: '',
+    strategy: 'median',
+    decayHours: null,
+    lookbackHours: 6,
+  },
+  uncertainty: {
+    show: true,
+    coverage: 0.8,
+    historyHours: 0,
+  },
+  guidance: {
+    url: '',
+    units: 'm',
+    use: 'display',
+    blendHours: 24,
+  },
+  meteo: {
+    showWind: false,
+    showPressure: false,
+    shoreNormalDeg: 135, // Wrightsville Beach faces the open Atlantic to the southeast
+    useInSurge: false,
+  },
+  planning: {
+    enabled: false,
+    targetYear: 2050,
+    scenario: 'intermediate',
   },
   timeRange: {
     mode: 'relative',
@@ -43,6 +110,7 @@ const DEFAULT_CONFIG: AppConfiguration = {
   display: {
     timezone: 'local',
     showDelta: false,
+    interpolateGaps: false,
     theme: 'auto',
   },
 };
@@ -77,6 +145,240 @@ function safeSetStorageItem(key: string, value: string): void {
   }
 }
 
+/**
+ * Read an optional tier threshold ('' means the tier is off)
+ * @param key Storage key
+ * @returns Threshold or null
+ */
+function loadTierThreshold(key: string): number | null {
+  const stored = safeGetStorageItem(key, '');
+  const value = parseFloat(stored);
+  return stored !== '' && Number.isFinite(value) ? value : null;
+}
+
+/** Number of recently viewed stations remembered */
+const MAX_RECENT_STATIONS = 8;
+
+/**
+ * Read a JSON array from localStorage, dropping entries that fail validation
+ * @param key Storage key
+ * @param isValid Entry validator
+ * @returns Valid entries, or an empty list if the stored value is missing or corrupt
+ */
+function loadJsonList<T>(key: string, isValid: (entry: unknown) => entry is T): T[] {
+  try {
+    const parsed: unknown = JSON.parse(safeGetStorageItem(key, '[]'));
+    return Array.isArray(parsed) ? parsed.filter(isValid) : [];
+  } catch {
+    return [];
+  }
+}
+
+const isNumberOrNull = (value: unknown) => value === null || (typeof value === 'number' && Number.isFinite(value));
+
+/**
+ * Check the shape of a stored saved location
+ */
+function isSavedLocation(entry: unknown): entry is SavedLocation {
+  const location = entry as SavedLocation;
+  return typeof location === 'object' && location !== null
+    && typeof location.id === 'string'
+    && typeof location.nickname === 'string'
+    && typeof location.station?.id === 'string' && /^\w+$/.test(location.station.id)
+    && typeof location.station.name === 'string'
+    && typeof location.threshold === 'number' && Number.isFinite(location.threshold)
+    && isNumberOrNull(location.tiers?.moderate) && isNumberOrNull(location.tiers?.major)
+    && (DATUMS as readonly string[]).includes(location.datum)
+    && (LENGTH_UNITS as readonly string[]).includes(location.units)
+    && (location.offsetMode === 'auto' || location.offsetMode === 'manual')
+    && typeof location.offsetValue === 'string';
+}
+
+/**
+ * Check the shape of a stored recent station
+ */
+function isRecentStation(entry: unknown): entry is RecentStation {
+  const recent = entry as RecentStation;
+  return typeof recent === 'object' && recent !== null
+    && typeof recent.id === 'string' && /^\w+$/.test(recent.id)
+    && typeof recent.name === 'string'
+    && typeof recent.viewedAt === 'number';
+}
+
+/**
+ * Move a station to the front of the recent list
+ * @param recent Current list, most recent first
+ * @param station Station just viewed
+ * @returns Updated list, capped at MAX_RECENT_STATIONS
+ */
+function rememberStation(recent: RecentStation[], station: AppConfiguration['station']): RecentStation[] {
+  const entry: RecentStation = { id: station.id, name: station.name, state: station.state, viewedAt: Date.now() };
+  return [entry, ...recent.filter(r => r.id !== station.id)].slice(0, MAX_RECENT_STATIONS);
+}
+
+/**
+ * Capture the current station and flood settings as a saved location
+ * @param config Current configuration
+ * @param id Location identifier
+ * @param nickname Location name
+ * @returns Saved location
+ */
+function snapshotLocation(config: AppConfiguration, id: string, nickname: string): SavedLocation {
+  return {
+    id,
+    nickname,
+    station: { ...config.station },
+    threshold: config.threshold,
+    tiers: { ...config.tiers },
+    datum: config.datum,
+    units: config.units,
+    offsetMode: config.offset.mode,
+    offsetValue: config.offset.value,
+  };
+}
+
+/**
+ * Apply a conversion to the threshold and every tier threshold
+ * @param config Current configuration
+ * @param convert Conversion applied to each level
+ * @returns Configuration with converted thresholds
+ */
+function mapThresholds(config: AppConfiguration, convert: (value: number) => number): AppConfiguration {
+  return {
+    ...config,
+    threshold: convert(config.threshold),
+    tiers: {
+      moderate: config.tiers.moderate === null ? null : convert(config.tiers.moderate),
+      major: config.tiers.major === null ? null : convert(config.tiers.major),
+    },
+  };
+}
+
+/**
+ * Read the starred station IDs from localStorage
+ * @returns Station IDs in the order they were starred
+ */
+function loadFavoriteStations(): string[] {
+  return safeGetStorageItem(STORAGE_KEYS.FAVORITE_STATIONS, '')
+    .split(',')
+    .filter(id => /^\w+$/.test(id));
+}
+
+/**
+ * Read saved locations and recent stations from localStorage
+ * @returns Stored lists, without entries that fail validation
+ */
+function loadLocationState(): LocationState {
+  return {
+    savedLocations: loadJsonList(STORAGE_KEYS.LOCATIONS, isSavedLocation),
+    activeLocationId: safeGetStorageItem(STORAGE_KEYS.ACTIVE_LOCATION, '') || null,
+    recentStations: loadJsonList(STORAGE_KEYS.RECENT_STATIONS, isRecentStation),
+  };
+}
+
+/**
+ * Read the full configuration from localStorage, falling back to defaults
+ * @returns Stored configuration
+ */
+function loadStoredConfig(): AppConfiguration {
+  const storedThreshold = safeGetStorageItem(STORAGE_KEYS.THRESHOLD, String(DEFAULT_CONFIG.threshold));
+  const threshold = parseFloat(storedThreshold);
+  
+  const storedDatum = safeGetStorageItem(STORAGE_KEYS.DATUM, DEFAULT_CONFIG.datum);
+  const storedUnits = safeGetStorageItem(STORAGE_KEYS.UNITS, DEFAULT_CONFIG.units);
+  const storedStrategy = safeGetStorageItem(STORAGE_KEYS.OFFSET_STRATEGY, DEFAULT_CONFIG.offset.strategy);
+  const decayHours = parseFloat(safeGetStorageItem(STORAGE_KEYS.OFFSET_DECAY_H, ''));
+  const surgeLookbackHours = parseInt(safeGetStorageItem(STORAGE_KEYS.OFFSET_LOOKBACK_H, String(DEFAULT_CONFIG.offset.lookbackHours)), 10);
+  const coverage = parseFloat(safeGetStorageItem(STORAGE_KEYS.UNCERTAINTY_COVERAGE, String(DEFAULT_CONFIG.uncertainty.coverage)));
+  const historyHours = parseInt(safeGetStorageItem(STORAGE_KEYS.UNCERTAINTY_HISTORY_H, String(DEFAULT_CONFIG.uncertainty.historyHours)), 10);
+
+  const guidanceUnits = safeGetStorageItem(STORAGE_KEYS.GUIDANCE_UNITS, DEFAULT_CONFIG.guidance.units);
+  const guidanceUse = safeGetStorageItem(STORAGE_KEYS.GUIDANCE_USE, DEFAULT_CONFIG.guidance.use);
+  const blendHours = parseFloat(safeGetStorageItem(STORAGE_KEYS.GUIDANCE_BLEND_H, String(DEFAULT_CONFIG.guidance.blendHours)));
+
+  const shoreNormalDeg = parseFloat(safeGetStorageItem(STORAGE_KEYS.METEO_SHORE_NORMAL, String(DEFAULT_CONFIG.meteo.shoreNormalDeg)));
+
+  const targetYear = parseInt(safeGetStorageItem(STORAGE_KEYS.PLANNING_YEAR, String(DEFAULT_CONFIG.planning.targetYear)), 10);
+  const scenario = safeGetStorageItem(STORAGE_KEYS.PLANNING_SCENARIO, DEFAULT_CONFIG.planning.scenario);
+
+  const storedLookback = safeGetStorageItem(STORAGE_KEYS.LOOKBACK_H, String(DEFAULT_CONFIG.timeRange.lookbackH));
+  const lookbackH = parseInt(storedLookback, 10);
+  
+  const storedLookahead = safeGetStorageItem(STORAGE_KEYS.LOOKAHEAD_H, String(DEFAULT_CONFIG.timeRange.lookaheadH));
+  const lookaheadH = parseInt(storedLookahead, 10);
+  
+  return {
+    station: {
+      id: safeGetStorageItem(STORAGE_KEYS.STATION, DEFAULT_CONFIG.station.id),
+      name: DEFAULT_CONFIG.station.name,
+      state: DEFAULT_CONFIG.station.state,
+    },
+    // Thresholds relative to MHHW or MSL may legitimately be zero or negative
+    threshold: Number.isFinite(threshold) ? threshold : DEFAULT_CONFIG.threshold,
+    tiers: {
+      moderate: loadTierThreshold(STORAGE_KEYS.THRESHOLD_MODERATE),
+      major: loadTierThreshold(STORAGE_KEYS.THRESHOLD_MAJOR),
+    },
+    datum: (DATUMS as readonly string[]).includes(storedDatum) ? storedDatum as Datum : DEFAULT_CONFIG.datum,
+    units: (LENGTH_UNITS as readonly string[]).includes(storedUnits) ? storedUnits as LengthUnit : DEFAULT_CONFIG.units,
+    offset: {
+      mode: safeGetStorageItem(STORAGE_KEYS.OFFSET_MODE, DEFAULT_CONFIG.offset.mode) as 'auto' | 'manual',
+      value: safeGetStorageItem(STORAGE_KEYS.OFFSET_VALUE, DEFAULT_CONFIG.offset.value),
+      strategy: (SURGE_STRATEGY_IDS as readonly string[]).includes(storedStrategy)
+        ? storedStrategy as SurgeStrategyId
+        : DEFAULT_CONFIG.offset.strategy,
+      decayHours: Number.isFinite(decayHours) && decayHours > 0 ? decayHours : DEFAULT_CONFIG.offset.decayHours,
+      lookbackHours: Number.isFinite(surgeLookbackHours) && surgeLookbackHours > 0
+        ? surgeLookbackHours
+        : DEFAULT_CONFIG.offset.lookbackHours,
+    },
+    uncertainty: {
+      show: safeGetStorageItem(STORAGE_KEYS.UNCERTAINTY_SHOW, '1') === '1',
+      coverage: coverage > 0 && coverage < 1 ? coverage : DEFAULT_CONFIG.uncertainty.coverage,
+      historyHours: Number.isFinite(historyHours) && historyHours >= 0 ? historyHours : DEFAULT_CONFIG.uncertainty.historyHours,
+    },
+    guidance: {
+      url: safeGetStorageItem(STORAGE_KEYS.GUIDANCE_URL, DEFAULT_CONFIG.guidance.url),
+      units: (LENGTH_UNITS as readonly string[]).includes(guidanceUnits) ? guidanceUnits as LengthUnit : DEFAULT_CONFIG.guidance.units,
+      use: GUIDANCE_USES.some(u => u.value === guidanceUse) ? guidanceUse as GuidanceUse : DEFAULT_CONFIG.guidance.use,
+      blendHours: Number.isFinite(blendHours) && blendHours >= 0 ? blendHours : DEFAULT_CONFIG.guidance.blendHours,
+    },
+    meteo: {
+      showWind: safeGetStorageItem(STORAGE_KEYS.METEO_SHOW_WIND, '0') === '1',
+      showPressure: safeGetStorageItem(STORAGE_KEYS.METEO_SHOW_PRESSURE, '0') === '1',
+      shoreNormalDeg: Number.isFinite(shoreNormalDeg) && shoreNormalDeg >= 0 && shoreNormalDeg < 360
+        ? shoreNormalDeg
+        : DEFAULT_CONFIG.meteo.shoreNormalDeg,
+      useInSurge: safeGetStorageItem(STORAGE_KEYS.METEO_USE_IN_SURGE, '0') === '1',
+    },
+    planning: {
+      enabled: safeGetStorageItem(STORAGE_KEYS.PLANNING_ENABLED, '0') === '1',
+      targetYear: Number.isFinite(targetYear) && targetYear >= 2000 && targetYear <= 2100
+        ? targetYear
+        : DEFAULT_CONFIG.planning.targetYear,
+      scenario: (SLR_SCENARIO_IDS as readonly string[]).includes(scenario)
+        ? scenario as SlrScenarioId
+        : DEFAULT_CONFIG.planning.scenario,
+    },
+    timeRange: {
+      mode: safeGetStorageItem(STORAGE_KEYS.RANGE_MODE, DEFAULT_CONFIG.timeRange.mode) as 'relative' | 'absolute',
+      lookbackH: Number.isFinite(lookbackH) && lookbackH > 0 ? lookbackH : DEFAULT_CONFIG.timeRange.lookbackH,
+      lookaheadH: Number.isFinite(lookaheadH) && lookaheadH > 0 ? lookaheadH : DEFAULT_CONFIG.timeRange.lookaheadH,
+      absStart: safeGetStorageItem(STORAGE_KEYS.ABS_START, DEFAULT_CONFIG.timeRange.absStart),
+      absEnd: safeGetStorageItem(STORAGE_KEYS.ABS_END, DEFAULT_CONFIG.timeRange.absEnd),
+    },
+    display: {
+      timezone: safeGetStorageItem(STORAGE_KEYS.TIMEZONE, DEFAULT_CONFIG.display.timezone) as 'local' | 'gmt',
+      showDelta: safeGetStorageItem(STORAGE_KEYS.SHOW_DELTA, '0') === '1',
+      interpolateGaps: safeGetStorageItem(STORAGE_KEYS.INTERPOLATE_GAPS, '0') === '1',
+      theme: (() => {
+        const storedTheme = safeGetStorageItem(STORAGE_KEYS.THEME, DEFAULT_CONFIG.display.theme!);
+        return (storedTheme === 'auto' || storedTheme === 'light' || storedTheme === 'dark') ? storedTheme : DEFAULT_CONFIG.display.theme;
+      })(),
+    },
+  };
+}
+
 /**
  * Custom hook for managing application configuration with localStorage persistence
  * 
@@ -84,54 +386,59 @@ function safeSetStorageItem(key: string, value: string): void {
  */
 export function useSettingsStorage() {
   // Initialize configuration from localStorage or defaults
-  const [config, setConfig] = useState<AppConfiguration>(() => {
-    const storedThreshold = safeGetStorageItem(STORAGE_KEYS.THRESHOLD, String(DEFAULT_CONFIG.threshold));
-    const threshold = parseFloat(storedThreshold);
-    
-    const storedLookback = safeGetStorageItem(STORAGE_KEYS.LOOKBACK_H, String(DEFAULT_CONFIG.timeRange.lookbackH));
-    const lookbackH = parseInt(storedLookback, 10);
-    
-    const storedLookahead = safeGetStorageItem(STORAGE_KEYS.LOOKAHEAD_H, String(DEFAULT_CONFIG.timeRange.lookaheadH));
-    const lookaheadH = parseInt(storedLookahead, 10);
-    
-    return {
-      station: {
-        id: safeGetStorageItem(STORAGE_KEYS.STATION, DEFAULT_CONFIG.station.id),
-        name: DEFAULT_CONFIG.station.name,
-        state: DEFAULT_CONFIG.station.state,
-      },
-      threshold: Number.isFinite(threshold) && threshold > 0 ? threshold : DEFAULT_CONFIG.threshold,
-      offset: {
-        mode: safeGetStorageItem(STORAGE_KEYS.OFFSET_MODE, DEFAULT_CONFIG.offset.mode) as 'auto' | 'manual',
-        value: safeGetStorageItem(STORAGE_KEYS.OFFSET_VALUE, DEFAULT_CONFIG.offset.value),
-      },
-      timeRange: {
-        mode: safeGetStorageItem(STORAGE_KEYS.RANGE_MODE, DEFAULT_CONFIG.timeRange.mode) as 'relative' | 'absolute',
-        lookbackH: Number.isFinite(lookbackH) && lookbackH > 0 ? lookbackH : DEFAULT_CONFIG.timeRange.lookbackH,
-        lookaheadH: Number.isFinite(lookaheadH) && lookaheadH > 0 ? lookaheadH : DEFAULT_CONFIG.timeRange.lookaheadH,
-        absStart: safeGetStorageItem(STORAGE_KEYS.ABS_START, DEFAULT_CONFIG.timeRange.absStart),
-        absEnd: safeGetStorageItem(STORAGE_KEYS.ABS_END, DEFAULT_CONFIG.timeRange.absEnd),
-      },
-      display: {
-        timezone: safeGetStorageItem(STORAGE_KEYS.TIMEZONE, DEFAULT_CONFIG.display.timezone) as 'local' | 'gmt',
-        showDelta: safeGetStorageItem(STORAGE_KEYS.SHOW_DELTA, '0') === '1',
-        theme: (() => {
-          const storedTheme = safeGetStorageItem(STORAGE_KEYS.THEME, DEFAULT_CONFIG.display.theme!);
-          return (storedTheme === 'auto' || storedTheme === 'light' || storedTheme === 'dark') ? storedTheme : DEFAULT_CONFIG.display.theme;
-        })(),
-      },
-    };
-  });
+  const [config, setConfig] = useState<AppConfiguration>(loadStoredConfig);
+
+  // Starred stations are kept beside the configuration, so starring one doesn't
+  // change the config the chart data depends on
+  const [favoriteStations, setFavoriteStations] = useState<string[]>(loadFavoriteStations);
+  const [locations, setLocations] = useState<LocationState>(loadLocationState);
+
+  // No station was ever stored: the app runs for the first time. It stops
+  // counting as a first launch once any station other than the default is chosen
+  const [noStoredStation] = useState(() => safeGetStorageItem(STORAGE_KEYS.STATION, '') === '');
+  const firstLaunch = noStoredStation && config.station.id === DEFAULT_CONFIG.station.id;
 
   // Persist changes to localStorage when config updates
   useEffect(() => {
     safeSetStorageItem(STORAGE_KEYS.STATION, config.station.id);
   }, [config.station.id]);
 
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.FAVORITE_STATIONS, favoriteStations.join(','));
+  }, [favoriteStations]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.LOCATIONS, JSON.stringify(locations.savedLocations));
+  }, [locations.savedLocations]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.ACTIVE_LOCATION, locations.activeLocationId ?? '');
+  }, [locations.activeLocationId]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.RECENT_STATIONS, JSON.stringify(locations.recentStations));
+  }, [locations.recentStations]);
+
   useEffect(() => {
     safeSetStorageItem(STORAGE_KEYS.THRESHOLD, String(config.threshold));
   }, [config.threshold]);
 
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.THRESHOLD_MODERATE, config.tiers.moderate === null ? '' : String(config.tiers.moderate));
+  }, [config.tiers.moderate]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.THRESHOLD_MAJOR, config.tiers.major === null ? '' : String(config.tiers.major));
+  }, [config.tiers.major]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.DATUM, config.datum);
+  }, [config.datum]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.UNITS, config.units);
+  }, [config.units]);
+
   useEffect(() => {
     safeSetStorageItem(STORAGE_KEYS.OFFSET_MODE, config.offset.mode);
   }, [config.offset.mode]);
@@ -140,6 +447,74 @@ export function useSettingsStorage() {
     safeSetStorageItem(STORAGE_KEYS.OFFSET_VALUE, config.offset.value);
   }, [config.offset.value]);
 
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.OFFSET_STRATEGY, config.offset.strategy);
+  }, [config.offset.strategy]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.OFFSET_DECAY_H, config.offset.decayHours === null ? '' : String(config.offset.decayHours));
+  }, [config.offset.decayHours]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.OFFSET_LOOKBACK_H, String(config.offset.lookbackHours));
+  }, [config.offset.lookbackHours]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.UNCERTAINTY_SHOW, config.uncertainty.show ? '1' : '0');
+  }, [config.uncertainty.show]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.UNCERTAINTY_COVERAGE, String(config.uncertainty.coverage));
+  }, [config.uncertainty.coverage]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.UNCERTAINTY_HISTORY_H, String(config.uncertainty.historyHours));
+  }, [config.uncertainty.historyHours]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.GUIDANCE_URL, config.guidance.url);
+  }, [config.guidance.url]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.GUIDANCE_UNITS, config.guidance.units);
+  }, [config.guidance.units]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.GUIDANCE_USE, config.guidance.use);
+  }, [config.guidance.use]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.GUIDANCE_BLEND_H, String(config.guidance.blendHours));
+  }, [config.guidance.blendHours]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.METEO_SHOW_WIND, config.meteo.showWind ? '1' : '0');
+  }, [config.meteo.showWind]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.METEO_SHOW_PRESSURE, config.meteo.showPressure ? '1' : '0');
+  }, [config.meteo.showPressure]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.METEO_SHORE_NORMAL, String(config.meteo.shoreNormalDeg));
+  }, [config.meteo.shoreNormalDeg]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.METEO_USE_IN_SURGE, config.meteo.useInSurge ? '1' : '0');
+  }, [config.meteo.useInSurge]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.PLANNING_ENABLED, config.planning.enabled ? '1' : '0');
+  }, [config.planning.enabled]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.PLANNING_YEAR, String(config.planning.targetYear));
+  }, [config.planning.targetYear]);
+
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.PLANNING_SCENARIO, config.planning.scenario);
+  }, [config.planning.scenario]);
+
   useEffect(() => {
     safeSetStorageItem(STORAGE_KEYS.LOOKBACK_H, String(config.timeRange.lookbackH));
   }, [config.timeRange.lookbackH]);
@@ -168,6 +543,10 @@ export function useSettingsStorage() {
     safeSetStorageItem(STORAGE_KEYS.SHOW_DELTA, config.display.showDelta ? '1' : '0');
   }, [config.display.showDelta]);
 
+  useEffect(() => {
+    safeSetStorageItem(STORAGE_KEYS.INTERPOLATE_GAPS, config.display.interpolateGaps ? '1' : '0');
+  }, [config.display.interpolateGaps]);
+
   useEffect(() => {
     const theme = config.display.theme ?? 'auto';
     safeSetStorageItem(STORAGE_KEYS.THEME, theme);
@@ -180,15 +559,73 @@ export function useSettingsStorage() {
   }, [config.display.theme]);
 
   // Update functions for different configuration sections
+  /**
+   * Change the station or fill in its details, remembering it as recently viewed.
+   * Picking a different station leaves the active saved location.
+   */
   const updateStation = useCallback((station: Partial<AppConfiguration['station']>) => {
+    setConfig(prev => ({ ...prev, station: { ...prev.station, ...station } }));
+    const { id, name = '', state } = station;
+    if (!id) return;
+    setLocations(prev => {
+      const active = prev.savedLocations.find(l => l.id === prev.activeLocationId);
+      return {
+        ...prev,
+        activeLocationId: active?.station.id === id ? prev.activeLocationId : null,
+        recentStations: rememberStation(prev.recentStations, { id, name, state }),
+      };
+    });
+  }, []);
+
+  const toggleFavoriteStation = useCallback((stationId: string) => {
+    setFavoriteStations(prev => (prev.includes(stationId)
+      ? prev.filter(id => id !== stationId)
+      : [...prev, stationId]));
+  }, []);
+
+  const updateThreshold = useCallback((threshold: number) => {
+    setConfig(prev => ({ ...prev, threshold }));
+  }, []);
+
+  const updateTiers = useCallback((tiers: Partial<TierThresholds>) => {
     setConfig(prev => ({
       ...prev,
-      station: { ...prev.station, ...station },
+      tiers: { ...prev.tiers, ...tiers },
     }));
   }, []);
 
-  const updateThreshold = useCallback((threshold: number) => {
-    setConfig(prev => ({ ...prev, threshold }));
+  /**
+   * Switch the vertical datum, shifting the threshold and tiers by the height
+   * difference between the datums so they keep describing the same water levels
+   * @param datum New datum
+   * @param shift Height of the old datum above the new one, in the configured unit
+   */
+  const updateDatum = useCallback((datum: Datum, shift: number) => {
+    setConfig(prev => ({
+      ...mapThresholds(prev, value => roundLength(value + shift, prev.units)),
+      datum,
+    }));
+  }, []);
+
+  /**
+   * Switch the length unit, converting the thresholds and manual offset so they
+   * keep describing the same water level
+   */
+  const updateUnits = useCallback((units: LengthUnit) => {
+    setConfig(prev => {
+      if (prev.units === units) return prev;
+      const manual = parseFloat(prev.offset.value);
+      return {
+        ...mapThresholds(prev, value => roundLength(convertLength(value, prev.units, units), units)),
+        units,
+        offset: {
+          ...prev.offset,
+          value: Number.isNaN(manual)
+            ? prev.offset.value
+            : String(roundLength(convertLength(manual, prev.units, units), units)),
+        },
+      };
+    });
   }, []);
 
   const updateOffset = useCallback((offset: Partial<OffsetConfig>) => {
@@ -198,6 +635,34 @@ export function useSettingsStorage() {
     }));
   }, []);
 
+  const updateUncertainty = useCallback((uncertainty: Partial<UncertaintyConfig>) => {
+    setConfig(prev => ({
+      ...prev,
+      uncertainty: { ...prev.uncertainty, ...uncertainty },
+    }));
+  }, []);
+
+  const updateGuidance = useCallback((guidance: Partial<GuidanceConfig>) => {
+    setConfig(prev => ({
+      ...prev,
+      guidance: { ...prev.guidance, ...guidance },
+    }));
+  }, []);
+
+  const updateMeteo = useCallback((meteo: Partial<MeteoConfig>) => {
+    setConfig(prev => ({
+      ...prev,
+      meteo: { ...prev.meteo, ...meteo },
+    }));
+  }, []);
+
+  const updatePlanning = useCallback((planning: Partial<PlanningConfig>) => {
+    setConfig(prev => ({
+      ...prev,
+      planning: { ...prev.planning, ...planning },
+    }));
+  }, []);
+
   const updateTimeRange = useCallback((timeRange: Partial<TimeRange>) => {
     setConfig(prev => ({
       ...prev,
@@ -212,11 +677,102 @@ export function useSettingsStorage() {
     }));
   }, []);
 
+  /**
+   * Save the current station and flood settings as a location, or overwrite
+   * an existing location with them. The location becomes the active one.
+   * @param nickname Location name
+   * @param id Location to overwrite; a new location is added when omitted
+   */
+  const saveLocation = useCallback((nickname: string, id?: string) => {
+    const locationId = id ?? `loc-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    const location = snapshotLocation(config, locationId, nickname);
+    setLocations(prev => {
+      const exists = prev.savedLocations.some(l => l.id === locationId);
+      return {
+        ...prev,
+        savedLocations: exists
+          ? prev.savedLocations.map(l => (l.id === locationId ? location : l))
+          : [...prev.savedLocations, location],
+        activeLocationId: locationId,
+      };
+    });
+  }, [config]);
+
+  const updateSavedLocation = useCallback((id: string, changes: Partial<Omit<SavedLocation, 'id'>>) => {
+    setLocations(prev => ({
+      ...prev,
+      savedLocations: prev.savedLocations.map(l => (l.id === id ? { ...l, ...changes } : l)),
+    }));
+  }, []);
+
+  const removeSavedLocation = useCallback((id: string) => {
+    setLocations(prev => ({
+      ...prev,
+      savedLocations: prev.savedLocations.filter(l => l.id !== id),
+      activeLocationId: prev.activeLocationId === id ? null : prev.activeLocationId,
+    }));
+  }, []);
+
+  /**
+   * Switch to a saved location: its station, flood levels, datum and offset.
+   * Levels saved in another unit are converted to the configured unit.
+   * @param id Location to switch to
+   */
+  const applySavedLocation = useCallback((id: string) => {
+    const location = locations.savedLocations.find(l => l.id === id);
+    if (!location) return;
+    setConfig(prev => {
+      const convert = (value: number) => roundLength(convertLength(value, location.units, prev.units), prev.units);
+      const manual = parseFloat(location.offsetValue);
+      return {
+        ...mapThresholds({ ...prev, threshold: location.threshold, tiers: location.tiers }, convert),
+        station: { ...location.station },
+        datum: location.datum,
+        offset: {
+          ...prev.offset,
+          mode: location.offsetMode,
+          value: Number.isNaN(manual) ? location.offsetValue : String(convert(manual)),
+        },
+      };
+    });
+    setLocations(prev => ({
+      ...prev,
+      activeLocationId: id,
+      recentStations: rememberStation(prev.recentStations, location.station),
+    }));
+  }, [locations.savedLocations]);
+
+  /**
+   * Re-read configuration from storage, e.g. when a page becomes visible
+   * after settings were changed on another page
+   */
+  const reload = useCallback(() => {
+    setConfig(loadStoredConfig());
+    setFavoriteStations(loadFavoriteStations());
+    setLocations(loadLocationState());
+  }, []);
+
   return {
     config,
+    favoriteStations,
+    ...locations,
+    reload,
+    firstLaunch,
     updateStation,
+    toggleFavoriteStation,
+    saveLocation,
+    updateSavedLocation,
+    removeSavedLocation,
+    applySavedLocation,
     updateThreshold,
+    updateTiers,
+    updateDatum,
+    updateUnits,
     updateOffset,
+    updateUncertainty,
+    updateGuidance,
+    updateMeteo,
+    updatePlanning,
     updateTimeRange,
     updateDisplay,
   };
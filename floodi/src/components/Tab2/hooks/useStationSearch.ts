@@ -1,12 +1,32 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import type { Station, StationSearchState } from '../types';
+import { GeolocationError, getCurrentPosition, rankByDistance } from '../../../lib/geo';
+import { fetchFloodLevels, fetchLatestObservation, fetchStationDatums, fetchStationDetails } from '../../../lib/noaa';
+import type { GeoPosition } from '../../../lib/geo';
+import { buildStationIndex, searchStations } from '../../../lib/stationSearch';
+import type { StationFilters, StationIndex } from '../../../lib/stationSearch';
+import type { Station, StationDetail, StationDetailState, StationResult, StationSearchState } from '../types';
 
 /**
  * Cache key and expiration time for station data
  */
-const STATIONS_CACHE_KEY = 'floodi.stations.cache.v1';
+const STATIONS_CACHE_KEY = 'floodi.stations.cache.v2';
 const CACHE_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
 
+/**
+ * Cache key for station details and the number of stations kept
+ */
+const DETAILS_CACHE_KEY = 'floodi.stations.details.v1';
+const MAX_CACHED_DETAILS = 20;
+
+/** Detail sheet state before any station is shown */
+const EMPTY_DETAIL: StationDetailState = {
+  stationId: null,
+  data: null,
+  latestObservation: null,
+  loading: false,
+  error: null,
+};
+
 /**
  * Safely access localStorage with error handling
  */
@@ -34,14 +54,15 @@ function safeSetStorageItem(key: string, value: string): void {
 
 /**
  * Load cached station data if available and not expired
+ * @param allowStale Also return expired data (offline fallback)
  */
-function loadCachedStations(): Station[] {
+function loadCachedStations(allowStale: boolean = false): Station[] {
   const cached = safeGetStorageItem(STATIONS_CACHE_KEY);
   if (!cached) return [];
 
   try {
     const { ts, data } = JSON.parse(cached);
-    if (Array.isArray(data) && Date.now() - (ts || 0) < CACHE_EXPIRY_MS) {
+    if (Array.isArray(data) && (allowStale || Date.now() - (ts || 0) < CACHE_EXPIRY_MS)) {
       return data;
     }
   } catch {
@@ -59,6 +80,71 @@ function cacheStations(stations: Station[]): void {
   safeSetStorageItem(STATIONS_CACHE_KEY, JSON.stringify(cacheData));
 }
 
+/**
+ * Read the cached details of all stations viewed recently
+ */
+function loadCachedDetailsMap(): Record<string, StationDetail> {
+  try {
+    const parsed = JSON.parse(safeGetStorageItem(DETAILS_CACHE_KEY) ?? '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Load cached station details
+ * @param stationId Station to look up
+ * @param allowStale Also return expired details (offline fallback)
+ */
+function loadCachedDetail(stationId: string, allowStale: boolean = false): StationDetail | null {
+  const detail = loadCachedDetailsMap()[stationId];
+  if (!detail || typeof detail.fetchedAt !== 'number') return null;
+  return allowStale || Date.now() - detail.fetchedAt < CACHE_EXPIRY_MS ? detail : null;
+}
+
+/**
+ * Cache station details, keeping the most recently fetched stations
+ */
+function cacheDetail(detail: StationDetail): void {
+  const entries = Object.values({ ...loadCachedDetailsMap(), [detail.station.id]: detail })
+    .sort((a, b) => b.fetchedAt - a.fetchedAt)
+    .slice(0, MAX_CACHED_DETAILS);
+  safeSetStorageItem(DETAILS_CACHE_KEY, JSON.stringify(Object.fromEntries(entries.map(d => [d.station.id, d]))));
+}
+
+/**
+ * Fetch a station's metadata, datums and flood levels
+ *
+ * The station itself (name, state, location) comes from the station list.
+ * Missing datums or flood levels leave those sections empty rather than
+ * failing the whole sheet.
+ *
+ * @param stationId NOAA station ID
+ * @returns Station details in feet above STND
+ * @throws When neither the metadata nor the datums can be fetched
+ */
+async function fetchStationDetail(stationId: string): Promise<StationDetail> {
+  const [stations, details, datums, floodLevels] = await Promise.allSettled([
+    loadStationList(),
+    fetchStationDetails({ station: stationId }),
+    fetchStationDatums({ station: stationId }),
+    fetchFloodLevels({ station: stationId }),
+  ]);
+  if (details.status === 'rejected' && datums.status === 'rejected') {
+    throw details.reason;
+  }
+
+  const listed = stations.status === 'fulfilled' ? stations.value.find(s => s.id === stationId) : undefined;
+  return {
+    station: listed ?? { id: stationId, name: '' },
+    details: details.status === 'fulfilled' ? details.value : null,
+    datums: datums.status === 'fulfilled' ? datums.value : {},
+    floodLevels: floodLevels.status === 'fulfilled' ? floodLevels.value : [],
+    fetchedAt: Date.now(),
+  };
+}
+
 /**
  * Fetch all NOAA water level stations
  */
@@ -80,30 +166,92 @@ async function fetchAllStations(): Promise<Station[]> {
     state: station.state,
     lat: station.lat,
     lon: station.lon,
+    hasPredictions: typeof station.tidal === 'boolean' ? station.tidal : undefined,
   }));
 }
 
 /**
- * Filter stations based on search query
+ * Load the station list: the fresh cache, else NOAA, else the expired cache
+ *
+ * The station list changes rarely, so an expired copy keeps search and the
+ * nearby ranking working offline.
+ *
+ * @returns All water level stations
+ * @throws When NOAA is unreachable and nothing was ever cached
+ */
+export async function loadStationList(): Promise<Station[]> {
+  const cached = loadCachedStations();
+  if (cached.length > 0) return cached;
+
+  try {
+    const stations = await fetchAllStations();
+    cacheStations(stations);
+    return stations;
+  } catch (error) {
+    const stale = loadCachedStations(true);
+    if (stale.length > 0) return stale;
+    throw error;
+  }
+}
+
+/** Maximum number of search results shown */
+const RESULT_LIMIT = 25;
+
+/** Search indexes of station lists, built on their first search */
+const stationIndexes = new WeakMap<Station[], StationIndex<Station>>();
+
+/**
+ * Search index of a station list, built once per list
+ * @param stations Array of all stations
+ * @returns Index for searchStations
+ */
+function indexFor(stations: Station[]): StationIndex<Station> {
+  let index = stationIndexes.get(stations);
+  if (!index) {
+    index = buildStationIndex(stations);
+    stationIndexes.set(stations, index);
+  }
+  return index;
+}
+
+/**
+ * Search results for a query, ranked by relevance, or by distance in nearby mode
  * @param stations Array of all stations
  * @param query Search query string
- * @param limit Maximum number of results to return
- * @returns Filtered stations array
+ * @param position Device position for the nearby ranking, null for text search
+ * @param filters State and prediction filters
+ * @returns Matching stations with their highlights, closest first when a position is given
  */
-function filterStations(stations: Station[], query: string, limit: number = 25): Station[] {
-  const searchQuery = query.trim().toLowerCase();
-  
-  if (!searchQuery) {
-    return stations.slice(0, limit);
+function resultsFor(
+  stations: Station[],
+  query: string,
+  position: GeoPosition | null,
+  filters: StationFilters
+): StationResult[] {
+  const matches = searchStations(indexFor(stations), query, {
+    filters,
+    limit: position ? Infinity : RESULT_LIMIT,
+  }).map(({ station, highlights }) => ({ ...station, highlights }));
+  return position ? rankByDistance(matches, position, RESULT_LIMIT) : matches;
+}
+
+/**
+ * Explain a failure to find the device position
+ * @param error Error from getCurrentPosition or the station list
+ * @returns Message for the station selector
+ */
+function describeLocationError(error: unknown): string {
+  if (error instanceof GeolocationError) {
+    switch (error.reason) {
+      case 'denied':
+        return 'Location access is off. Allow it in your settings to find nearby stations.';
+      case 'timeout':
+        return 'Could not determine your location in time. Try again.';
+      default:
+        return 'Location is not available on this device.';
+    }
   }
-  
-  return stations
-    .filter(station => 
-      station.id.includes(searchQuery) ||
-      station.name.toLowerCase().includes(searchQuery) ||
-      (station.state || '').toLowerCase().includes(searchQuery)
-    )
-    .slice(0, limit);
+  return error instanceof Error ? error.message : 'Failed to find nearby stations';
 }
 
 /**
@@ -115,7 +263,8 @@ function filterStations(stations: Station[], query: string, limit: number = 25):
  * @returns Station search state and control functions
  */
 export function useStationSearch(initialStationId: string) {
-  const [searchState, setSearchState] = useState<StationSearchState>({
+  // Lazy initial state: the cached list is parsed once, not on every render
+  const [searchState, setSearchState] = useState<StationSearchState>(() => ({
     allStations: loadCachedStations(),
     searchResults: [],
     loading: false,
@@ -123,7 +272,13 @@ export function useStationSearch(initialStationId: string) {
     searchQuery: '',
     selectedIndex: -1,
     menuOpen: false,
-  });
+    mode: 'search',
+    position: null,
+    locating: false,
+    locationError: null,
+    filters: { state: null, hasPredictions: false },
+    detail: EMPTY_DETAIL,
+  }));
 
   /**
    * Load all stations on first use
@@ -136,8 +291,7 @@ export function useStationSearch(initialStationId: string) {
     setSearchState(prev => ({ ...prev, loading: true, error: null }));
 
     try {
-      const stations = await fetchAllStations();
-      cacheStations(stations);
+      const stations = await loadStationList();
       
       setSearchState(prev => ({
         ...prev,
@@ -158,7 +312,7 @@ export function useStationSearch(initialStationId: string) {
    */
   const setSearchQuery = useCallback((query: string) => {
     setSearchState(prev => {
-      const filtered = filterStations(prev.allStations, query);
+      const filtered = resultsFor(prev.allStations, query, prev.mode === 'nearby' ? prev.position : null, prev.filters);
       return {
         ...prev,
         searchQuery: query,
@@ -168,6 +322,123 @@ export function useStationSearch(initialStationId: string) {
     });
   }, []);
 
+  /**
+   * Rank stations by distance from the device
+   *
+   * Works offline from the cached station list; the device position comes
+   * from the location service, not the network.
+   */
+  const showNearby = useCallback(async () => {
+    setSearchState(prev => ({ ...prev, mode: 'nearby', locating: true, locationError: null }));
+
+    try {
+      const [position, stations] = await Promise.all([
+        getCurrentPosition(),
+        searchState.allStations.length > 0 ? Promise.resolve(searchState.allStations) : loadStationList(),
+      ]);
+
+      setSearchState(prev => {
+        // Switched back to text search while locating
+        if (prev.mode !== 'nearby') return { ...prev, allStations: stations, locating: false };
+        const results = resultsFor(stations, prev.searchQuery, position, prev.filters);
+        return {
+          ...prev,
+          allStations: stations,
+          position,
+          locating: false,
+          searchResults: results,
+          selectedIndex: results.length > 0 ? 0 : -1,
+        };
+      });
+    } catch (error) {
+      setSearchState(prev => ({
+        ...prev,
+        mode: 'search',
+        locating: false,
+        locationError: describeLocationError(error),
+      }));
+    }
+  }, [searchState.allStations]);
+
+  /**
+   * Return to text search over all stations
+   */
+  const showSearch = useCallback(() => {
+    setSearchState(prev => {
+      const results = resultsFor(prev.allStations, prev.searchQuery, null, prev.filters);
+      return {
+        ...prev,
+        mode: 'search',
+        locating: false,
+        searchResults: results,
+        selectedIndex: results.length > 0 ? 0 : -1,
+      };
+    });
+  }, []);
+
+  /**
+   * Restrict results by state or to stations with tide predictions
+   */
+  const setFilters = useCallback((filters: Partial<StationFilters>) => {
+    setSearchState(prev => {
+      const next = { ...prev.filters, ...filters };
+      const results = resultsFor(prev.allStations, prev.searchQuery, prev.mode === 'nearby' ? prev.position : null, next);
+      return {
+        ...prev,
+        filters: next,
+        searchResults: results,
+        selectedIndex: results.length > 0 ? 0 : -1,
+      };
+    });
+  }, []);
+
+  /**
+   * States with stations, for the state filter
+   */
+  const availableStates = useMemo(
+    () => [...new Set(searchState.allStations.map(s => s.state).filter((state): state is string => !!state))].sort(),
+    [searchState.allStations]
+  );
+
+  /**
+   * Show a station's details: cached metadata right away, refreshed when
+   * expired, and a fresh latest observation
+   * @param stationId Station to show
+   * @param datum Datum of the latest observation
+   */
+  const loadDetail = useCallback(async (stationId: string, datum: string = 'MLLW') => {
+    const cached = loadCachedDetail(stationId);
+    setSearchState(prev => ({
+      ...prev,
+      detail: { stationId, data: cached ?? loadCachedDetail(stationId, true), latestObservation: null, loading: true, error: null },
+    }));
+
+    const [data, latest] = await Promise.allSettled([
+      cached ? Promise.resolve(cached) : fetchStationDetail(stationId),
+      fetchLatestObservation({ station: stationId, datum }),
+    ]);
+    if (data.status === 'fulfilled' && data.value !== cached) {
+      cacheDetail(data.value);
+    }
+
+    setSearchState(prev => {
+      // Another station was opened meanwhile
+      if (prev.detail.stationId !== stationId) return prev;
+      return {
+        ...prev,
+        detail: {
+          stationId,
+          data: data.status === 'fulfilled' ? data.value : prev.detail.data,
+          latestObservation: latest.status === 'fulfilled' ? latest.value : null,
+          loading: false,
+          error: data.status === 'rejected' && !prev.detail.data
+            ? (data.reason instanceof Error ? data.reason.message : 'Failed to load station details')
+            : null,
+        },
+      };
+    });
+  }, []);
+
   /**
    * Open search menu
    */
@@ -238,12 +509,14 @@ export function useStationSearch(initialStationId: string) {
   // Initialize search results when stations are loaded
   useEffect(() => {
     if (searchState.allStations.length > 0 && searchState.searchResults.length === 0 && !searchState.searchQuery) {
-      const initial = filterStations(searchState.allStations, '');
-      setSearchState(prev => ({ 
-        ...prev, 
-        searchResults: initial,
-        selectedIndex: initial.length > 0 ? 0 : -1,
-      }));
+      setSearchState(prev => {
+        const initial = resultsFor(prev.allStations, '', null, prev.filters);
+        return {
+          ...prev,
+          searchResults: initial,
+          selectedIndex: initial.length > 0 ? 0 : -1,
+        };
+      });
     }
   }, [searchState.allStations.length, searchState.searchResults.length, searchState.searchQuery]);
 
@@ -257,5 +530,10 @@ export function useStationSearch(initialStationId: string) {
     setSelectedIndex,
     getStationDisplayName,
     loadStations,
+    showNearby,
+    showSearch,
+    setFilters,
+    availableStates,
+    loadDetail,
   };
 }
\ No newline at end of file
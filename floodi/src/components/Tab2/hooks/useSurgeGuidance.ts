@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { fetchSurgeGuidance, parseSurgeGuidance } from '../../../lib/guidance';
+import type { SurgeGuidance } from '../../../lib/guidance';
+import { isAbortError } from '../../../lib/noaa';
+import type { GuidanceConfig } from '../types';
+
+/** Storage key of the last imported guidance file */
+const IMPORTED_GUIDANCE_KEY = 'floodi.guidance.file';
+
+/**
+ * Read the last imported guidance file from localStorage
+ * @returns Stored guidance or null
+ */
+function loadImportedGuidance(): SurgeGuidance | null {
+  try {
+    const stored = window.localStorage.getItem(IMPORTED_GUIDANCE_KEY);
+    if (!stored) return null;
+    const guidance = JSON.parse(stored) as SurgeGuidance;
+    return Array.isArray(guidance.points) && guidance.points.length > 0 ? guidance : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store (or with null, forget) an imported guidance file
+ * @param guidance Guidance to keep across sessions
+ */
+function storeImportedGuidance(guidance: SurgeGuidance | null): void {
+  try {
+    if (guidance) window.localStorage.setItem(IMPORTED_GUIDANCE_KEY, JSON.stringify(guidance));
+    else window.localStorage.removeItem(IMPORTED_GUIDANCE_KEY);
+  } catch {
+    // Storage may be unavailable or full; the guidance stays loaded for this session
+  }
+}
+
+/**
+ * Custom hook for loading external surge guidance
+ *
+ * With a URL configured the guidance is fetched on mount, when the URL changes
+ * and on `reload`. Otherwise the last imported file is used; imports are kept
+ * in localStorage so they survive restarts.
+ *
+ * @param config Guidance settings
+ * @returns Loaded guidance, loading state and import/reload/clear actions
+ */
+export function useSurgeGuidance(config: GuidanceConfig) {
+  const [state, setState] = useState<{
+    guidance: SurgeGuidance | null;
+    loading: boolean;
+    error: Error | null;
+  }>({ guidance: null, loading: false, error: null });
+
+  const abortRef = useRef<AbortController | null>(null);
+  const url = config.url.trim();
+
+  const reload = useCallback(async () => {
+    abortRef.current?.abort();
+    if (!url) {
+      setState({ guidance: loadImportedGuidance(), loading: false, error: null });
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const guidance = await fetchSurgeGuidance(url, { signal: controller.signal });
+      setState({ guidance, loading: false, error: null });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      setState({ guidance: null, loading: false, error: error instanceof Error ? error : new Error(String(error)) });
+    }
+  }, [url]);
+
+  useEffect(() => {
+    reload();
+    return () => abortRef.current?.abort();
+  }, [reload]);
+
+  /**
+   * Import guidance from a user-selected file
+   * @param file CSV or JSON file
+   * @returns True when the file was loaded
+   */
+  const importFile = useCallback(async (file: File): Promise<boolean> => {
+    try {
+      const guidance = parseSurgeGuidance(await file.text(), { source: file.name });
+      storeImportedGuidance(guidance);
+      setState({ guidance, loading: false, error: null });
+      return true;
+    } catch (error) {
+      setState(prev => ({ ...prev, error: error instanceof Error ? error : new Error(String(error)) }));
+      return false;
+    }
+  }, []);
+
+  /** Drop the loaded guidance and any stored import */
+  const clear = useCallback(() => {
+    abortRef.current?.abort();
+    storeImportedGuidance(null);
+    setState({ guidance: null, loading: false, error: null });
+  }, []);
+
+  return { ...state, reload, importFile, clear };
+}
@@ -10,29 +10,63 @@
 export { ChartViewer } from './ChartViewer';
 export { SettingsModal } from './SettingsModal';
 export { StationSelector } from './StationSelector';
+export { StationMap } from './StationMap';
+export { StationDetailSheet } from './StationDetailSheet';
+export { LocationSwitcher } from './LocationSwitcher';
+export { SavedLocationsSettings } from './SavedLocationsSettings';
 export { FloodSettings } from './FloodSettings';
 export { TimeSettings } from './TimeSettings';
 export { DisplaySettings } from './DisplaySettings';
+export { FloodEventList } from './FloodEventList';
+export { GuidanceSettings } from './GuidanceSettings';
+export { MeteoSettings } from './MeteoSettings';
+export { MeteoPanels } from './MeteoPanels';
+export { PlanningSettings } from './PlanningSettings';
+export { PlanningOutlook } from './PlanningOutlook';
 
 // Custom Hooks
 export { useChartData } from './hooks/useChartData';
 export { useSettingsStorage } from './hooks/useSettingsStorage';
 export { useStationSearch } from './hooks/useStationSearch';
 export { useChartInteraction } from './hooks/useChartInteraction';
+export { useFloodLevels } from './hooks/useFloodLevels';
+export { useSurgeGuidance } from './hooks/useSurgeGuidance';
+export { usePlanningScenario } from './hooks/usePlanningScenario';
+export { useNearestStation } from './hooks/useNearestStation';
 
 // Type Definitions
 export type {
   Point,
   Station,
+  StationResult,
+  StationDetail,
+  StationDetailState,
   ChartData,
   ChartConfig,
   TimeRange,
   OffsetConfig,
+  UncertaintyConfig,
+  GuidanceConfig,
+  MeteoConfig,
+  WindPoint,
+  PlanningConfig,
+  PlanningSummary,
+  ScenarioOutlook,
+  BandPoint,
+  TierThresholds,
+  SavedLocation,
+  RecentStation,
+  LocationState,
   AppConfiguration,
   ChartInteraction,
   DataState,
+  CacheStatus,
+  SeriesName,
+  SeriesLoading,
+  SeriesErrors,
   StationSearchState,
   ThresholdCrossing,
+  FloodLevelPreset,
   ChartSegment,
 } from './types';
 
@@ -0,0 +1,93 @@
+/**
+ * Load status helpers shared by the Tab2 page and its refactored component
+ *
+ * Turn series names, load errors and cache ages into the text shown around
+ * the chart while data loads or after some or all of it fails.
+ */
+
+import {
+  NOAAHttpError,
+  NOAAInvalidRequestError,
+  NOAANoDataError,
+  NOAAOfflineError,
+  NOAARateLimitError,
+} from '../../lib/noaa';
+import type { SeriesErrors, SeriesName } from './types';
+
+/** Human-readable names for each chart series */
+export const SERIES_LABELS: Record<SeriesName, string> = {
+  observed: 'observations',
+  predicted: 'predictions',
+  adjusted: 'surge-adjusted forecast',
+  meteo: 'wind and pressure',
+};
+
+/**
+ * Map a data loading error to an actionable title, message and recovery action
+ * @param error Error thrown while loading NOAA data
+ * @returns Display text and whether the user should change station rather than retry
+ */
+export function describeLoadError(error: Error): { title: string; message: string; changeStation: boolean } {
+  if (error instanceof NOAAOfflineError) {
+    return {
+      title: "You're offline",
+      message: 'Check your internet connection and try again.',
+      changeStation: false,
+    };
+  }
+  if (error instanceof NOAARateLimitError) {
+    return {
+      title: 'NOAA is busy',
+      message: 'Too many requests were made in a short time. Wait a minute and try again.',
+      changeStation: false,
+    };
+  }
+  if (error instanceof NOAANoDataError) {
+    return {
+      title: 'No data for this period',
+      message: 'This station has no data for the selected time range. Try a different range or station.',
+      changeStation: true,
+    };
+  }
+  if (error instanceof NOAAInvalidRequestError) {
+    return {
+      title: 'Station not supported',
+      message: `NOAA rejected the request for this station (${error.message}). Choose another station.`,
+      changeStation: true,
+    };
+  }
+  if (error instanceof NOAAHttpError && error.status >= 500) {
+    return {
+      title: 'NOAA service unavailable',
+      message: `NOAA's servers returned an error (${error.status}). Try again shortly.`,
+      changeStation: false,
+    };
+  }
+  return { title: 'Failed to load data', message: error.message, changeStation: false };
+}
+
+/**
+ * Describe the series that failed while the rest of the chart loaded
+ * @param errors Failures of individual series
+ * @returns One line per failed series in chart order, e.g. "Couldn't load observations (You're offline)"
+ */
+export function describeSeriesErrors(errors: SeriesErrors): string[] {
+  return (Object.keys(SERIES_LABELS) as SeriesName[]).flatMap(name => {
+    const error = errors[name];
+    return error ? [`Couldn't load ${SERIES_LABELS[name]} (${describeLoadError(error).title})`] : [];
+  });
+}
+
+/**
+ * Format how long ago data was fetched, e.g. "just now", "12 min ago", "3 h ago"
+ * @param fetchedAt When the data was fetched
+ * @returns Human-readable age
+ */
+export function formatDataAge(fetchedAt: Date): string {
+  const minutes = Math.floor((Date.now() - fetchedAt.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} days ago`;
+}
@@ -0,0 +1,18 @@
+/**
+ * Saved location helpers shared by the header switcher and settings
+ */
+
+import { formatLength } from '../../lib/units';
+import type { SavedLocation } from './types';
+
+/**
+ * One-line summary of a saved location's settings
+ *
+ * @param location Saved location
+ * @returns e.g. "Wilmington (8658120) · 6.1 ft MLLW · auto offset"
+ */
+export function describeSavedLocation(location: SavedLocation): string {
+  const { station } = location;
+  const stationLabel = station.name ? `${station.name} (${station.id})` : station.id;
+  return `${stationLabel} · ${formatLength(location.threshold, location.units)} ${location.datum} · ${location.offsetMode} offset`;
+}
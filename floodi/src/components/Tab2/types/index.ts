@@ -2,10 +2,39 @@
  * Type definitions for Tab2 (FloodCast) components
  */
 
+import type { GeoPosition } from '../../../lib/geo';
+import type { GuidanceUse } from '../../../lib/guidance';
+import type { MeteoSurgeFit } from '../../../lib/meteo';
+import type { Datum, FloodLevel, FloodTier, ObservationFlags, ObservationSeries, StationDatums, StationDetails, WindObservation, WindSeries } from '../../../lib/noaa';
+import type { LengthUnit } from '../../../lib/units';
+import type { ExceedanceStats, SlrScenario, SlrScenarioId } from '../../../lib/slr';
+import type { MatchHighlights, StationFilters } from '../../../lib/stationSearch';
+import type { SurgeModel, SurgeResidual, SurgeStrategyId } from '../../../lib/surge';
+
 /** Data point for chart series */
 export interface Point {
   t: Date;
   v: number;
+  /** NOAA QA level (observed points only) */
+  quality?: 'preliminary' | 'verified';
+  /** NOAA quality flags (observed points only) */
+  flags?: ObservationFlags;
+  /** Probability (0–1) of exceeding the flood threshold (future adjusted points only) */
+  exceedance?: number;
+  /** True for values bridging a gap in the observations; never NOAA data */
+  interpolated?: boolean;
+}
+
+/** Wind observation for the wind panel */
+export interface WindPoint extends WindObservation {
+  t: Date;
+}
+
+/** Uncertainty envelope around the adjusted forecast at one time */
+export interface BandPoint {
+  t: Date;
+  lower: number;
+  upper: number;
 }
 
 /** Station information from NOAA API */
@@ -15,15 +44,63 @@ export interface Station {
   state?: string;
   lat?: number;
   lon?: number;
+  /** Whether NOAA publishes tide predictions for the station (false for non-tidal and Great Lakes stations) */
+  hasPredictions?: boolean;
+}
+
+/** Station search result; nearby results carry distance and bearing from the device, text matches their highlights */
+export interface StationResult extends Station {
+  /** Great-circle distance from the device (km) */
+  distanceKm?: number;
+  /** Bearing from the device to the station (degrees true) */
+  bearingDeg?: number;
+  /** Characters matching the search query */
+  highlights?: MatchHighlights;
+}
+
+/**
+ * Everything known about a station, cached with the station list.
+ * Heights are in feet above station datum (STND), as fetched.
+ */
+export interface StationDetail {
+  station: Station;
+  /** Service dates, products and sensors; null if the metadata could not be fetched */
+  details: StationDetails | null;
+  datums: StationDatums;
+  floodLevels: FloodLevel[];
+  /** When the metadata was fetched (epoch ms) */
+  fetchedAt: number;
+}
+
+/** Station detail sheet state */
+export interface StationDetailState {
+  stationId: string | null;
+  data: StationDetail | null;
+  /** Latest water level observation, in feet above the requested datum; never cached */
+  latestObservation: { t: Date; v: number } | null;
+  loading: boolean;
+  error: string | null;
 }
 
 /** Chart data series */
 export interface ChartData {
-  observed: Record<string, number>;
+  observed: ObservationSeries;
   predicted: Record<string, number>;
   adjusted: Record<string, number>;
   offset: number | null;
+  /** Auto surge model (in the configured unit) the adjusted series was built from */
+  surgeModel: SurgeModel | null;
+  /** Residuals (in the configured unit) the surge model was estimated from */
+  residuals: SurgeResidual[];
+  /** Longer residual history for the uncertainty estimate (null when not requested or unavailable) */
+  surgeHistory: SurgeResidual[] | null;
   nPoints: number;
+  /** Wind observations (knots for ft, m/s otherwise); empty when not requested or unavailable */
+  wind: WindSeries;
+  /** Air pressure in hPa; empty when not requested or unavailable */
+  pressure: Record<string, number>;
+  /** Regression of the surge on wind and pressure (in the configured unit) */
+  meteoFit: MeteoSurgeFit | null;
 }
 
 /** Chart configuration and dimensions */
@@ -31,8 +108,11 @@ export interface ChartConfig {
   size: { w: number; h: number };
   margins: { l: number; r: number; t: number; b: number };
   threshold: number;
+  /** Flood tiers ordered from lowest to highest (defaults to `threshold` as minor) */
+  tiers: FloodTier[];
   showDelta: boolean;
   timezone: 'local' | 'gmt';
+  units: LengthUnit;
 }
 
 /** Time range configuration */
@@ -48,6 +128,105 @@ export interface TimeRange {
 export interface OffsetConfig {
   mode: 'auto' | 'manual';
   value: string;
+  /** Surge estimator used in auto mode */
+  strategy: SurgeStrategyId;
+  /** E-folding time (hours) of the auto surge over the forecast; null = no decay */
+  decayHours: number | null;
+  /** Hours of observed-minus-predicted residuals the auto surge is estimated from */
+  lookbackHours: number;
+}
+
+/** Forecast uncertainty envelope settings */
+export interface UncertaintyConfig {
+  /** Draw the envelope around the adjusted forecast */
+  show: boolean;
+  /** Central fraction of outcomes inside the envelope, e.g. 0.8 for 10–90% */
+  coverage: number;
+  /** Hours of residual history used for the spread growth; 0 = surge lookback only */
+  historyHours: number;
+}
+
+/** External surge guidance settings */
+export interface GuidanceConfig {
+  /** URL loaded with the chart; empty when guidance comes from an imported file */
+  url: string;
+  /** Unit of the guidance values */
+  units: LengthUnit;
+  /** How the adjusted forecast uses the guidance in auto offset mode */
+  use: GuidanceUse;
+  /** Lead time (hours) at which a blend has moved fully to the guidance */
+  blendHours: number;
+}
+
+/** Wind and air pressure overlays and the weather-driven surge estimate */
+export interface MeteoConfig {
+  /** Show the wind panel under the chart */
+  showWind: boolean;
+  /** Show the air pressure panel under the chart */
+  showPressure: boolean;
+  /** Bearing (degrees true) from the station out to open water; wind from it blows onshore */
+  shoreNormalDeg: number;
+  /** Estimate the auto surge by regression on wind and pressure instead of the offset strategy */
+  useInSurge: boolean;
+}
+
+/** Sea level rise planning mode */
+export interface PlanningConfig {
+  /** Show the target-year tides and threshold exceedance statistics */
+  enabled: boolean;
+  /** Year the tides are projected to */
+  targetYear: number;
+  /** Sea level rise scenario drawn on the chart */
+  scenario: SlrScenarioId;
+}
+
+/** Optional higher flood tiers; the minor tier is `AppConfiguration.threshold` */
+export interface TierThresholds {
+  moderate: number | null;
+  major: number | null;
+}
+
+/** A watched site: a station with its own flood levels and surge settings */
+export interface SavedLocation {
+  /** Stable identifier */
+  id: string;
+  /** User's name for the site, e.g. "Marina" */
+  nickname: string;
+  station: AppConfiguration['station'];
+  /** Flood threshold (minor tier) in `units`, relative to `datum` */
+  threshold: number;
+  /** Moderate and major tier thresholds, same unit and datum as `threshold` */
+  tiers: TierThresholds;
+  datum: Datum;
+  /** Unit the levels were saved in; they are converted when applied in another unit */
+  units: LengthUnit;
+  offsetMode: OffsetConfig['mode'];
+  /** Manual surge offset in `units` */
+  offsetValue: string;
+}
+
+/** A recently viewed station */
+export interface RecentStation {
+  id: string;
+  name: string;
+  state?: string;
+  /** When the station was last selected (epoch ms) */
+  viewedAt: number;
+}
+
+/**
+ * Saved locations and recently viewed stations
+ *
+ * Kept beside `AppConfiguration` rather than inside it, so editing these lists
+ * doesn't change the configuration the chart data depends on.
+ */
+export interface LocationState {
+  /** Watched sites with their own station and flood settings */
+  savedLocations: SavedLocation[];
+  /** Saved location last switched to, while its station is still selected */
+  activeLocationId: string | null;
+  /** Recently selected stations, most recent first */
+  recentStations: RecentStation[];
 }
 
 /** Complete application configuration */
@@ -57,12 +236,25 @@ export interface AppConfiguration {
     name: string;
     state?: string;
   };
+  /** Flood threshold (minor tier) in `units`, relative to `datum` */
   threshold: number;
+  /** Moderate and major tier thresholds, same unit and datum as `threshold` */
+  tiers: TierThresholds;
+  /** Vertical datum all heights are referenced to */
+  datum: Datum;
+  /** Unit for heights, thresholds and offsets */
+  units: LengthUnit;
   offset: OffsetConfig;
+  uncertainty: UncertaintyConfig;
+  guidance: GuidanceConfig;
+  meteo: MeteoConfig;
+  planning: PlanningConfig;
   timeRange: TimeRange;
   display: {
     timezone: 'local' | 'gmt';
     showDelta: boolean;
+    /** Bridge gaps in the observations with marked, interpolated values */
+    interpolateGaps: boolean;
     theme?: 'auto' | 'light' | 'dark';
   };
 }
@@ -73,22 +265,60 @@ export interface ChartInteraction {
   setHoverT: (date: Date | null) => void;
 }
 
+/** Cache provenance of the data currently displayed */
+export interface CacheStatus {
+  /** True when any displayed series was served from the local cache */
+  fromCache: boolean;
+  /** When the oldest displayed series was fetched from NOAA */
+  fetchedAt: Date;
+}
+
+/** Series fetched independently by useChartData */
+export type SeriesName = 'observed' | 'predicted' | 'adjusted' | 'meteo';
+
+/** Per-series loading flags */
+export type SeriesLoading = Record<SeriesName, boolean>;
+
+/** Load failure of each series that failed */
+export type SeriesErrors = Partial<Record<SeriesName, Error>>;
+
 /** Data loading and error state */
 export interface DataState {
+  /** True while any series is still loading */
   loading: boolean;
-  error: string | null;
+  /** Loading state of each series, so finished series can render early */
+  seriesLoading: SeriesLoading;
+  /** Set when every water level series failed, so there is no chart to show; NOAA failures are typed `NOAAError` subclasses */
+  error: Error | null;
+  /** Failures of individual series; the chart still shows the series that loaded */
+  seriesErrors: SeriesErrors;
   data: ChartData;
+  cache: CacheStatus | null;
+  /** Non-fatal problem, e.g. some chunks of a long range failed to load */
+  warning: string | null;
 }
 
 /** Station search state and operations */
 export interface StationSearchState {
   allStations: Station[];
-  searchResults: Station[];
+  searchResults: StationResult[];
   loading: boolean;
   error: string | null;
   searchQuery: string;
   selectedIndex: number;
   menuOpen: boolean;
+  /** Text search over all stations, or stations ranked by distance from the device */
+  mode: 'search' | 'nearby';
+  /** Device position of the nearby ranking */
+  position: GeoPosition | null;
+  /** Whether the device position is being determined */
+  locating: boolean;
+  /** Why the device position could not be determined */
+  locationError: string | null;
+  /** State and prediction filters, applied in both modes */
+  filters: StationFilters;
+  /** Station shown in the detail sheet */
+  detail: StationDetailState;
 }
 
 /** Threshold crossing information */
@@ -97,8 +327,35 @@ export interface ThresholdCrossing {
   leadMinutes: number;
 }
 
+/** Threshold exceedance in the target year under one sea level rise scenario */
+export interface ScenarioOutlook {
+  scenario: SlrScenario;
+  /** Rise from the current to the target year, in the configured unit */
+  rise: number;
+  /** Exceedance of the flood threshold by the target-year tides plus `rise` */
+  stats: ExceedanceStats;
+}
+
+/** Sea level rise planning results */
+export interface PlanningSummary {
+  currentYear: number;
+  targetYear: number;
+  /** Exceedance of the flood threshold by this year's tides */
+  baseline: ExceedanceStats;
+  /** One outlook per bundled scenario, lowest to highest */
+  scenarios: ScenarioOutlook[];
+}
+
+/** Official station flood level expressed in the user's datum and units */
+export interface FloodLevelPreset extends FloodLevel {
+  /** Level in the configured datum and unit, ready to use as threshold */
+  threshold: number;
+}
+
 /** Chart segment for rendering polylines */
 export interface ChartSegment {
   points: Point[];
   above: boolean;
+  /** Tier level of the segment (0 = below all tiers) */
+  level: number;
 }
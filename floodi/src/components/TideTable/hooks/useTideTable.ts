@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  fetchHighLowPredictions,
+  fetchObservations,
+  fetchPredictions,
+  isAbortError,
+  isHighTide,
+  surgeResiduals,
+} from '../../../lib/noaa';
+import type { TideEvent } from '../../../lib/noaa';
+import { estimateSurge, projectSurge } from '../../../lib/surge';
+import type { SurgeModel } from '../../../lib/surge';
+import { noaaUnitsFor, responseScale } from '../../../lib/units';
+import type { AppConfiguration } from '../../Tab2/types';
+
+/**
+ * A high/low event with its surge-adjusted height
+ */
+export interface TideTableRow extends TideEvent {
+  /** Predicted height plus the surge at the event time (`v` and `adjusted` are in the configured unit) */
+  adjusted: number;
+  /** True for high tides whose adjusted height reaches the flood threshold */
+  exceedsThreshold: boolean;
+}
+
+/**
+ * Tide events for one calendar day
+ */
+export interface TideTableDay {
+  /** Day key (YYYY-MM-DD in the display timezone) */
+  key: string;
+  /** Representative date for formatting the day header */
+  date: Date;
+  rows: TideTableRow[];
+}
+
+/**
+ * Calendar day key for a date in the chosen timezone
+ * @param date Date to key
+ * @param timezone Display timezone setting
+ * @returns 'YYYY-MM-DD'
+ */
+function dayKey(date: Date, timezone: 'local' | 'gmt'): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    ...(timezone === 'gmt' ? { timeZone: 'UTC' } : {}),
+  }).format(date);
+}
+
+/**
+ * Custom hook for loading the high/low tide table of the configured station
+ *
+ * Fetches `hilo` predictions for the coming days, applies the surge
+ * (manual value, or projected from recent observations with the configured
+ * strategy and decay in auto mode) and groups the events by day.
+ *
+ * @param config Application configuration (station, datum, units, threshold, offset, timezone)
+ * @param days Number of days to list, starting today
+ * @returns Tide table state and refresh function
+ */
+export function useTideTable(config: AppConfiguration, days: number = 7) {
+  const [state, setState] = useState<{
+    loading: boolean;
+    error: Error | null;
+    events: TideEvent[];
+    offset: number;
+    /** Auto surge model in the configured unit (null in manual mode) */
+    model: SurgeModel | null;
+    /** Reference time of `model` */
+    now: Date;
+  }>({ loading: true, error: null, events: [], offset: 0, model: null, now: new Date() });
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchTable = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    const now = new Date();
+    const start = new Date(now);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(start.getTime() + days * 86_400_000);
+    const station = config.station.id;
+    const datum = config.datum;
+    const units = noaaUnitsFor(config.units);
+    const scale = responseScale(config.units);
+
+    try {
+      const eventsTask = fetchHighLowPredictions({ station, start, end, datum, units, signal });
+
+      let offset = 0;
+      let model: SurgeModel | null = null;
+      if (config.offset.mode === 'manual') {
+        const manual = parseFloat(config.offset.value);
+        offset = Number.isNaN(manual) ? 0 : manual;
+      } else {
+        const pastStart = new Date(now.getTime() - config.offset.lookbackHours * 3600_000);
+        const [observed, predicted] = await Promise.all([
+          fetchObservations({ station, start: pastStart, end: now, datum, units, signal }),
+          fetchPredictions({ station, start: pastStart, end: now, datum, units, signal }),
+        ]);
+        const estimated = estimateSurge(surgeResiduals(observed, predicted), now, config.offset.strategy);
+        model = { ...estimated, offset: estimated.offset * scale, slopePerHour: estimated.slopePerHour * scale };
+        offset = model.offset;
+      }
+
+      const events = (await eventsTask).map(event => ({ ...event, v: event.v * scale }));
+      setState({ loading: false, error: null, events, offset, model, now });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      setState(prev => ({
+        ...prev,
+        loading: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      }));
+    }
+  }, [config.station.id, config.datum, config.units, config.offset.mode, config.offset.value, config.offset.strategy, config.offset.lookbackHours, days]);
+
+  useEffect(() => {
+    fetchTable();
+    return () => abortRef.current?.abort();
+  }, [fetchTable]);
+
+  /**
+   * Group events by day with surge-adjusted heights and threshold highlighting
+   */
+  const tableDays = useMemo((): TideTableDay[] => {
+    const byDay = new Map<string, TideTableDay>();
+
+    for (const event of state.events) {
+      const key = dayKey(event.t, config.display.timezone);
+      const surge = state.model
+        ? projectSurge(state.model, (event.t.getTime() - state.now.getTime()) / 3600_000, config.offset.decayHours)
+        : state.offset;
+      const adjusted = event.v + surge;
+      const row: TideTableRow = {
+        ...event,
+        adjusted,
+        exceedsThreshold: isHighTide(event) && adjusted >= config.threshold,
+      };
+
+      const day = byDay.get(key);
+      if (day) {
+        day.rows.push(row);
+      } else {
+        byDay.set(key, { key, date: event.t, rows: [row] });
+      }
+    }
+
+    return Array.from(byDay.values());
+  }, [state.events, state.offset, state.model, state.now, config.offset.decayHours, config.threshold, config.display.timezone]);
+
+  return {
+    loading: state.loading,
+    error: state.error,
+    offset: state.offset,
+    days: tableDays,
+    refresh: fetchTable,
+  };
+}
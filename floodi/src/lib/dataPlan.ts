@@ -0,0 +1,230 @@
+/**
+ * @fileoverview Fetch planning for chart data
+ *
+ * A chart needs observations and predictions for several overlapping periods:
+ * the display domain, the surge lookback before `now`, and optionally a longer
+ * residual history for the forecast uncertainty. Fetching each period
+ * separately downloads the overlap several times. The planner merges the
+ * periods into the smallest set of windows per product, each fetched once;
+ * every derived series (observed, predicted, adjusted, delta) is then cut
+ * from those results. Wind and air pressure, shown alongside the observations,
+ * reuse the observation windows.
+ *
+ * Windows are widened to a fixed grid before they are requested, so repeated
+ * loads a few minutes apart ask for the same periods and hit the cache; the
+ * results are trimmed back to the periods the chart needs.
+ */
+
+import { fetchTidePredictions } from './harmonics';
+import { fetchAirPressure, fetchObservations, fetchWind } from './noaa';
+import type { CacheOptions, ChunkFailure, ObservationSeries, TimeSeries, WindSeries } from './noaa';
+
+/**
+ * A period to fetch
+ *
+ * @property {Date} start - Window start (inclusive)
+ * @property {Date} end - Window end (inclusive)
+ */
+export interface FetchWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Windows to fetch per NOAA product
+ *
+ * @property {FetchWindow[]} observed - Water level observation windows on whole hours, chronological and disjoint
+ * @property {FetchWindow[]} predicted - Prediction windows on whole UTC days, chronological and disjoint
+ * @property {FetchWindow} span - Period the chart needs; fetched series are trimmed to it
+ */
+export interface DataPlan {
+  observed: FetchWindow[];
+  predicted: FetchWindow[];
+  span: FetchWindow;
+}
+
+/**
+ * Request options shared by every window of a plan
+ */
+export interface DataPlanRequest {
+  station: string;
+  interval?: number;
+  datum?: string;
+  units?: 'english' | 'metric';
+  cache?: CacheOptions;
+  signal?: AbortSignal;
+  onPartialFailure?: (failures: ChunkFailure[]) => void;
+  /** Called when predictions are computed locally because NOAA is unreachable */
+  onLocalPredictions?: () => void;
+  /** Receives constituents left out of locally computed predictions */
+  onUnsupported?: (names: string[]) => void;
+}
+
+/**
+ * Windows closer than this are fetched as one: a few hours of extra 6-minute
+ * data cost less than another round trip
+ */
+const MERGE_GAP_MS = 6 * 3600_000;
+
+/** Grid of observation windows: the cached window only moves once an hour */
+const OBSERVATION_GRID_MS = 3600_000;
+
+/** Grid of prediction windows: predictions don't change, so whole UTC days are fetched */
+const PREDICTION_GRID_MS = 24 * 3600_000;
+
+/**
+ * Widens a window outwards to whole multiples of a grid step (UTC)
+ *
+ * @param {FetchWindow} window - Window to widen
+ * @param {number} gridMs - Grid step
+ * @returns {FetchWindow} Window starting and ending on the grid
+ */
+export function snapWindow(window: FetchWindow, gridMs: number): FetchWindow {
+  return {
+    start: new Date(Math.floor(window.start.getTime() / gridMs) * gridMs),
+    end: new Date(Math.ceil(window.end.getTime() / gridMs) * gridMs),
+  };
+}
+
+/**
+ * Keeps the part of a series inside a window
+ *
+ * @param {Record<string, T>} series - Values keyed by ISO minute (UTC)
+ * @param {FetchWindow} window - Period to keep (inclusive)
+ * @returns {Record<string, T>} Entries inside the window
+ */
+function trimSeries<T>(series: Record<string, T>, window: FetchWindow): Record<string, T> {
+  const startMs = window.start.getTime();
+  const endMs = window.end.getTime();
+  const trimmed: Record<string, T> = {};
+  for (const [k, v] of Object.entries(series)) {
+    const t = new Date(k).getTime();
+    if (t >= startMs && t <= endMs) trimmed[k] = v;
+  }
+  return trimmed;
+}
+
+/**
+ * Merges overlapping or nearly adjacent windows
+ *
+ * @param {FetchWindow[]} windows - Windows in any order; empty ones (end before start) are dropped
+ * @param {number} [maxGapMs=6 h] - Windows separated by at most this are joined
+ * @returns {FetchWindow[]} Chronological, disjoint windows
+ */
+export function mergeWindows(windows: FetchWindow[], maxGapMs: number = MERGE_GAP_MS): FetchWindow[] {
+  const sorted = windows
+    .filter(w => w.end.getTime() > w.start.getTime())
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: FetchWindow[] = [];
+  for (const w of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && w.start.getTime() - last.end.getTime() <= maxGapMs) {
+      if (w.end > last.end) last.end = w.end;
+    } else {
+      merged.push({ start: w.start, end: w.end });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Works out the minimal windows needed for a chart
+ *
+ * - observations: the past part of the display domain, the surge lookback and the residual history
+ * - predictions: the whole display domain, the surge lookback and the residual history
+ *
+ * The adjusted forecast covers the future part of the display domain, which the
+ * prediction windows already include. Observation windows are widened to whole
+ * hours and prediction windows to whole UTC days before merging.
+ *
+ * @param {Object} opts - Periods the chart needs
+ * @param {Date} opts.start - Display domain start
+ * @param {Date} opts.end - Display domain end
+ * @param {Date} opts.now - Current time
+ * @param {number} opts.surgeLookbackHours - Hours of residuals for the surge estimate
+ * @param {number} [opts.historyHours=0] - Hours of residual history for the uncertainty estimate
+ * @returns {DataPlan} Windows per product
+ *
+ * @example
+ * // 36 h back, 48 h ahead, 6 h surge lookback: one window per product
+ * planChartData({ start, end, now, surgeLookbackHours: 6 });
+ * // { observed: [{ start, end: now }], predicted: [{ start, end }], span: { start, end } }, widened to the grid
+ */
+export function planChartData(opts: {
+  start: Date;
+  end: Date;
+  now: Date;
+  surgeLookbackHours: number;
+  historyHours?: number;
+}): DataPlan {
+  const { start, end, now, surgeLookbackHours, historyHours = 0 } = opts;
+  const residualWindow: FetchWindow = {
+    start: new Date(now.getTime() - Math.max(surgeLookbackHours, historyHours) * 3600_000),
+    end: now,
+  };
+  const pastDomain: FetchWindow = { start, end: end < now ? end : now };
+  const snapAll = (windows: FetchWindow[], gridMs: number) =>
+    windows.filter(w => w.end.getTime() > w.start.getTime()).map(w => snapWindow(w, gridMs));
+
+  return {
+    observed: mergeWindows(snapAll([pastDomain, residualWindow], OBSERVATION_GRID_MS)),
+    predicted: mergeWindows(snapAll([{ start, end }, residualWindow], PREDICTION_GRID_MS)),
+    span: {
+      start: start < residualWindow.start ? start : residualWindow.start,
+      end: end > now ? end : now,
+    },
+  };
+}
+
+/**
+ * Fetches every observation window of a plan and merges them
+ *
+ * @param {DataPlan} plan - Plan from `planChartData`
+ * @param {DataPlanRequest} request - Station, datum, units and request options
+ * @returns {Promise<ObservationSeries>} Observations of all windows
+ */
+export async function fetchPlannedObservations(plan: DataPlan, request: DataPlanRequest): Promise<ObservationSeries> {
+  const parts = await Promise.all(plan.observed.map(w => fetchObservations({ ...request, start: w.start, end: w.end })));
+  return trimSeries(Object.assign({}, ...parts), plan.span);
+}
+
+/**
+ * Fetches every prediction window of a plan and merges them
+ *
+ * When NOAA can't be reached, windows are predicted locally from the station's
+ * harmonic constituents (cached station metadata) and `onLocalPredictions` is
+ * called; see `fetchTidePredictions`.
+ *
+ * @param {DataPlan} plan - Plan from `planChartData`
+ * @param {DataPlanRequest} request - Station, datum, units and request options
+ * @returns {Promise<TimeSeries>} Predictions of all windows
+ */
+export async function fetchPlannedPredictions(plan: DataPlan, request: DataPlanRequest): Promise<TimeSeries> {
+  const parts = await Promise.all(plan.predicted.map(w => fetchTidePredictions({ ...request, start: w.start, end: w.end })));
+  return trimSeries(Object.assign({}, ...parts), plan.span);
+}
+
+/**
+ * Fetches wind for every observation window of a plan and merges them
+ *
+ * @param {DataPlan} plan - Plan from `planChartData`
+ * @param {DataPlanRequest} request - Station, units and request options
+ * @returns {Promise<WindSeries>} Wind observations of all windows
+ */
+export async function fetchPlannedWind(plan: DataPlan, request: DataPlanRequest): Promise<WindSeries> {
+  const parts = await Promise.all(plan.observed.map(w => fetchWind({ ...request, start: w.start, end: w.end })));
+  return trimSeries(Object.assign({}, ...parts), plan.span);
+}
+
+/**
+ * Fetches air pressure for every observation window of a plan and merges them
+ *
+ * @param {DataPlan} plan - Plan from `planChartData`
+ * @param {DataPlanRequest} request - Station, units and request options
+ * @returns {Promise<TimeSeries>} Air pressure (hPa) of all windows
+ */
+export async function fetchPlannedAirPressure(plan: DataPlan, request: DataPlanRequest): Promise<TimeSeries> {
+  const parts = await Promise.all(plan.observed.map(w => fetchAirPressure({ ...request, start: w.start, end: w.end })));
+  return trimSeries(Object.assign({}, ...parts), plan.span);
+}
@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Gap detection for regularly sampled series
+ *
+ * NOAA water levels arrive every 6 minutes, but stations go offline and chunks
+ * of a request can fail. Drawing one polyline through whatever samples exist
+ * turns a 5-hour outage into a straight ramp that looks like real data. These
+ * helpers find the stretches where samples are missing given the expected
+ * sampling interval, split series at them, and optionally bridge them with
+ * values that are explicitly marked as interpolated.
+ */
+
+import type { TimeSeries } from './noaa';
+
+/**
+ * Spacing, as a multiple of the expected interval, above which samples are
+ * considered missing. A single dropped 6-minute sample is not a gap; two are.
+ */
+export const GAP_TOLERANCE = 2.5;
+
+/**
+ * A stretch of time without samples
+ *
+ * @property {Date} start - Last sample before the gap, or the start of the expected range
+ * @property {Date} end - First sample after the gap, or the end of the expected range
+ * @property {number} missing - Number of samples expected inside the gap
+ * @property {boolean} interior - Whether samples exist on both sides (only these can be bridged)
+ */
+export interface DataGap {
+  start: Date;
+  end: Date;
+  missing: number;
+  interior: boolean;
+}
+
+/**
+ * Minimal shape of a sample; `Point` and friends satisfy it
+ */
+export interface TimedValue {
+  t: Date;
+  v: number;
+}
+
+/**
+ * Options for gap detection
+ *
+ * @property {number} intervalMs - Expected spacing between samples
+ * @property {Date} [start] - Start of the range the series should cover; a late first sample leaves a leading gap
+ * @property {Date} [end] - End of the range the series should cover; an early last sample leaves a trailing gap
+ * @property {number} [tolerance=GAP_TOLERANCE] - Spacing (in intervals) above which samples are missing
+ */
+export interface GapOptions {
+  intervalMs: number;
+  start?: Date;
+  end?: Date;
+  tolerance?: number;
+}
+
+/**
+ * Finds the gaps in a time-sorted series
+ *
+ * @param {TimedValue[]} points - Samples sorted by time
+ * @param {GapOptions} opts - Expected interval and covered range
+ * @returns {DataGap[]} Gaps in time order
+ *
+ * @example
+ * // 6-minute observations with a 5-hour outage
+ * findGaps(observedPoints, { intervalMs: 6 * 60_000, start, end: now });
+ * // [{ start: 09:00, end: 14:00, missing: 49, interior: true }]
+ */
+export function findGaps(points: TimedValue[], opts: GapOptions): DataGap[] {
+  const { intervalMs, start, end, tolerance = GAP_TOLERANCE } = opts;
+  const maxSpacing = intervalMs * tolerance;
+  const gaps: DataGap[] = [];
+  const missingIn = (from: number, to: number, interior: boolean) =>
+    Math.max(0, Math.round((to - from) / intervalMs) - (interior ? 1 : 0));
+
+  if (points.length === 0) {
+    if (start && end && end.getTime() > start.getTime()) {
+      gaps.push({ start, end, missing: missingIn(start.getTime(), end.getTime(), false), interior: false });
+    }
+    return gaps;
+  }
+
+  const first = points[0].t.getTime();
+  if (start && first - start.getTime() > maxSpacing) {
+    gaps.push({ start, end: points[0].t, missing: missingIn(start.getTime(), first, false), interior: false });
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1].t.getTime();
+    const to = points[i].t.getTime();
+    if (to - from > maxSpacing) {
+      gaps.push({ start: points[i - 1].t, end: points[i].t, missing: missingIn(from, to, true), interior: true });
+    }
+  }
+
+  const last = points[points.length - 1].t.getTime();
+  if (end && end.getTime() - last > maxSpacing) {
+    gaps.push({ start: points[points.length - 1].t, end, missing: missingIn(last, end.getTime(), false), interior: false });
+  }
+
+  return gaps;
+}
+
+/**
+ * Splits a time-sorted series into the runs between interior gaps
+ *
+ * @param {T[]} points - Samples sorted by time
+ * @param {DataGap[]} gaps - Gaps of the same series, from `findGaps`
+ * @returns {T[][]} Runs of consecutive samples; single-sample runs are kept
+ */
+export function splitAtGaps<T extends TimedValue>(points: T[], gaps: DataGap[]): T[][] {
+  const breaks = new Set(gaps.filter(g => g.interior).map(g => g.end.getTime()));
+  if (breaks.size === 0) return points.length > 0 ? [points] : [];
+
+  const runs: T[][] = [];
+  let current: T[] = [];
+  for (const point of points) {
+    if (breaks.has(point.t.getTime()) && current.length > 0) {
+      runs.push(current);
+      current = [];
+    }
+    current.push(point);
+  }
+  if (current.length > 0) runs.push(current);
+  return runs;
+}
+
+/**
+ * The gap containing a time, if any
+ *
+ * The samples bounding a gap are not inside it.
+ *
+ * @param {DataGap[]} gaps - Gaps in time order
+ * @param {Date} t - Time to look up
+ * @returns {DataGap | null} The gap strictly containing `t`
+ */
+export function gapAt(gaps: DataGap[], t: Date): DataGap | null {
+  const ms = t.getTime();
+  return gaps.find(g => ms > g.start.getTime() && ms < g.end.getTime()) ?? null;
+}
+
+/**
+ * Bridges interior gaps with interpolated values
+ *
+ * With a reference series (the tide predictions), the residual between the
+ * series and the reference is interpolated linearly across the gap and added
+ * back to the reference, so the bridge follows the tide instead of cutting
+ * straight across it. Without reference values at both edges, the series
+ * itself is interpolated linearly.
+ *
+ * @param {TimedValue[]} points - Samples sorted by time
+ * @param {DataGap[]} gaps - Gaps of the series, from `findGaps`
+ * @param {Object} opts - Interpolation options
+ * @param {number} opts.intervalMs - Spacing of the interpolated values
+ * @param {TimeSeries} [opts.reference] - Series keyed by ISO minute to follow inside gaps
+ * @returns {TimedValue[][]} One bridge per interior gap, including both edge samples
+ */
+export function bridgeGaps(
+  points: TimedValue[],
+  gaps: DataGap[],
+  opts: { intervalMs: number; reference?: TimeSeries }
+): TimedValue[][] {
+  const { intervalMs, reference } = opts;
+  const byTime = new Map(points.map(p => [p.t.getTime(), p.v]));
+  const referenceAt = (ms: number) => reference?.[new Date(ms).toISOString().slice(0, 16) + 'Z'];
+
+  return gaps.filter(g => g.interior).map(gap => {
+    const from = gap.start.getTime();
+    const to = gap.end.getTime();
+    const before = byTime.get(from)!;
+    const after = byTime.get(to)!;
+    const refBefore = referenceAt(from);
+    const refAfter = referenceAt(to);
+    const followReference = refBefore !== undefined && refAfter !== undefined;
+
+    const bridge: TimedValue[] = [{ t: gap.start, v: before }];
+    for (let ms = from + intervalMs; ms < to; ms += intervalMs) {
+      const fraction = (ms - from) / (to - from);
+      const ref = referenceAt(ms);
+      const v = followReference && ref !== undefined
+        ? ref + (before - refBefore) + fraction * ((after - refAfter) - (before - refBefore))
+        : before + fraction * (after - before);
+      bridge.push({ t: new Date(ms), v });
+    }
+    bridge.push({ t: gap.end, v: after });
+    return bridge;
+  });
+}
+
+/**
+ * Describes the length of a gap
+ *
+ * @param {DataGap} gap - Gap to describe
+ * @returns {string} e.g. "5 h 12 min" or "18 min"
+ */
+export function formatGapDuration(gap: DataGap): string {
+  const minutes = Math.round((gap.end.getTime() - gap.start.getTime()) / 60_000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Device location and great-circle distances
+ *
+ * The device position comes from the Capacitor Geolocation plugin on native
+ * platforms (where the web API is unreliable inside a WebView) and from the
+ * browser's `navigator.geolocation` everywhere else. Distances and bearings
+ * use a spherical earth, which is accurate to well under a percent for
+ * ranking nearby stations.
+ */
+
+import { Capacitor } from '@capacitor/core';
+import { Geolocation } from '@capacitor/geolocation';
+import type { LengthUnit } from './units';
+
+/** Mean earth radius (km) */
+const EARTH_RADIUS_KM = 6371.0088;
+
+/** Kilometers per statute mile */
+const KM_PER_MILE = 1.609344;
+
+/**
+ * A point on the earth
+ *
+ * @property {number} lat - Latitude in degrees north
+ * @property {number} lon - Longitude in degrees east
+ */
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+/**
+ * Device position
+ *
+ * @property {number} accuracy - Radius of the 68% confidence circle in meters
+ * @property {Date} at - When the fix was taken
+ */
+export interface GeoPosition extends LatLon {
+  accuracy: number;
+  at: Date;
+}
+
+/**
+ * Why the device position could not be determined
+ */
+export type GeolocationErrorReason = 'denied' | 'unavailable' | 'timeout';
+
+/**
+ * The device position could not be determined
+ */
+export class GeolocationError extends Error {
+  /** Which failure mode this error represents */
+  readonly reason: GeolocationErrorReason;
+
+  constructor(reason: GeolocationErrorReason, message: string) {
+    super(message);
+    this.name = 'GeolocationError';
+    this.reason = reason;
+  }
+}
+
+/** Positions up to this old are good enough for finding nearby stations */
+const MAX_POSITION_AGE_MS = 10 * 60_000;
+
+/**
+ * Gets the device position
+ *
+ * Asks for location permission first if needed. A coarse fix is enough, so
+ * high accuracy is not requested and recent cached fixes are accepted.
+ *
+ * @param {Object} [opts] - Options
+ * @param {number} [opts.timeoutMs=15000] - Give up after this long
+ * @returns {Promise<GeoPosition>} Current position
+ * @throws {GeolocationError} Permission denied, no location service, or timeout
+ */
+export async function getCurrentPosition(opts: { timeoutMs?: number } = {}): Promise<GeoPosition> {
+  const { timeoutMs = 15_000 } = opts;
+  const request = { enableHighAccuracy: false, timeout: timeoutMs, maximumAge: MAX_POSITION_AGE_MS };
+
+  if (Capacitor.isNativePlatform() && Capacitor.isPluginAvailable('Geolocation')) {
+    const permission = await Geolocation.requestPermissions().catch(() => null);
+    if (permission && permission.location === 'denied' && permission.coarseLocation === 'denied') {
+      throw new GeolocationError('denied', 'Location permission was denied');
+    }
+    try {
+      const { coords, timestamp } = await Geolocation.getCurrentPosition(request);
+      return { lat: coords.latitude, lon: coords.longitude, accuracy: coords.accuracy, at: new Date(timestamp) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new GeolocationError(/timeout/i.test(message) ? 'timeout' : 'unavailable', message);
+    }
+  }
+
+  if (typeof navigator === 'undefined' || !navigator.geolocation) {
+    throw new GeolocationError('unavailable', 'Location is not available on this device');
+  }
+
+  return new Promise((resolve, reject) => {
+    navigator.geolocation.getCurrentPosition(
+      ({ coords, timestamp }) => resolve({
+        lat: coords.latitude,
+        lon: coords.longitude,
+        accuracy: coords.accuracy,
+        at: new Date(timestamp),
+      }),
+      error => {
+        if (error.code === error.PERMISSION_DENIED) {
+          reject(new GeolocationError('denied', 'Location permission was denied'));
+        } else if (error.code === error.TIMEOUT) {
+          reject(new GeolocationError('timeout', 'Timed out waiting for the device location'));
+        } else {
+          reject(new GeolocationError('unavailable', error.message || 'Location is not available'));
+        }
+      },
+      request
+    );
+  });
+}
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Great-circle distance between two points (haversine formula)
+ *
+ * @param {LatLon} from - Start point
+ * @param {LatLon} to - End point
+ * @returns {number} Distance in kilometers
+ *
+ * @example
+ * distanceKm({ lat: 34.21, lon: -77.79 }, { lat: 34.23, lon: -77.95 }); // ≈ 14.9
+ */
+export function distanceKm(from: LatLon, to: LatLon): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Initial bearing of the great circle from one point to another
+ *
+ * @param {LatLon} from - Start point
+ * @param {LatLon} to - End point
+ * @returns {number} Bearing in degrees true, 0–360
+ */
+export function bearingDeg(from: LatLon, to: LatLon): number {
+  const lat1 = toRadians(from.lat);
+  const lat2 = toRadians(to.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+/** Compass point names, every 45° from north */
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+/**
+ * Nearest compass point of a bearing
+ *
+ * @param {number} degrees - Bearing in degrees true
+ * @returns {string} e.g. "SE"
+ */
+export function compassPoint(degrees: number): string {
+  return COMPASS_POINTS[Math.round((((degrees % 360) + 360) % 360) / 45) % 8];
+}
+
+/**
+ * Ranks items with coordinates by distance from a point
+ *
+ * Items without coordinates are left out.
+ *
+ * @param {T[]} items - Items to rank, e.g. stations
+ * @param {LatLon} from - Reference point, e.g. the device position
+ * @param {number} [limit] - Keep only the closest `limit` items
+ * @returns {Array} Items with `distanceKm` and `bearingDeg` (from the reference point), closest first
+ */
+export function rankByDistance<T extends { lat?: number; lon?: number }>(
+  items: T[],
+  from: LatLon,
+  limit?: number
+): (T & { distanceKm: number; bearingDeg: number })[] {
+  const ranked = items
+    .filter(item => typeof item.lat === 'number' && typeof item.lon === 'number')
+    .map(item => {
+      const to = { lat: item.lat!, lon: item.lon! };
+      return { ...item, distanceKm: distanceKm(from, to), bearingDeg: bearingDeg(from, to) };
+    })
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+  return limit === undefined ? ranked : ranked.slice(0, limit);
+}
+
+/**
+ * Formats a distance in the unit system of the length unit
+ *
+ * @param {number} km - Distance in kilometers
+ * @param {LengthUnit} units - Feet selects miles, meters and centimeters select kilometers
+ * @returns {string} e.g. "3.2 mi", "12 km"
+ */
+export function formatDistance(km: number, units: LengthUnit): string {
+  const value = units === 'ft' ? km / KM_PER_MILE : km;
+  const unit = units === 'ft' ? 'mi' : 'km';
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${unit}`;
+}
@@ -0,0 +1,295 @@
+/**
+ * @fileoverview External storm surge guidance
+ *
+ * Loads model surge guidance (e.g. ETSS or STOFS output exported as CSV or
+ * JSON) from a file or URL and combines it with the residual-based surge
+ * estimate. Guidance gives the surge evolution a model expects, while the
+ * observed residual is the better estimate near `now`; blending shifts weight
+ * from the residual to the guidance as lead time grows.
+ *
+ * Accepted input:
+ * - CSV/TSV with a time column and a surge column, optional header and `#` comments
+ * - JSON: an array (or `data`, `guidance`, `series`, `values` or `predictions`
+ *   array) of `{ t, v }`-like objects or `[time, value]` pairs
+ *
+ * Times are ISO 8601, `YYYY-MM-DD HH:MM`, compact `YYYYMMDDHH[MM]` or epoch
+ * seconds/milliseconds; times without a zone are UTC. Values of ±999 and beyond
+ * are treated as missing.
+ */
+
+import type { TimeSeries } from './noaa';
+
+/**
+ * A guidance value
+ *
+ * @property {number} t - Time (epoch ms)
+ * @property {number} v - Surge (water level above the astronomical tide), in the guidance unit
+ */
+export interface GuidancePoint {
+  t: number;
+  v: number;
+}
+
+/**
+ * A loaded surge guidance series
+ *
+ * @property {string} source - File name or URL it was loaded from
+ * @property {GuidancePoint[]} points - Values in chronological order
+ * @property {number} loadedAt - When it was loaded (epoch ms)
+ */
+export interface SurgeGuidance {
+  source: string;
+  points: GuidancePoint[];
+  loadedAt: number;
+}
+
+/**
+ * How the adjusted forecast uses guidance
+ *
+ * - display: shown on the chart only
+ * - replace: guidance is the surge wherever it is available
+ * - blend: weight moves from the residual surge to the guidance with lead time
+ */
+export type GuidanceUse = 'display' | 'replace' | 'blend';
+
+/** Selectable guidance uses with labels for settings */
+export const GUIDANCE_USES: { value: GuidanceUse; label: string }[] = [
+  { value: 'display', label: 'Show only' },
+  { value: 'replace', label: 'Use as surge' },
+  { value: 'blend', label: 'Blend with residual' },
+];
+
+/** Guidance points further apart than this are not interpolated across */
+const MAX_INTERPOLATION_GAP_MS = 3 * 3600_000;
+
+const TIME_HEADER = /^(t|time|date|datetime|date_?time|valid|valid_?time|timestamp)\b/i;
+const VALUE_HEADER = /surge|anom|residual|^v$|^value$/i;
+
+/**
+ * Parses a guidance timestamp
+ *
+ * @param {unknown} raw - Time value from the file
+ * @returns {number | null} Epoch ms, or null when unreadable
+ */
+export function parseGuidanceTime(raw: unknown): number | null {
+  if (typeof raw === 'number') {
+    if (!Number.isFinite(raw)) return null;
+    return raw < 1e11 ? raw * 1000 : raw;
+  }
+  if (typeof raw !== 'string') return null;
+  const s = raw.trim();
+
+  // Compact YYYYMMDDHH[MM]
+  const compact = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})?$/.exec(s);
+  if (compact) {
+    const [, y, mo, d, h, mi = '00'] = compact;
+    return Date.UTC(+y, +mo - 1, +d, +h, +mi);
+  }
+  if (/^\d+(\.\d+)?$/.test(s)) return parseGuidanceTime(Number(s));
+
+  // Date and time without a zone are UTC
+  const local = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}(:\d{2})?)$/.exec(s);
+  const t = Date.parse(local ? `${local[1]}T${local[2]}Z` : s);
+  return Number.isNaN(t) ? null : t;
+}
+
+/** Sorts points and keeps the last value of duplicated times */
+function finalizePoints(points: GuidancePoint[]): GuidancePoint[] {
+  const byTime = new Map<number, number>();
+  for (const p of points) {
+    if (Number.isFinite(p.v) && Math.abs(p.v) < 999) byTime.set(p.t, p.v);
+  }
+  return Array.from(byTime, ([t, v]) => ({ t, v })).sort((a, b) => a.t - b.t);
+}
+
+/** Reads CSV/TSV guidance */
+function parseCsv(text: string): GuidancePoint[] {
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '' && !line.startsWith('#'))
+    .map(line => line.split(/\s*[,;\t]\s*/));
+  if (rows.length === 0) return [];
+
+  let timeCol = 0;
+  let valueCol = 1;
+  if (parseGuidanceTime(rows[0][0]) === null) {
+    const header = rows.shift()!;
+    const t = header.findIndex(h => TIME_HEADER.test(h));
+    const v = header.findIndex(h => VALUE_HEADER.test(h));
+    if (t >= 0) timeCol = t;
+    if (v >= 0) valueCol = v;
+    else valueCol = timeCol === 0 ? 1 : 0;
+  }
+
+  const points: GuidancePoint[] = [];
+  for (const row of rows) {
+    const t = parseGuidanceTime(row[timeCol]);
+    const v = parseFloat(row[valueCol]);
+    if (t !== null && !Number.isNaN(v)) points.push({ t, v });
+  }
+  return points;
+}
+
+/** Reads JSON guidance */
+function parseJson(data: unknown): GuidancePoint[] {
+  const container = data as Record<string, unknown> | null;
+  const rows = Array.isArray(data)
+    ? data
+    : ['data', 'guidance', 'series', 'values', 'predictions']
+        .map(key => container?.[key])
+        .find(Array.isArray) ?? [];
+
+  const points: GuidancePoint[] = [];
+  for (const row of rows as unknown[]) {
+    let rawT: unknown;
+    let rawV: unknown;
+    if (Array.isArray(row)) {
+      [rawT, rawV] = row;
+    } else if (row && typeof row === 'object') {
+      const entries = Object.entries(row);
+      rawT = entries.find(([k]) => TIME_HEADER.test(k))?.[1];
+      rawV = entries.find(([k]) => VALUE_HEADER.test(k))?.[1];
+    }
+    const t = parseGuidanceTime(rawT);
+    const v = Number(rawV);
+    if (t !== null && rawV !== null && rawV !== '' && Number.isFinite(v)) points.push({ t, v });
+  }
+  return points;
+}
+
+/**
+ * Parses surge guidance from file or response text
+ *
+ * @param {string} text - CSV/TSV or JSON content
+ * @param {Object} opts - Parse options
+ * @param {string} opts.source - File name or URL, also used to detect the format
+ * @param {'csv' | 'json'} [opts.format] - Format; detected from the source and content when omitted
+ * @returns {SurgeGuidance} Parsed series
+ * @throws {Error} When no usable values are found
+ *
+ * @example
+ * parseSurgeGuidance('time,surge\n2024-01-15 12:00,0.42\n2024-01-15 13:00,0.51', { source: 'etss.csv' });
+ */
+export function parseSurgeGuidance(text: string, opts: { source: string; format?: 'csv' | 'json' }): SurgeGuidance {
+  const format = opts.format
+    ?? (/\.json($|\?)/i.test(opts.source) || /^\s*[[{]/.test(text) ? 'json' : 'csv');
+
+  let points: GuidancePoint[];
+  if (format === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('Guidance is not valid JSON');
+    }
+    points = parseJson(data);
+  } else {
+    points = parseCsv(text);
+  }
+
+  points = finalizePoints(points);
+  if (points.length === 0) {
+    throw new Error('No surge values found in guidance');
+  }
+  return { source: opts.source, points, loadedAt: Date.now() };
+}
+
+/**
+ * Loads surge guidance from a URL
+ *
+ * @param {string} url - Guidance location (must allow cross-origin requests)
+ * @param {Object} [opts] - Request options
+ * @param {AbortSignal} [opts.signal] - Cancels the request
+ * @returns {Promise<SurgeGuidance>} Parsed series
+ * @throws {Error} When the request fails or the response has no usable values
+ */
+export async function fetchSurgeGuidance(url: string, opts: { signal?: AbortSignal } = {}): Promise<SurgeGuidance> {
+  const res = await fetch(url, { signal: opts.signal });
+  if (!res.ok) {
+    throw new Error(`Guidance request failed (HTTP ${res.status})`);
+  }
+  const type = res.headers.get('Content-Type') ?? '';
+  return parseSurgeGuidance(await res.text(), {
+    source: url,
+    format: type.includes('json') ? 'json' : type.includes('csv') ? 'csv' : undefined,
+  });
+}
+
+/**
+ * Guidance value at a time, linearly interpolated
+ *
+ * @param {SurgeGuidance} guidance - Guidance series
+ * @param {number} t - Time (epoch ms)
+ * @returns {number | null} Surge, or null outside the series or across gaps over 3 hours
+ */
+export function guidanceAt(guidance: SurgeGuidance, t: number): number | null {
+  const { points } = guidance;
+  let lo = 0;
+  let hi = points.length - 1;
+  if (hi < 0 || t < points[0].t || t > points[hi].t) return null;
+
+  // Binary search for the last point at or before t
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (points[mid].t <= t) lo = mid;
+    else hi = mid - 1;
+  }
+  const a = points[lo];
+  if (a.t === t) return a.v;
+  const b = points[lo + 1];
+  if (!b || b.t - a.t > MAX_INTERPOLATION_GAP_MS) return null;
+  return a.v + (b.v - a.v) * (t - a.t) / (b.t - a.t);
+}
+
+/**
+ * Aligns guidance to the timestamps of a prediction series
+ *
+ * @param {SurgeGuidance} guidance - Guidance series
+ * @param {TimeSeries} predicted - Series whose timestamps to use
+ * @param {number} [scale=1] - Factor converting guidance values to the prediction unit
+ * @returns {TimeSeries} Guidance at every prediction time it covers
+ */
+export function alignGuidance(guidance: SurgeGuidance, predicted: TimeSeries, scale: number = 1): TimeSeries {
+  const out: TimeSeries = {};
+  for (const k of Object.keys(predicted)) {
+    const v = guidanceAt(guidance, new Date(k).getTime());
+    if (v !== null) out[k] = v * scale;
+  }
+  return out;
+}
+
+/**
+ * Weight of the guidance in a blend
+ *
+ * @param {number} hoursAhead - Lead time
+ * @param {number} blendHours - Lead time at which the guidance takes over completely
+ * @returns {number} 0 at `now` rising linearly to 1 at `blendHours` (1 when `blendHours` is not positive)
+ */
+export function guidanceWeight(hoursAhead: number, blendHours: number): number {
+  if (blendHours <= 0) return 1;
+  return Math.min(1, Math.max(0, hoursAhead / blendHours));
+}
+
+/**
+ * Combines the residual-based surge with guidance at one forecast time
+ *
+ * @param {number} residualSurge - Surge projected from observed residuals
+ * @param {number | null} guidance - Guidance surge at the same time (null when not covered)
+ * @param {number} hoursAhead - Lead time
+ * @param {Object} opts - How guidance is used
+ * @param {GuidanceUse} opts.use - Guidance use
+ * @param {number} opts.blendHours - Blend horizon
+ * @returns {number} Surge for the adjusted forecast
+ */
+export function combineSurge(
+  residualSurge: number,
+  guidance: number | null,
+  hoursAhead: number,
+  opts: { use: GuidanceUse; blendHours: number }
+): number {
+  if (guidance === null || opts.use === 'display') return residualSurge;
+  if (opts.use === 'replace') return guidance;
+  const w = guidanceWeight(hoursAhead, opts.blendHours);
+  return (1 - w) * residualSurge + w * guidance;
+}
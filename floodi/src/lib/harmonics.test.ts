@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import { astronomicalArguments, comparePredictions, constituentSpeed, nodalCorrection, predictTides } from './harmonics';
+import type { HarmonicConstituent, TimeSeries } from './noaa';
+
+/**
+ * NOAA predictions stored by `scripts/capture-harmonic-fixtures.mjs`: a week of
+ * hourly predictions with the constituents and datums they were made from
+ */
+interface HarmonicFixture {
+  station: string;
+  datum: string;
+  units: 'english' | 'metric';
+  /** Height of MSL above `datum` */
+  msl: number;
+  constituents: HarmonicConstituent[];
+  predictions: TimeSeries;
+}
+
+const fixtures = Object.values(
+  import.meta.glob<HarmonicFixture>('./__fixtures__/harmonics/*.json', { eager: true, import: 'default' })
+);
+
+/** Speeds NOAA publishes for its 37 constituents, degrees per hour */
+const NOAA_SPEEDS: Record<string, number> = {
+  M2: 28.9841042, S2: 30, N2: 28.4397295, K1: 15.0410686, M4: 57.9682084, O1: 13.9430356,
+  M6: 86.9523127, MK3: 44.0251729, S4: 60, MN4: 57.4238337, NU2: 28.5125831, S6: 90,
+  MU2: 27.9682084, '2N2': 27.8953548, OO1: 16.1391017, LAM2: 29.4556253, S1: 15, M1: 14.4966939,
+  J1: 15.5854433, MM: 0.5443747, SSA: 0.0821373, SA: 0.0410686, MSF: 1.0158958, MF: 1.0980331,
+  RHO: 13.4715145, Q1: 13.3986609, T2: 29.9589333, R2: 30.0410667, '2Q1': 12.8542862, P1: 14.9589314,
+  '2SM2': 31.0158958, M3: 43.4761563, L2: 29.5284789, '2MK3': 42.9271398, K2: 30.0821373,
+  M8: 115.9364166, MS4: 58.9841042,
+};
+
+describe('harmonic tide prediction', () => {
+  it('equilibrium arguments advance at the published constituent speeds', () => {
+    for (const [name, speed] of Object.entries(NOAA_SPEEDS)) {
+      expect(constituentSpeed(name)).toBeCloseTo(speed, 5);
+    }
+  });
+
+  it('nodal factors reach their extremes at the node cycle turning points', () => {
+    // Ascending node at the vernal equinox (N = 0) mid-2006, opposite (N = 180°) late 2015
+    const n0 = astronomicalArguments(new Date('2006-06-20T00:00Z'));
+    const n180 = astronomicalArguments(new Date('2015-10-08T00:00Z'));
+    expect(Math.min(n0.N, 360 - n0.N)).toBeLessThan(1);
+    expect(Math.abs(n180.N - 180)).toBeLessThan(1);
+
+    expect(nodalCorrection('M2', n0).f).toBeCloseTo(0.963, 2);
+    expect(nodalCorrection('M2', n180).f).toBeCloseTo(1.037, 2);
+    expect(nodalCorrection('K1', n0).f).toBeCloseTo(1.113, 2);
+    expect(nodalCorrection('K1', n180).f).toBeCloseTo(0.882, 2);
+    expect(nodalCorrection('O1', n0).f).toBeCloseTo(1.183, 2);
+    expect(nodalCorrection('O1', n180).f).toBeCloseTo(0.806, 2);
+    expect(nodalCorrection('M2', n0).u).toBeCloseTo(0, 2);
+  });
+
+  it('synthesizes on interval boundaries relative to the datum', () => {
+    // S2 has no nodal correction and V = 0 at 00:00 UTC: highs at 00:00 and 12:00
+    const series = predictTides([{ name: 'S2', amplitude: 1, phase: 0, speed: 30 }], {
+      start: new Date('2024-03-01T00:01Z'),
+      end: new Date('2024-03-01T12:00Z'),
+      interval: 6,
+      datumOffset: 2,
+    });
+    expect(Object.keys(series)[0]).toBe('2024-03-01T00:06Z');
+    expect(series['2024-03-01T06:00Z']).toBeCloseTo(1, 6);
+    expect(series['2024-03-01T12:00Z']).toBeCloseTo(3, 6);
+  });
+
+  it('skips and reports unknown constituents', () => {
+    const onUnsupported = vi.fn();
+    predictTides([{ name: 'XYZ', amplitude: 1, phase: 0, speed: 10 }], {
+      start: new Date('2024-03-01T00:00Z'),
+      end: new Date('2024-03-01T01:00Z'),
+      onUnsupported,
+    });
+    expect(onUnsupported).toHaveBeenCalledWith(['XYZ']);
+  });
+
+  describe('against stored NOAA predictions', () => {
+    // Without fixtures nothing checks the engine against NOAA, so they must be committed
+    it('has fixtures for several stations', () => {
+      expect(fixtures.length, 'capture them with scripts/capture-harmonic-fixtures.mjs').toBeGreaterThanOrEqual(3);
+    });
+
+    it.each(fixtures.map(f => [f.station, f] as const))('station %s', (_station, fixture) => {
+      const times = Object.keys(fixture.predictions).sort();
+      const local = predictTides(fixture.constituents, {
+        start: new Date(times[0]),
+        end: new Date(times[times.length - 1]),
+        interval: 60,
+        datumOffset: fixture.msl,
+      });
+      const comparison = comparePredictions(local, fixture.predictions);
+      // NOAA rounds to 1 mm (0.001 ft); allow for differences in nodal conventions
+      const tolerance = fixture.units === 'metric' ? 0.01 : 0.033;
+      expect(comparison.n).toBe(times.length);
+      expect(comparison.rmse).toBeLessThan(tolerance);
+      expect(comparison.maxAbs).toBeLessThan(3 * tolerance);
+    });
+  });
+});
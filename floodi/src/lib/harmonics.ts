@@ -0,0 +1,491 @@
+/**
+ * @fileoverview Local harmonic tide prediction
+ *
+ * Synthesizes the astronomical tide from a station's harmonic constituents,
+ * the same way NOAA computes its published predictions:
+ *
+ *   h(t) = Z0 + Σ f·A·cos(V0 + ω·t + u − κ)
+ *
+ * - A, κ, ω: amplitude, Greenwich epoch and speed of each constituent (NOAA harcon)
+ * - V0: equilibrium argument at the start of each calendar year (UTC), from the
+ *   mean longitudes of the Moon, Sun, lunar perigee and solar perigee
+ * - f, u: nodal factor and angle for the 18.6-year lunar node cycle, evaluated
+ *   at the middle of each year
+ * - Z0: mean sea level above the requested datum
+ *
+ * Astronomical formulas follow Schureman (1958), "Manual of Harmonic Analysis
+ * and Prediction of Tides", with mean longitudes from Meeus (1998). Predictions
+ * need no network once the constituents and datums are known, work for any
+ * span (years ahead) and any interval down to one minute.
+ */
+
+import { convertDatum, fetchHarmonicConstituents, fetchPredictions, fetchStationDatums } from './noaa';
+import type { CacheOptions, ChunkFailure, HarmonicConstituent, TimeSeries } from './noaa';
+import { NOAANoDataError, NOAAOfflineError } from './noaaErrors';
+
+const DEG = Math.PI / 180;
+
+/** Obliquity of the ecliptic (ω) and inclination of the lunar orbit to it (i), degrees */
+const OBLIQUITY = 23.452;
+const LUNAR_INCLINATION = 5.145;
+
+/**
+ * Astronomical arguments at an instant, degrees
+ *
+ * @property {number} T - Hour angle of the mean Sun (180° at 00:00 UTC)
+ * @property {number} s - Mean longitude of the Moon
+ * @property {number} h - Mean longitude of the Sun
+ * @property {number} p - Longitude of the lunar perigee
+ * @property {number} N - Longitude of the Moon's ascending node
+ * @property {number} p1 - Longitude of the solar perigee
+ * @property {number} I - Inclination of the lunar orbit to the equator
+ * @property {number} nu - Right ascension of the lunar intersection (ν)
+ * @property {number} xi - Longitude in the Moon's orbit of the lunar intersection (ξ)
+ * @property {number} nuPrime - Term in the K1 argument (ν′)
+ * @property {number} nuSecond2 - Term in the K2 argument (2ν″)
+ */
+export interface AstronomicalArguments {
+  T: number;
+  s: number;
+  h: number;
+  p: number;
+  N: number;
+  p1: number;
+  I: number;
+  nu: number;
+  xi: number;
+  nuPrime: number;
+  nuSecond2: number;
+}
+
+/**
+ * Nodal correction of a constituent
+ *
+ * @property {number} f - Amplitude factor
+ * @property {number} u - Phase correction, degrees
+ */
+export interface NodalCorrection {
+  f: number;
+  u: number;
+}
+
+/** Normalizes an angle to [0, 360) */
+function wrap360(deg: number): number {
+  return ((deg % 360) + 360) % 360;
+}
+
+/** Normalizes an angle to (-180, 180] */
+function wrap180(deg: number): number {
+  const w = wrap360(deg);
+  return w > 180 ? w - 360 : w;
+}
+
+/**
+ * Computes the astronomical arguments at an instant
+ *
+ * @param {Date} date - Instant (UTC)
+ * @returns {AstronomicalArguments} Arguments in degrees
+ */
+export function astronomicalArguments(date: Date): AstronomicalArguments {
+  const ms = date.getTime();
+  // Julian centuries since J2000.0
+  const jc = (ms / 86_400_000 + 2440587.5 - 2451545.0) / 36525;
+  const hoursUT = ((ms % 86_400_000) + 86_400_000) % 86_400_000 / 3_600_000;
+
+  const s = wrap360(218.3164477 + 481267.88123421 * jc - 0.0015786 * jc ** 2 + jc ** 3 / 538841);
+  const h = wrap360(280.46646 + 36000.76983 * jc + 0.0003032 * jc ** 2);
+  const p = wrap360(83.3532465 + 4069.0137287 * jc - 0.01032 * jc ** 2 - jc ** 3 / 80053);
+  const N = wrap360(125.04452 - 1934.136261 * jc + 0.0020708 * jc ** 2);
+  const p1 = wrap360(282.93735 + 1.71946 * jc + 0.00046 * jc ** 2);
+  const T = wrap360(180 + 15 * hoursUT);
+
+  // Lunar intersection with the equator (Schureman eqs. 191-197)
+  const w = OBLIQUITY * DEG;
+  const i = LUNAR_INCLINATION * DEG;
+  const n = N * DEG;
+  const I = Math.acos(Math.cos(i) * Math.cos(w) - Math.sin(i) * Math.sin(w) * Math.cos(n));
+  const halfN = wrap180(N) * DEG / 2;
+  const a = Math.atan(Math.cos((w - i) / 2) / Math.cos((w + i) / 2) * Math.tan(halfN)) - halfN;
+  const b = Math.atan(Math.sin((w - i) / 2) / Math.sin((w + i) / 2) * Math.tan(halfN)) - halfN;
+  const nu = a - b;
+  const xi = -(a + b);
+
+  // K1 and K2 combine lunar and solar terms (Schureman eqs. 224, 232)
+  const nuPrime = Math.atan2(Math.sin(2 * I) * Math.sin(nu), Math.sin(2 * I) * Math.cos(nu) + 0.3347);
+  const nuSecond2 = Math.atan2(Math.sin(I) ** 2 * Math.sin(2 * nu), Math.sin(I) ** 2 * Math.cos(2 * nu) + 0.0727);
+
+  return {
+    T, s, h, p, N, p1,
+    I: I / DEG,
+    nu: nu / DEG,
+    xi: xi / DEG,
+    nuPrime: nuPrime / DEG,
+    nuSecond2: nuSecond2 / DEG,
+  };
+}
+
+/** Nodal corrections of the elementary constituents, from which compounds are built */
+const NODAL = {
+  unity: (): NodalCorrection => ({ f: 1, u: 0 }),
+  M2: (a: AstronomicalArguments): NodalCorrection => ({
+    f: Math.cos(a.I * DEG / 2) ** 4 / 0.9154,
+    u: 2 * a.xi - 2 * a.nu,
+  }),
+  O1: (a: AstronomicalArguments): NodalCorrection => ({
+    f: Math.sin(a.I * DEG) * Math.cos(a.I * DEG / 2) ** 2 / 0.38,
+    u: 2 * a.xi - a.nu,
+  }),
+  K1: (a: AstronomicalArguments): NodalCorrection => {
+    const sin2I = Math.sin(2 * a.I * DEG);
+    return { f: Math.sqrt(0.8965 * sin2I ** 2 + 0.6001 * sin2I * Math.cos(a.nu * DEG) + 0.1006), u: -a.nuPrime };
+  },
+  K2: (a: AstronomicalArguments): NodalCorrection => {
+    const sinI = Math.sin(a.I * DEG);
+    return { f: Math.sqrt(19.0444 * sinI ** 4 + 2.7702 * sinI ** 2 * Math.cos(2 * a.nu * DEG) + 0.0981), u: -a.nuSecond2 };
+  },
+  J1: (a: AstronomicalArguments): NodalCorrection => ({
+    f: Math.sin(2 * a.I * DEG) / 0.7214,
+    u: -a.nu,
+  }),
+  OO1: (a: AstronomicalArguments): NodalCorrection => ({
+    f: Math.sin(a.I * DEG) * Math.sin(a.I * DEG / 2) ** 2 / 0.0164,
+    u: -2 * a.xi - a.nu,
+  }),
+  MF: (a: AstronomicalArguments): NodalCorrection => ({
+    f: Math.sin(a.I * DEG) ** 2 / 0.1578,
+    u: -2 * a.xi,
+  }),
+  MM: (a: AstronomicalArguments): NodalCorrection => ({
+    f: (2 / 3 - Math.sin(a.I * DEG) ** 2) / 0.5021,
+    u: 0,
+  }),
+  // L2 and M1 also depend on the perigee relative to the lunar intersection (Schureman eqs. 196-215)
+  L2: (a: AstronomicalArguments): NodalCorrection => {
+    const m2 = NODAL.M2(a);
+    const P = (a.p - a.xi) * DEG;
+    const tanHalfI = Math.tan(a.I * DEG / 2);
+    const invRa = Math.sqrt(1 - 12 * tanHalfI ** 2 * Math.cos(2 * P) + 36 * tanHalfI ** 4);
+    const R = Math.atan2(Math.sin(2 * P), 1 / (6 * tanHalfI ** 2) - Math.cos(2 * P)) / DEG;
+    return { f: m2.f * invRa, u: m2.u - R };
+  },
+  M1: (a: AstronomicalArguments): NodalCorrection => {
+    const o1 = NODAL.O1(a);
+    const P = (a.p - a.xi) * DEG;
+    const cosI = Math.cos(a.I * DEG);
+    const cosHalfI2 = Math.cos(a.I * DEG / 2) ** 2;
+    const invQa = Math.sqrt(0.25 + 1.5 * (cosI / cosHalfI2) * Math.cos(2 * P) + 2.25 * (cosI / cosHalfI2) ** 2);
+    const Q = Math.atan2((5 * cosI - 1) * Math.sin(P), (7 * cosI + 1) * Math.cos(P)) / DEG;
+    // V carries the perigee advance so it runs at NOAA's M1 speed; remove it again here
+    return { f: o1.f * invQa, u: a.xi - a.nu + Q - a.p };
+  },
+};
+
+/** Combines elementary corrections: Σ n·u and Π f^|n| */
+function compound(...terms: [(a: AstronomicalArguments) => NodalCorrection, number][]) {
+  return (a: AstronomicalArguments): NodalCorrection => {
+    let f = 1;
+    let u = 0;
+    for (const [correction, n] of terms) {
+      const c = correction(a);
+      f *= c.f ** Math.abs(n);
+      u += n * c.u;
+    }
+    return { f, u };
+  };
+}
+
+/**
+ * Definition of a constituent
+ *
+ * `v` holds the coefficients of [T, s, h, p, p1] and a constant phase (degrees)
+ * of the equilibrium argument V.
+ */
+interface ConstituentDefinition {
+  v: [number, number, number, number, number, number];
+  nodal: (a: AstronomicalArguments) => NodalCorrection;
+}
+
+/** The 37 constituents NOAA publishes for its harmonic stations */
+const CONSTITUENTS: Record<string, ConstituentDefinition> = {
+  // Semidiurnal
+  M2: { v: [2, -2, 2, 0, 0, 0], nodal: NODAL.M2 },
+  S2: { v: [2, 0, 0, 0, 0, 0], nodal: NODAL.unity },
+  N2: { v: [2, -3, 2, 1, 0, 0], nodal: NODAL.M2 },
+  K2: { v: [2, 0, 2, 0, 0, 0], nodal: NODAL.K2 },
+  NU2: { v: [2, -3, 4, -1, 0, 0], nodal: NODAL.M2 },
+  MU2: { v: [2, -4, 4, 0, 0, 0], nodal: NODAL.M2 },
+  '2N2': { v: [2, -4, 2, 2, 0, 0], nodal: NODAL.M2 },
+  LAM2: { v: [2, -1, 0, 1, 0, 180], nodal: NODAL.M2 },
+  L2: { v: [2, -1, 2, -1, 0, 180], nodal: NODAL.L2 },
+  T2: { v: [2, 0, -1, 0, 1, 0], nodal: NODAL.unity },
+  R2: { v: [2, 0, 1, 0, -1, 180], nodal: NODAL.unity },
+  '2SM2': { v: [2, 2, -2, 0, 0, 0], nodal: compound([NODAL.M2, -1]) },
+  // Diurnal
+  K1: { v: [1, 0, 1, 0, 0, -90], nodal: NODAL.K1 },
+  O1: { v: [1, -2, 1, 0, 0, 90], nodal: NODAL.O1 },
+  P1: { v: [1, 0, -1, 0, 0, 90], nodal: NODAL.unity },
+  Q1: { v: [1, -3, 1, 1, 0, 90], nodal: NODAL.O1 },
+  '2Q1': { v: [1, -4, 1, 2, 0, 90], nodal: NODAL.O1 },
+  RHO: { v: [1, -3, 3, -1, 0, 90], nodal: NODAL.O1 },
+  J1: { v: [1, 1, 1, -1, 0, -90], nodal: NODAL.J1 },
+  OO1: { v: [1, 2, 1, 0, 0, -90], nodal: NODAL.OO1 },
+  M1: { v: [1, -1, 1, 1, 0, -90], nodal: NODAL.M1 },
+  S1: { v: [1, 0, 0, 0, 0, 0], nodal: NODAL.unity },
+  // Shallow water and compound
+  M3: { v: [3, -3, 3, 0, 0, 0], nodal: compound([NODAL.M2, 1.5]) },
+  M4: { v: [4, -4, 4, 0, 0, 0], nodal: compound([NODAL.M2, 2]) },
+  MS4: { v: [4, -2, 2, 0, 0, 0], nodal: NODAL.M2 },
+  MN4: { v: [4, -5, 4, 1, 0, 0], nodal: compound([NODAL.M2, 2]) },
+  S4: { v: [4, 0, 0, 0, 0, 0], nodal: NODAL.unity },
+  M6: { v: [6, -6, 6, 0, 0, 0], nodal: compound([NODAL.M2, 3]) },
+  S6: { v: [6, 0, 0, 0, 0, 0], nodal: NODAL.unity },
+  M8: { v: [8, -8, 8, 0, 0, 0], nodal: compound([NODAL.M2, 4]) },
+  MK3: { v: [3, -2, 3, 0, 0, -90], nodal: compound([NODAL.M2, 1], [NODAL.K1, 1]) },
+  '2MK3': { v: [3, -4, 3, 0, 0, 90], nodal: compound([NODAL.M2, 2], [NODAL.K1, -1]) },
+  // Long period
+  MM: { v: [0, 1, 0, -1, 0, 0], nodal: NODAL.MM },
+  MF: { v: [0, 2, 0, 0, 0, 0], nodal: NODAL.MF },
+  MSF: { v: [0, 2, -2, 0, 0, 0], nodal: compound([NODAL.M2, -1]) },
+  SA: { v: [0, 0, 1, 0, 0, 0], nodal: NODAL.unity },
+  SSA: { v: [0, 0, 2, 0, 0, 0], nodal: NODAL.unity },
+};
+
+/**
+ * Checks whether the engine knows a constituent
+ *
+ * @param {string} name - Constituent name (case-insensitive)
+ * @returns {boolean} True when it can be predicted
+ */
+export function isSupportedConstituent(name: string): boolean {
+  return name.toUpperCase() in CONSTITUENTS;
+}
+
+/**
+ * Equilibrium argument V of a constituent, degrees in [0, 360)
+ *
+ * @param {string} name - Constituent name
+ * @param {AstronomicalArguments} args - Astronomical arguments at the instant
+ * @returns {number} V
+ * @throws {Error} When the constituent is unknown
+ */
+export function equilibriumArgument(name: string, args: AstronomicalArguments): number {
+  const def = CONSTITUENTS[name.toUpperCase()];
+  if (!def) throw new Error(`Unknown tidal constituent ${name}`);
+  const [cT, cs, ch, cp, cp1, phase] = def.v;
+  return wrap360(cT * args.T + cs * args.s + ch * args.h + cp * args.p + cp1 * args.p1 + phase);
+}
+
+/**
+ * Nodal correction of a constituent
+ *
+ * @param {string} name - Constituent name
+ * @param {AstronomicalArguments} args - Astronomical arguments, usually at mid-year
+ * @returns {NodalCorrection} f and u
+ * @throws {Error} When the constituent is unknown
+ */
+export function nodalCorrection(name: string, args: AstronomicalArguments): NodalCorrection {
+  const def = CONSTITUENTS[name.toUpperCase()];
+  if (!def) throw new Error(`Unknown tidal constituent ${name}`);
+  return def.nodal(args);
+}
+
+/**
+ * Speed implied by a constituent's equilibrium argument, degrees per hour
+ *
+ * Useful to check a table of constituents against published speeds.
+ *
+ * @param {string} name - Constituent name
+ * @returns {number} dV/dt
+ */
+export function constituentSpeed(name: string): number {
+  const def = CONSTITUENTS[name.toUpperCase()];
+  if (!def) throw new Error(`Unknown tidal constituent ${name}`);
+  // Mean motions of T, s, h, p, p1 in degrees per hour (derivatives of the Meeus series)
+  const rates = [15, 481267.88123421 / 876600, 36000.76983 / 876600, 4069.0137287 / 876600, 1.71946 / 876600];
+  return def.v.slice(0, 5).reduce((sum, c, k) => sum + c * rates[k], 0);
+}
+
+/**
+ * Predicts the astronomical tide from harmonic constituents
+ *
+ * Times are aligned to multiples of the interval (so a 6-minute series falls
+ * on :00, :06, ... like NOAA's). Constituents the engine doesn't know are
+ * skipped and reported through `onUnsupported`.
+ *
+ * @param {HarmonicConstituent[]} constituents - Station constituents (amplitudes relative to MSL)
+ * @param {Object} opts - Prediction options
+ * @param {Date} opts.start - First time (inclusive)
+ * @param {Date} opts.end - Last time (inclusive)
+ * @param {number} [opts.interval=6] - Minutes between predictions
+ * @param {number} [opts.datumOffset=0] - Height of MSL above the target datum (Z0)
+ * @param {(names: string[]) => void} [opts.onUnsupported] - Receives names of skipped constituents
+ * @returns {TimeSeries} Predicted water levels keyed by ISO minute
+ *
+ * @example
+ * const constituents = await fetchHarmonicConstituents({ station: '8658163', units: 'metric' });
+ * const series = predictTides(constituents, { start, end, interval: 1, datumOffset: 0.71 });
+ */
+export function predictTides(
+  constituents: HarmonicConstituent[],
+  opts: { start: Date; end: Date; interval?: number; datumOffset?: number; onUnsupported?: (names: string[]) => void }
+): TimeSeries {
+  const { start, end, interval = 6, datumOffset = 0, onUnsupported } = opts;
+  const stepMs = Math.max(1, Math.round(interval)) * 60_000;
+
+  const known = constituents.filter(c => isSupportedConstituent(c.name));
+  const unsupported = constituents.filter(c => !isSupportedConstituent(c.name)).map(c => c.name);
+  if (unsupported.length > 0) onUnsupported?.(unsupported);
+
+  const out: TimeSeries = {};
+  const endMs = end.getTime();
+  let t = Math.ceil(start.getTime() / stepMs) * stepMs;
+
+  while (t <= endMs) {
+    // V0 at the start of the year, f and u at its middle, as NOAA does
+    const year = new Date(t).getUTCFullYear();
+    const yearStart = Date.UTC(year, 0, 1);
+    const yearEnd = Math.min(Date.UTC(year + 1, 0, 1), endMs + 1);
+    const startArgs = astronomicalArguments(new Date(yearStart));
+    const midArgs = astronomicalArguments(new Date((yearStart + Date.UTC(year + 1, 0, 1)) / 2));
+    const terms = known.map(c => {
+      const { f, u } = nodalCorrection(c.name, midArgs);
+      return {
+        amplitude: f * c.amplitude,
+        speed: c.speed * DEG,
+        phase: (equilibriumArgument(c.name, startArgs) + u - c.phase) * DEG,
+      };
+    });
+
+    for (; t < yearEnd; t += stepMs) {
+      const hours = (t - yearStart) / 3_600_000;
+      let v = datumOffset;
+      for (const term of terms) {
+        v += term.amplitude * Math.cos(term.speed * hours + term.phase);
+      }
+      out[new Date(t).toISOString().slice(0, 16) + 'Z'] = v;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Predicts tides for a station locally, as a drop-in for `fetchPredictions`
+ *
+ * Loads the station's constituents and datums (cached station metadata, so
+ * this works offline after the first load) and synthesizes the series.
+ * Constituents the engine doesn't know are left out of the series and
+ * reported through `onUnsupported`.
+ *
+ * @param {Object} opts - Same options as `fetchPredictions`
+ * @param {(names: string[]) => void} [opts.onUnsupported] - Receives names of skipped constituents
+ * @returns {Promise<TimeSeries>} Predicted water levels relative to `datum`
+ * @throws {NOAAError} When the metadata can't be loaded
+ * @throws {NOAANoDataError} When the station lacks constituents or the datum
+ */
+export async function fetchLocalPredictions(opts: {
+  station: string;
+  start: Date;
+  end: Date;
+  interval?: number;
+  datum?: string;
+  units?: 'english' | 'metric';
+  cache?: CacheOptions;
+  signal?: AbortSignal;
+  onUnsupported?: (names: string[]) => void;
+}): Promise<TimeSeries> {
+  const { station, start, end, interval = 6, datum = 'MLLW', units = 'english', cache, signal, onUnsupported } = opts;
+  const [constituents, datums] = await Promise.all([
+    fetchHarmonicConstituents({ station, units, cache, signal }),
+    fetchStationDatums({ station, units, cache, signal }),
+  ]);
+
+  const datumOffset = convertDatum(0, 'MSL', datum, datums);
+  if (datumOffset === null) {
+    throw new NOAANoDataError(`Station ${station} has no MSL to ${datum} datum relation`);
+  }
+  return predictTides(constituents, { start, end, interval, datumOffset, onUnsupported });
+}
+
+/**
+ * Fetches tide predictions from NOAA, computing them locally when NOAA can't
+ * be reached
+ *
+ * Every interval and span goes to NOAA first; long spans are split into
+ * chunks by `fetchPredictions`. Only a `NOAAOfflineError` switches to the
+ * local engine; if the station metadata isn't cached either, the offline
+ * error is rethrown.
+ *
+ * @param {Object} opts - Same options as `fetchPredictions`
+ * @param {Function} [opts.onLocalPredictions] - Called when predictions are computed locally
+ * @param {(names: string[]) => void} [opts.onUnsupported] - Receives constituents left out of local predictions
+ * @returns {Promise<TimeSeries>} Predicted water levels relative to `datum`
+ * @throws {NOAAError} When neither NOAA nor the local engine can predict the request
+ */
+export async function fetchTidePredictions(opts: {
+  station: string;
+  start: Date;
+  end: Date;
+  interval?: number;
+  datum?: string;
+  units?: 'english' | 'metric';
+  cache?: CacheOptions;
+  signal?: AbortSignal;
+  onPartialFailure?: (failures: ChunkFailure[]) => void;
+  onLocalPredictions?: () => void;
+  onUnsupported?: (names: string[]) => void;
+}): Promise<TimeSeries> {
+  const { onLocalPredictions } = opts;
+
+  try {
+    return await fetchPredictions(opts);
+  } catch (error) {
+    if (!(error instanceof NOAAOfflineError)) throw error;
+    const local = await fetchLocalPredictions(opts).catch(() => {
+      throw error;
+    });
+    onLocalPredictions?.();
+    return local;
+  }
+}
+
+/**
+ * Agreement between two prediction series at their common times
+ *
+ * @property {number} n - Compared times
+ * @property {number} rmse - Root mean square difference
+ * @property {number} maxAbs - Largest absolute difference
+ * @property {number} bias - Mean of `local - reference`
+ */
+export interface PredictionComparison {
+  n: number;
+  rmse: number;
+  maxAbs: number;
+  bias: number;
+}
+
+/**
+ * Compares local predictions with a reference series, e.g. NOAA's own
+ *
+ * @param {TimeSeries} local - Series from `predictTides`
+ * @param {TimeSeries} reference - Reference series
+ * @returns {PredictionComparison} Difference statistics (n = 0 when no times match)
+ */
+export function comparePredictions(local: TimeSeries, reference: TimeSeries): PredictionComparison {
+  let n = 0;
+  let sum = 0;
+  let sumSq = 0;
+  let maxAbs = 0;
+  for (const [k, ref] of Object.entries(reference)) {
+    const v = local[k];
+    if (v === undefined) continue;
+    const d = v - ref;
+    n++;
+    sum += d;
+    sumSq += d * d;
+    maxAbs = Math.max(maxAbs, Math.abs(d));
+  }
+  return n === 0
+    ? { n: 0, rmse: 0, maxAbs: 0, bias: 0 }
+    : { n, rmse: Math.sqrt(sumSq / n), maxAbs, bias: sum / n };
+}
@@ -0,0 +1,369 @@
+/**
+ * @fileoverview Forecast hindcasting (backtesting)
+ *
+ * Replays a historical period to measure how good the surge-adjusted forecast
+ * from `buildAdjustedFuture` would have been. At each issue time the forecast
+ * is rebuilt from observations available at that moment only (predictions are
+ * astronomical and always known in advance), then compared with what was
+ * actually observed afterwards.
+ *
+ * Reported per combination of surge lookback window and surge strategy:
+ * - MAE, RMSE and bias of the adjusted forecast, by lead time
+ * - Threshold crossing skill: hits, misses, false alarms and timing error
+ *
+ * Data for the whole period is fetched once and every forecast is rebuilt in
+ * memory, so a month of hindcasts costs the same NOAA requests as one chart.
+ */
+
+import {
+  fetchObservations,
+  fetchPredictions,
+  findNextThresholdCrossing,
+  isFlaggedObservation,
+  surgeResiduals,
+} from './noaa';
+import type { CacheOptions, ChunkFailure, ObservationSeries, TimeSeries } from './noaa';
+import { SURGE_STRATEGY_IDS, estimateSurge, projectSurge, resolveSurgeStrategy } from './surge';
+import type { SurgeResidual, SurgeStrategy, SurgeStrategyId } from './surge';
+import { scaleObservations, scaleTimeSeries } from './units';
+
+/**
+ * Forecast error statistics
+ *
+ * @property {number} n - Number of forecast/observation pairs
+ * @property {number} mae - Mean absolute error
+ * @property {number} rmse - Root mean square error
+ * @property {number} bias - Mean of forecast minus observed (positive = forecast too high)
+ */
+export interface ForecastErrorStats {
+  n: number;
+  mae: number;
+  rmse: number;
+  bias: number;
+}
+
+/**
+ * Error statistics for one lead time bin
+ *
+ * @property {number} leadHours - Upper edge of the bin, e.g. 3 for leads in (2 h, 3 h]
+ */
+export interface LeadTimeErrorStats extends ForecastErrorStats {
+  leadHours: number;
+}
+
+/**
+ * Threshold crossing contingency table for a set of forecasts
+ *
+ * An event is an upward threshold crossing within the forecast horizon.
+ *
+ * @property {number} hits - Crossing forecast and observed
+ * @property {number} misses - Crossing observed but not forecast
+ * @property {number} falseAlarms - Crossing forecast but not observed
+ * @property {number} correctNegatives - No crossing forecast or observed
+ * @property {number | null} meanTimingErrorMinutes - Mean of forecast minus observed crossing time over hits
+ *   (positive = forecast late); null without hits
+ * @property {number | null} meanAbsTimingErrorMinutes - Mean absolute timing error over hits
+ */
+export interface CrossingSkill {
+  hits: number;
+  misses: number;
+  falseAlarms: number;
+  correctNegatives: number;
+  meanTimingErrorMinutes: number | null;
+  meanAbsTimingErrorMinutes: number | null;
+}
+
+/**
+ * Hindcast results for one lookback window and strategy
+ *
+ * @property {number} lookbackHours - Hours of residuals the surge was estimated from
+ * @property {string} strategy - Surge strategy id
+ * @property {string} strategyLabel - Display name of the strategy
+ * @property {number} issues - Forecasts evaluated
+ * @property {number} skipped - Issue times without observations in the lookback window
+ * @property {ForecastErrorStats} overall - Errors over all lead times
+ * @property {LeadTimeErrorStats[]} byLead - Errors per lead time bin (bins without data omitted)
+ * @property {CrossingSkill | null} crossings - Threshold skill, null when no threshold was given
+ */
+export interface HindcastRun {
+  lookbackHours: number;
+  strategy: SurgeStrategyId | string;
+  strategyLabel: string;
+  issues: number;
+  skipped: number;
+  overall: ForecastErrorStats;
+  byLead: LeadTimeErrorStats[];
+  crossings: CrossingSkill | null;
+}
+
+/**
+ * Complete hindcast results
+ *
+ * @property {Date} start - First issue time considered
+ * @property {Date} end - End of the verification period
+ * @property {number} issueTimes - Number of issue times in the period
+ * @property {number} horizonHours - Forecast horizon evaluated
+ * @property {HindcastRun[]} runs - One entry per lookback × strategy, in input order
+ */
+export interface HindcastResult {
+  start: Date;
+  end: Date;
+  issueTimes: number;
+  horizonHours: number;
+  runs: HindcastRun[];
+}
+
+/**
+ * Settings of a hindcast, independent of how the data is obtained
+ *
+ * @property {Date} start - First issue time
+ * @property {Date} end - End of the verification period; the last issue time leaves a full horizon before it
+ * @property {number[]} [lookbackHours=[3, 6, 12]] - Surge lookback windows to compare
+ * @property {(SurgeStrategyId | SurgeStrategy)[]} [strategies] - Strategies to compare (all built-ins by default)
+ * @property {number | null} [decayHours=null] - Surge e-folding time applied to every forecast
+ * @property {number} [horizonHours=24] - Forecast length evaluated at each issue time
+ * @property {number} [issueEveryHours=6] - Spacing between issue times
+ * @property {number} [leadBinHours=1] - Width of the lead time bins
+ * @property {number} [threshold] - Flood threshold for crossing skill (same units and datum as the data)
+ * @property {boolean} [excludeFlagged=false] - Ignore quality-flagged observations for estimation and verification
+ */
+export interface HindcastSettings {
+  start: Date;
+  end: Date;
+  lookbackHours?: number[];
+  strategies?: (SurgeStrategyId | SurgeStrategy)[];
+  decayHours?: number | null;
+  horizonHours?: number;
+  issueEveryHours?: number;
+  leadBinHours?: number;
+  threshold?: number;
+  excludeFlagged?: boolean;
+}
+
+/** Running sums for error statistics */
+interface ErrorAccumulator {
+  n: number;
+  sum: number;
+  sumAbs: number;
+  sumSq: number;
+}
+
+const HOUR_MS = 3600_000;
+
+function newAccumulator(): ErrorAccumulator {
+  return { n: 0, sum: 0, sumAbs: 0, sumSq: 0 };
+}
+
+function accumulate(acc: ErrorAccumulator, error: number): void {
+  acc.n++;
+  acc.sum += error;
+  acc.sumAbs += Math.abs(error);
+  acc.sumSq += error * error;
+}
+
+function finalize(acc: ErrorAccumulator): ForecastErrorStats {
+  if (acc.n === 0) return { n: 0, mae: NaN, rmse: NaN, bias: NaN };
+  return {
+    n: acc.n,
+    mae: acc.sumAbs / acc.n,
+    rmse: Math.sqrt(acc.sumSq / acc.n),
+    bias: acc.sum / acc.n,
+  };
+}
+
+/**
+ * Index of the first element with `t >= value` in a list sorted by `t`
+ */
+function lowerBound(items: { t: number }[], value: number): number {
+  let lo = 0;
+  let hi = items.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (items[mid].t < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Evaluates hindcasts over already loaded data
+ *
+ * `observed` and `predicted` must cover `start - max(lookbackHours)` to `end`.
+ *
+ * @param {ObservationSeries} observed - Observations for the whole period
+ * @param {TimeSeries} predicted - Predictions for the whole period
+ * @param {HindcastSettings} settings - Period and configurations to compare
+ * @returns {HindcastResult} Error and crossing statistics per lookback × strategy
+ *
+ * @example
+ * const result = evaluateHindcast(observed, predicted, {
+ *   start: new Date('2024-01-01T00:00Z'),
+ *   end: new Date('2024-01-31T00:00Z'),
+ *   threshold: 6.1,
+ * });
+ * const best = [...result.runs].sort((a, b) => a.overall.mae - b.overall.mae)[0];
+ */
+export function evaluateHindcast(
+  observed: ObservationSeries,
+  predicted: TimeSeries,
+  settings: HindcastSettings
+): HindcastResult {
+  const {
+    start, end, lookbackHours = [3, 6, 12], strategies = [...SURGE_STRATEGY_IDS], decayHours = null,
+    horizonHours = 24, issueEveryHours = 6, leadBinHours = 1, threshold, excludeFlagged = false,
+  } = settings;
+
+  const residuals = surgeResiduals(observed, predicted, { excludeFlagged }).sort((a, b) => a.t - b.t);
+
+  const verifying = new Map<number, number>();
+  for (const [k, obs] of Object.entries(observed)) {
+    if (excludeFlagged && isFlaggedObservation(obs)) continue;
+    verifying.set(new Date(k).getTime(), obs.v);
+  }
+
+  const predictions = Object.entries(predicted)
+    .map(([k, v]) => ({ t: new Date(k).getTime(), v }))
+    .sort((a, b) => a.t - b.t);
+
+  // Issue times leave a full horizon of verifying observations before `end`
+  const issues: number[] = [];
+  const horizonMs = horizonHours * HOUR_MS;
+  for (let t = start.getTime(); t + horizonMs <= end.getTime(); t += issueEveryHours * HOUR_MS) {
+    issues.push(t);
+  }
+
+  // Observed crossings don't depend on the forecast configuration
+  const observedCrossings = threshold === undefined ? [] : issues.map(issue => {
+    const window: TimeSeries = {};
+    for (const [t, v] of verifying) {
+      if (t >= issue && t <= issue + horizonMs) window[new Date(t).toISOString()] = v;
+    }
+    return findNextThresholdCrossing(window, threshold, new Date(issue));
+  });
+
+  const binCount = Math.max(1, Math.ceil(horizonHours / leadBinHours));
+  const runs: HindcastRun[] = [];
+
+  for (const lookback of lookbackHours) {
+    for (const strategyRef of strategies) {
+      const strategy = resolveSurgeStrategy(strategyRef);
+      const overall = newAccumulator();
+      const bins = Array.from({ length: binCount }, newAccumulator);
+      const skill = { hits: 0, misses: 0, falseAlarms: 0, correctNegatives: 0 };
+      const timingErrors: number[] = [];
+      let skipped = 0;
+
+      issues.forEach((issue, i) => {
+        // Only residuals known at the issue time
+        const from = lowerBound(residuals, issue - lookback * HOUR_MS);
+        const to = lowerBound(residuals, issue + 1);
+        const known: SurgeResidual[] = residuals.slice(from, to);
+        if (known.length === 0) {
+          skipped++;
+          return;
+        }
+
+        const issueDate = new Date(issue);
+        const model = estimateSurge(known, issueDate, strategy);
+        const forecast: TimeSeries = {};
+
+        for (let j = lowerBound(predictions, issue); j < predictions.length; j++) {
+          const { t, v } = predictions[j];
+          if (t > issue + horizonMs) break;
+
+          const leadHours = (t - issue) / HOUR_MS;
+          const value = v + projectSurge(model, leadHours, decayHours);
+          forecast[new Date(t).toISOString()] = value;
+
+          const actual = verifying.get(t);
+          if (leadHours > 0 && actual !== undefined) {
+            const error = value - actual;
+            accumulate(overall, error);
+            accumulate(bins[Math.min(binCount - 1, Math.ceil(leadHours / leadBinHours) - 1)], error);
+          }
+        }
+
+        if (threshold === undefined) return;
+        const forecastCrossing = findNextThresholdCrossing(forecast, threshold, issueDate);
+        const observedCrossing = observedCrossings[i];
+        if (forecastCrossing && observedCrossing) {
+          skill.hits++;
+          timingErrors.push((forecastCrossing.tCross.getTime() - observedCrossing.tCross.getTime()) / 60000);
+        } else if (observedCrossing) {
+          skill.misses++;
+        } else if (forecastCrossing) {
+          skill.falseAlarms++;
+        } else {
+          skill.correctNegatives++;
+        }
+      });
+
+      runs.push({
+        lookbackHours: lookback,
+        strategy: strategy.id,
+        strategyLabel: strategy.label,
+        issues: issues.length - skipped,
+        skipped,
+        overall: finalize(overall),
+        byLead: bins
+          .map((acc, b) => ({ leadHours: (b + 1) * leadBinHours, ...finalize(acc) }))
+          .filter(stats => stats.n > 0),
+        crossings: threshold === undefined ? null : {
+          ...skill,
+          meanTimingErrorMinutes: timingErrors.length
+            ? timingErrors.reduce((a, b) => a + b, 0) / timingErrors.length
+            : null,
+          meanAbsTimingErrorMinutes: timingErrors.length
+            ? timingErrors.reduce((a, b) => a + Math.abs(b), 0) / timingErrors.length
+            : null,
+        },
+      });
+    }
+  }
+
+  return { start, end, issueTimes: issues.length, horizonHours, runs };
+}
+
+/**
+ * Fetches a historical period from NOAA and evaluates hindcasts over it
+ *
+ * @param {Object} opts - Hindcast settings plus request options
+ * @param {string} opts.station - NOAA station ID
+ * @param {string} [opts.datum='MLLW'] - Vertical datum reference
+ * @param {'english' | 'metric'} [opts.units='english'] - Unit system of the request
+ * @param {number} [opts.scale=1] - Factor applied to the fetched levels, e.g. `responseScale` for centimeters; the threshold uses the scaled unit
+ * @param {CacheOptions} [opts.cache] - Cache behaviour and provenance callbacks
+ * @param {AbortSignal} [opts.signal] - Cancels the requests
+ * @param {Function} [opts.onPartialFailure] - Receives chunks that failed to load
+ * @returns {Promise<HindcastResult>} Hindcast statistics
+ *
+ * @example
+ * const end = new Date();
+ * const result = await runHindcast({
+ *   station: '8658163',
+ *   start: new Date(end.getTime() - 14 * 86_400_000),
+ *   end,
+ *   threshold: 6.1,
+ * });
+ */
+export async function runHindcast(opts: HindcastSettings & {
+  station: string;
+  datum?: string;
+  units?: 'english' | 'metric';
+  scale?: number;
+  cache?: CacheOptions;
+  signal?: AbortSignal;
+  onPartialFailure?: (failures: ChunkFailure[]) => void;
+}): Promise<HindcastResult> {
+  const { station, datum = 'MLLW', units = 'english', scale = 1, cache, signal, onPartialFailure, ...settings } = opts;
+  const maxLookback = Math.max(0, ...(settings.lookbackHours ?? [12]));
+  const fetchStart = new Date(settings.start.getTime() - maxLookback * HOUR_MS);
+  const request = { station, start: fetchStart, end: settings.end, datum, units, cache, signal, onPartialFailure };
+
+  const [observed, predicted] = await Promise.all([
+    fetchObservations(request),
+    fetchPredictions(request),
+  ]);
+
+  return evaluateHindcast(scaleObservations(observed, scale), scaleTimeSeries(predicted, scale), settings);
+}
@@ -0,0 +1,300 @@
+/**
+ * @fileoverview Wind and pressure driven surge
+ *
+ * Explains the observed surge (observed minus predicted water level) with the
+ * two local weather forcings NOAA stations measure:
+ * - wind stress, split into a shore-normal (onshore) and an alongshore part.
+ *   Stress grows with the square of the wind speed, so each component is
+ *   regressed as `speed × component`.
+ * - the inverse-barometer effect: the sea rises about 1 cm for every hPa the
+ *   air pressure falls below the standard atmosphere.
+ *
+ * The surge over the lookback window is regressed on these predictors by
+ * least squares. A few hours of data rarely pin down all coefficients, so the
+ * fit is ridge-regularized toward physical priors (no wind response, the
+ * theoretical inverse barometer); predictors that barely vary in the window
+ * keep their prior. The intercept absorbs everything else (remote forcing,
+ * seiches, datum drift).
+ */
+
+import { estimateSurge } from './surge';
+import type { SurgeModel, SurgeResidual, SurgeStrategy } from './surge';
+import type { TimeSeries, WindObservation, WindSeries } from './noaa';
+
+/** Standard sea-level pressure, hPa (mb) */
+export const STANDARD_PRESSURE_HPA = 1013.25;
+
+/** Static sea-level response to a pressure drop, meters per hPa (1 hPa / ρg) */
+export const INVERSE_BAROMETER_M_PER_HPA = 0.00994;
+
+/** Meters per foot */
+const M_PER_FT = 0.3048;
+
+/** Ridge penalty relative to each predictor's own variation */
+const RIDGE = 0.1;
+
+/** Fewer matched samples than this are not fitted */
+const MIN_SAMPLES = 10;
+
+/**
+ * Wind speed split relative to the coast
+ *
+ * @property {number} onshore - Component blowing toward the shore (negative = offshore)
+ * @property {number} alongshore - Component along the shore, positive for wind from
+ *   the right of the shore normal when looking out to sea
+ */
+export interface ShoreComponents {
+  onshore: number;
+  alongshore: number;
+}
+
+/**
+ * Weather contributions to the surge at one time
+ *
+ * @property {number} t - Epoch milliseconds
+ * @property {number} wind - Surge explained by wind stress
+ * @property {number} pressure - Surge explained by the inverse-barometer effect
+ * @property {number} other - Remaining observed surge (intercept and noise)
+ */
+export interface MeteoContribution {
+  t: number;
+  wind: number;
+  pressure: number;
+  other: number;
+}
+
+/**
+ * Regression of the surge on wind stress and air pressure
+ *
+ * Coefficients are per unit of the predictor in the units the inputs were
+ * given in (residual unit per knot² or (m/s)², residual unit per hPa).
+ *
+ * @property {number} n - Samples with surge and weather data
+ * @property {number} shoreNormalDeg - Shore-normal direction the wind was split along
+ * @property {number} intercept - Surge not explained by local weather
+ * @property {number} onshoreCoef - Response to onshore wind stress
+ * @property {number} alongshoreCoef - Response to alongshore wind stress
+ * @property {number} barometricCoef - Response per hPa below standard pressure
+ * @property {boolean} hasWind - Whether wind data was available
+ * @property {boolean} hasPressure - Whether pressure data was available
+ * @property {number} r2 - Fraction of surge variance explained (0–1)
+ * @property {MeteoContribution[]} contributions - Breakdown of every sample, chronological
+ */
+export interface MeteoSurgeFit {
+  n: number;
+  shoreNormalDeg: number;
+  intercept: number;
+  onshoreCoef: number;
+  alongshoreCoef: number;
+  barometricCoef: number;
+  hasWind: boolean;
+  hasPressure: boolean;
+  r2: number;
+  contributions: MeteoContribution[];
+}
+
+/**
+ * Options for fitting the weather surge model
+ *
+ * @property {number} shoreNormalDeg - Compass bearing from the station out to open
+ *   water; wind from this direction blows straight onshore
+ * @property {'english' | 'metric'} units - Unit system of the residuals (feet or meters)
+ */
+export interface MeteoSurgeOptions {
+  shoreNormalDeg: number;
+  units: 'english' | 'metric';
+}
+
+/**
+ * Splits a wind observation into onshore and alongshore components
+ *
+ * @param {WindObservation} wind - Speed and direction the wind blows from
+ * @param {number} shoreNormalDeg - Bearing from the station out to open water
+ * @returns {ShoreComponents} Signed components in the wind speed unit
+ *
+ * @example
+ * // East-facing coast, 20 kn from the northeast
+ * shoreComponents({ speed: 20, direction: 45, gust: null }, 90); // { onshore: 14.1, alongshore: -14.1 }
+ */
+export function shoreComponents(wind: WindObservation, shoreNormalDeg: number): ShoreComponents {
+  const angle = ((wind.direction - shoreNormalDeg) * Math.PI) / 180;
+  return {
+    onshore: wind.speed * Math.cos(angle),
+    alongshore: wind.speed * Math.sin(angle),
+  };
+}
+
+/** Time key of a residual, matching the NOAA series keys */
+function keyOf(t: number): string {
+  return new Date(t).toISOString().slice(0, 16) + 'Z';
+}
+
+/**
+ * Solves a small dense linear system by Gaussian elimination with partial pivoting
+ *
+ * @returns Solution, or null when the system is singular
+ */
+function solve(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = m[r][n];
+    for (let c = r + 1; c < n; c++) sum -= m[r][c] * x[c];
+    x[r] = sum / m[r][r];
+  }
+  return x;
+}
+
+/**
+ * Regresses surge residuals on wind stress and the inverse-barometer effect
+ *
+ * Residuals are matched to weather observations at the same 6-minute time.
+ * A station without wind or pressure data is fitted with the other forcing
+ * only; with neither, or too few matched samples, there is nothing to fit.
+ *
+ * @param {SurgeResidual[]} residuals - Observed minus predicted water level
+ * @param {WindSeries} wind - Wind observations (may be empty)
+ * @param {TimeSeries} pressure - Air pressure in hPa (may be empty)
+ * @param {MeteoSurgeOptions} opts - Coast orientation and residual units
+ * @returns {MeteoSurgeFit | null} Fit, or null when there is too little data
+ *
+ * @example
+ * const fit = fitMeteoSurge(residuals, wind, pressure, { shoreNormalDeg: 135, units: 'english' });
+ * const latest = fit?.contributions[fit.contributions.length - 1];
+ * // latest.wind: surge currently explained by the wind
+ */
+export function fitMeteoSurge(
+  residuals: SurgeResidual[],
+  wind: WindSeries,
+  pressure: TimeSeries,
+  opts: MeteoSurgeOptions
+): MeteoSurgeFit | null {
+  const hasWind = Object.keys(wind).length > 0;
+  const hasPressure = Object.keys(pressure).length > 0;
+  if (!hasWind && !hasPressure) return null;
+
+  // Predictors per sample: onshore stress, alongshore stress, pressure deficit
+  const samples: { t: number; y: number; x: number[] }[] = [];
+  for (const r of [...residuals].sort((a, b) => a.t - b.t)) {
+    const key = keyOf(r.t);
+    const w = wind[key];
+    const p = pressure[key];
+    if ((hasWind && !w) || (hasPressure && p === undefined)) continue;
+    const c = w ? shoreComponents(w, opts.shoreNormalDeg) : { onshore: 0, alongshore: 0 };
+    samples.push({
+      t: r.t,
+      y: r.v,
+      x: [w ? w.speed * c.onshore : 0, w ? w.speed * c.alongshore : 0, hasPressure ? STANDARD_PRESSURE_HPA - p : 0],
+    });
+  }
+  const n = samples.length;
+  if (n < MIN_SAMPLES) return null;
+
+  const ibPrior = INVERSE_BAROMETER_M_PER_HPA / (opts.units === 'english' ? M_PER_FT : 1);
+  const prior = [0, 0, hasPressure ? ibPrior : 0];
+
+  // Predictors without variation in the window can't be estimated and keep their prior
+  const mean = [0, 1, 2].map(j => samples.reduce((s, d) => s + d.x[j], 0) / n);
+  const spread = [0, 1, 2].map(j => samples.reduce((s, d) => s + (d.x[j] - mean[j]) ** 2, 0));
+  const active = [0, 1, 2].filter(j => spread[j] > 1e-9 * n);
+
+  // Remove the prior contribution of fixed predictors, then center
+  const fixed = [0, 1, 2].filter(j => !active.includes(j));
+  const y = samples.map(d => d.y - fixed.reduce((s, j) => s + prior[j] * d.x[j], 0));
+  const yMean = y.reduce((s, v) => s + v, 0) / n;
+
+  const coef = [...prior];
+  if (active.length > 0) {
+    const a = active.map(j => active.map(k => samples.reduce((s, d) => s + (d.x[j] - mean[j]) * (d.x[k] - mean[k]), 0)));
+    const b = active.map(j => samples.reduce((s, d, i) => s + (d.x[j] - mean[j]) * (y[i] - yMean), 0));
+    active.forEach((j, i) => {
+      const lambda = RIDGE * spread[j];
+      a[i][i] += lambda;
+      b[i] += lambda * prior[j];
+    });
+    const solution = solve(a, b);
+    if (solution) active.forEach((j, i) => { coef[j] = solution[i]; });
+  }
+  const intercept = yMean - active.reduce((s, j) => s + coef[j] * mean[j], 0);
+
+  let ssRes = 0;
+  let ssTot = 0;
+  const residualMean = samples.reduce((s, d) => s + d.y, 0) / n;
+  const contributions = samples.map(d => {
+    const windPart = coef[0] * d.x[0] + coef[1] * d.x[1];
+    const pressurePart = coef[2] * d.x[2];
+    ssRes += (d.y - intercept - windPart - pressurePart) ** 2;
+    ssTot += (d.y - residualMean) ** 2;
+    return { t: d.t, wind: windPart, pressure: pressurePart, other: d.y - windPart - pressurePart };
+  });
+
+  return {
+    n,
+    shoreNormalDeg: opts.shoreNormalDeg,
+    intercept,
+    onshoreCoef: coef[0],
+    alongshoreCoef: coef[1],
+    barometricCoef: coef[2],
+    hasWind,
+    hasPressure,
+    r2: ssTot > 0 ? Math.max(0, 1 - ssRes / ssTot) : 0,
+    contributions,
+  };
+}
+
+/**
+ * Surge model from a weather fit
+ *
+ * The surge now is the fitted value at the latest sample: the intercept plus
+ * the current wind and pressure contributions. Without forecast weather the
+ * model holds that value (subject to the configured decay).
+ *
+ * @param {MeteoSurgeFit} fit - Fit from `fitMeteoSurge`
+ * @returns {SurgeModel} Constant model with strategy id 'meteo'
+ */
+export function meteoSurgeModel(fit: MeteoSurgeFit): SurgeModel {
+  const latest = fit.contributions[fit.contributions.length - 1];
+  return {
+    strategy: 'meteo',
+    offset: fit.intercept + latest.wind + latest.pressure,
+    n: fit.n,
+    slopePerHour: 0,
+    trendLimitHours: 0,
+  };
+}
+
+/**
+ * Surge strategy backed by wind and pressure observations
+ *
+ * Plugs into `estimateSurge` / `adjustPredictions` like the built-in
+ * strategies. Falls back to the median when the weather data can't be fitted.
+ *
+ * @param {WindSeries} wind - Wind observations covering the lookback window
+ * @param {TimeSeries} pressure - Air pressure (hPa) covering the lookback window
+ * @param {MeteoSurgeOptions} opts - Coast orientation and residual units
+ * @returns {SurgeStrategy} Strategy with id 'meteo'
+ */
+export function meteoSurgeStrategy(wind: WindSeries, pressure: TimeSeries, opts: MeteoSurgeOptions): SurgeStrategy {
+  return {
+    id: 'meteo',
+    label: 'Wind & pressure',
+    description: 'Regression on onshore and alongshore wind stress and the inverse barometer',
+    estimate: (residuals, now) => {
+      const fit = fitMeteoSurge(residuals, wind, pressure, opts);
+      return fit ? meteoSurgeModel(fit) : estimateSurge(residuals, now, 'median');
+    },
+  };
+}
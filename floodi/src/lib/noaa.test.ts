@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { findFloodEvents, findNextThresholdCrossing } from './noaa';
+import type { TimeSeries } from './noaa';
+
+const START = Date.UTC(2024, 0, 15);
+
+/** Time `minutes` after the start of the test series */
+const at = (minutes: number) => new Date(START + minutes * 60000);
+
+/** Series with one value every `stepMinutes` from the start */
+function series(values: number[], stepMinutes = 60): TimeSeries {
+  const out: TimeSeries = {};
+  values.forEach((v, i) => {
+    out[at(i * stepMinutes).toISOString().slice(0, 16) + 'Z'] = v;
+  });
+  return out;
+}
+
+/**
+ * The crossing search `findNextThresholdCrossing` used before it was built on
+ * `findFloodEvents`, kept to check that crossing times and lead times are unchanged
+ */
+function legacyNextCrossing(input: TimeSeries, threshold: number, now: Date) {
+  const nowMs = now.getTime();
+  const entries = Object.entries(input)
+    .map(([k, v]) => ({ t: new Date(k).getTime(), v }))
+    .sort((a, b) => a.t - b.t)
+    .filter(p => p.t >= nowMs - 6 * 60 * 1000);
+  for (let i = 1; i < entries.length; i++) {
+    const prev = entries[i - 1];
+    const { t, v } = entries[i];
+    if (prev.v < threshold && v >= threshold) {
+      const x = t > prev.t && v !== prev.v
+        ? prev.t + Math.max(0, Math.min(1, (threshold - prev.v) / (v - prev.v))) * (t - prev.t)
+        : t;
+      return { tCross: new Date(x), leadMinutes: Math.round((x - nowMs) / 60000) };
+    }
+  }
+  return null;
+}
+
+describe('findFloodEvents', () => {
+  it('returns nothing for an empty series', () => {
+    expect(findFloodEvents({}, 5)).toEqual([]);
+  });
+
+  it('finds an episode already in progress at the series start and a later one', () => {
+    const events = findFloodEvents(series([5, 6, 4, 3, 4, 6, 7, 6, 4]), 5);
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      onset: null,
+      recession: at(90),
+      peakTime: at(60),
+      peak: 6,
+      maxDepth: 1,
+      durationMinutes: 90,
+      inProgress: false,
+    });
+    expect(events[1]).toMatchObject({
+      onset: at(270),
+      recession: at(450),
+      peakTime: at(360),
+      peak: 7,
+      maxDepth: 2,
+      durationMinutes: 180,
+    });
+  });
+
+  it('leaves an episode still above the threshold at the series end open', () => {
+    const [event, ...rest] = findFloodEvents(series([3, 6, 7]), 5, { now: at(90) });
+
+    expect(rest).toEqual([]);
+    expect(event).toMatchObject({
+      onset: at(40),
+      recession: null,
+      peakTime: at(120),
+      peak: 7,
+      durationMinutes: 80,
+      inProgress: true,
+    });
+  });
+
+  it('accepts points as well as a keyed series', () => {
+    const points = [0, 1, 2].map(i => ({ t: at(i * 60), v: [4, 6, 4][i] }));
+    expect(findFloodEvents(points, 5)).toEqual(findFloodEvents(series([4, 6, 4]), 5));
+  });
+});
+
+describe('findNextThresholdCrossing', () => {
+  it('interpolates the crossing time and lead time', () => {
+    const crossing = findNextThresholdCrossing(series([4, 4.5, 5.2, 6, 5, 4]), 5, at(30));
+
+    expect(crossing?.tCross.getTime()).toBeCloseTo(at(60 + (0.5 / 0.7) * 60).getTime(), 0);
+    expect(crossing?.leadMinutes).toBe(73);
+  });
+
+  it.each([
+    { name: 'a rising series', values: [4, 4.5, 5.2, 6, 5, 4], stepMinutes: 60, now: 30 },
+    { name: 'a flood in progress at now', values: [6, 6, 4, 6], stepMinutes: 60, now: 0 },
+    { name: 'a level reaching the threshold exactly', values: [4, 5, 4], stepMinutes: 60, now: 0 },
+    { name: '6-minute data with a point just before now', values: [4.8, 4.9, 5.1, 5.3, 4.7, 5.4], stepMinutes: 6, now: 9 },
+    { name: 'a series that stays below', values: [1, 2, 3, 2], stepMinutes: 60, now: 0 },
+    { name: 'a single point after now', values: [4, 6], stepMinutes: 60, now: 30 },
+  ])('matches the previous implementation for $name', ({ values, stepMinutes, now }) => {
+    const input = series(values, stepMinutes);
+    expect(findNextThresholdCrossing(input, 5, at(now))).toEqual(legacyNextCrossing(input, 5, at(now)));
+  });
+});
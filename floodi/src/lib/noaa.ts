@@ -7,15 +7,31 @@
  * 
  * Key Features:
  * - Observed water level data retrieval
- * - Tide predictions from harmonic analysis
+ * - Tide predictions from harmonic analysis (continuous and high/low)
+ * - Wind and barometric pressure observations
  * - Storm surge estimation through observed vs predicted comparison
  * - Flood threshold crossing detection
  * - Future water level projections with surge adjustment
+ * - Persistent stale-while-revalidate response caching
  * 
  * @see {@link https://api.tidesandcurrents.noaa.gov/api/prod/} NOAA API Documentation
  * @see {@link https://tidesandcurrents.noaa.gov/web_services_info.html} NOAA Web Services Info
  */
 
+import { cachedFetch, type CacheMeta } from './noaaCache';
+import { estimateSurge, projectSurge } from './surge';
+import type { SurgeModel, SurgeOptions, SurgeResidual, SurgeStrategy, SurgeStrategyId } from './surge';
+import {
+  NOAAError,
+  NOAAHttpError,
+  NOAANoDataError,
+  NOAAOfflineError,
+  NOAARateLimitError,
+  classifyNOAAMessage,
+  isAbortError,
+  parseRetryAfter,
+} from './noaaErrors';
+
 /**
  * Time series data structure mapping ISO datetime strings to water level values
  * 
@@ -29,12 +45,283 @@
  */
 export type TimeSeries = Record<string, number>; // ISO minute string (UTC) -> value
 
+/**
+ * NOAA data quality flags attached to each 6-minute water level observation
+ *
+ * Decoded from the `f` field ("O,F,R,L") of the water_level product.
+ *
+ * @property {number} outliers - Count of 1-second samples outside the 3-sigma band (O)
+ * @property {boolean} flat - Flat tolerance exceeded, the sensor may be stuck (F)
+ * @property {boolean} rateOfChange - Rate-of-change tolerance exceeded (R)
+ * @property {boolean} limitExceeded - Maximum or minimum expected water level exceeded (L)
+ */
+export interface ObservationFlags {
+  outliers: number;
+  flat: boolean;
+  rateOfChange: boolean;
+  limitExceeded: boolean;
+}
+
+/**
+ * A single water level observation with its NOAA quality metadata
+ *
+ * @property {number} v - Water level value
+ * @property {number | null} sigma - Standard deviation of the 1-second samples (`s`)
+ * @property {ObservationFlags} flags - Decoded quality flags (`f`)
+ * @property {'preliminary' | 'verified'} quality - QA level (`q`: p = preliminary, v = verified)
+ */
+export interface WaterLevelObservation {
+  v: number;
+  sigma: number | null;
+  flags: ObservationFlags;
+  quality: 'preliminary' | 'verified';
+}
+
+/**
+ * Observation series keyed like `TimeSeries` but keeping NOAA's quality fields
+ */
+export type ObservationSeries = Record<string, WaterLevelObservation>;
+
+/**
+ * A wind observation from the `wind` product
+ *
+ * Speeds are in knots for english units and m/s for metric units.
+ *
+ * @property {number} speed - Mean wind speed
+ * @property {number} direction - Direction the wind blows from, degrees true
+ * @property {number | null} gust - Peak gust (null when not reported)
+ */
+export interface WindObservation {
+  speed: number;
+  direction: number;
+  gust: number | null;
+}
+
+/**
+ * Wind observations keyed like `TimeSeries`
+ */
+export type WindSeries = Record<string, WindObservation>;
+
+/**
+ * High/low tide event type from the `interval=hilo` predictions product
+ *
+ * H = high, HH = higher high, L = low, LL = lower low (mixed semidiurnal stations
+ * distinguish the two daily highs and lows).
+ */
+export type TideEventType = 'H' | 'HH' | 'L' | 'LL';
+
+/**
+ * A predicted high or low tide
+ *
+ * @property {Date} t - Time of the extreme
+ * @property {number} v - Predicted water level
+ * @property {TideEventType} type - Which extreme this is
+ */
+export interface TideEvent {
+  t: Date;
+  v: number;
+  type: TideEventType;
+}
+
+/**
+ * Vertical datums users can reference heights to
+ *
+ * MLLW/MHHW/MHW/MSL are tidal datums, NAVD88 is the geodetic datum and STND is
+ * the station's own zero. Not every station publishes every datum.
+ */
+export type Datum = 'MLLW' | 'MHHW' | 'MHW' | 'MSL' | 'NAVD88' | 'STND';
+
+/** Selectable datums, in display order */
+export const DATUMS: readonly Datum[] = ['MLLW', 'MHHW', 'MHW', 'MSL', 'NAVD88', 'STND'];
+
+/**
+ * Heights of a station's datums above station datum (STND), keyed by datum name
+ *
+ * @example
+ * { STND: 0, MLLW: 4.38, MSL: 6.52, MHHW: 8.56, NAVD88: 6.93 }
+ */
+export type StationDatums = Record<string, number>;
+
+/**
+ * A harmonic constituent of the astronomical tide, as published by NOAA
+ *
+ * @property {string} name - Constituent name, e.g. 'M2', 'K1', 'SA'
+ * @property {number} amplitude - Amplitude in the requested unit
+ * @property {number} phase - Greenwich epoch (phase lag relative to the equilibrium tide at Greenwich), degrees
+ * @property {number} speed - Angular speed, degrees per hour
+ */
+export interface HarmonicConstituent {
+  name: string;
+  amplitude: number;
+  phase: number;
+  speed: number;
+}
+
+/**
+ * Agency that defined a flood level: NOAA NOS (tide gauge based flood thresholds)
+ * or the National Weather Service (flood stages used in warnings)
+ */
+export type FloodLevelSource = 'NOS' | 'NWS';
+
+/** Flood severity tiers used by both agencies */
+export type FloodSeverity = 'minor' | 'moderate' | 'major';
+
+/**
+ * An official flood level published for a station
+ *
+ * @property {FloodLevelSource} source - Agency defining the level
+ * @property {FloodSeverity} severity - Flood tier
+ * @property {number} value - Water level above station datum (STND)
+ */
+export interface FloodLevel {
+  source: FloodLevelSource;
+  severity: FloodSeverity;
+  value: number;
+}
+
+/**
+ * A sensor installed at a station
+ *
+ * @property {string} id - NOAA sensor ID, e.g. 'A1'
+ * @property {string} name - Sensor name, e.g. 'Water Level'
+ * @property {boolean} active - Whether the sensor currently reports
+ */
+export interface StationSensor {
+  id: string;
+  name: string;
+  active: boolean;
+}
+
+/**
+ * Descriptive station metadata
+ *
+ * @property {string | null} established - Date the station was established (YYYY-MM-DD)
+ * @property {string | null} removed - Date the station was removed from service (YYYY-MM-DD), null while active
+ * @property {string | null} tideType - Tide type, e.g. 'Semidiurnal' or 'Mixed'
+ * @property {string[]} products - Names of the data products NOAA publishes for the station
+ * @property {StationSensor[]} sensors - Installed sensors
+ */
+export interface StationDetails {
+  established: string | null;
+  removed: string | null;
+  tideType: string | null;
+  products: string[];
+  sensors: StationSensor[];
+}
+
+/**
+ * A flood category with the water level at which it begins
+ *
+ * @property {FloodSeverity} severity - Tier name
+ * @property {number} threshold - Lowest water level inside the tier
+ */
+export interface FloodTier {
+  severity: FloodSeverity;
+  threshold: number;
+}
+
+/**
+ * Next entry into a flood tier
+ *
+ * @property {FloodSeverity} severity - Tier being entered
+ * @property {number} threshold - Tier threshold
+ * @property {Date} tCross - Estimated time the series reaches the threshold
+ * @property {number} leadMinutes - Minutes from now until the crossing
+ */
+export interface TierCrossing extends FloodTier {
+  tCross: Date;
+  leadMinutes: number;
+}
+
+/**
+ * One flood episode: a continuous period at or above a threshold
+ *
+ * Times are interpolated between samples. Episodes cut off by the start or end
+ * of the series have a null onset or recession; their duration then only
+ * counts the part inside the series.
+ *
+ * @property {number} threshold - Threshold the episode was detected against
+ * @property {Date | null} onset - When the level rose to the threshold (null if already above at the series start)
+ * @property {Date | null} recession - When the level fell below again (null if still above at the series end)
+ * @property {Date} peakTime - Time of the highest sample
+ * @property {number} peak - Highest level reached
+ * @property {number} maxDepth - Peak height above the threshold
+ * @property {number} durationMinutes - Minutes at or above the threshold within the series
+ * @property {boolean} inProgress - True when the episode spans the `now` passed to `findFloodEvents`
+ */
+export interface FloodEvent {
+  threshold: number;
+  onset: Date | null;
+  recession: Date | null;
+  peakTime: Date;
+  peak: number;
+  maxDepth: number;
+  durationMinutes: number;
+  inProgress: boolean;
+}
+
+/**
+ * Caching behaviour for a NOAA request
+ *
+ * @property {boolean} [enabled=true] - Set to false to bypass the cache entirely
+ * @property {Function} [onMeta] - Receives cache provenance for the response being returned
+ * @property {Function} [onRevalidated] - Called when a stale cached response was refreshed
+ *   in the background; callers typically re-run the fetch to pick up the new data
+ */
+export interface CacheOptions {
+  enabled?: boolean;
+  onMeta?: (meta: CacheMeta) => void;
+  onRevalidated?: () => void;
+}
+
+export type { CacheMeta } from './noaaCache';
+export {
+  NOAAError,
+  NOAAHttpError,
+  NOAANoDataError,
+  NOAAInvalidRequestError,
+  NOAARateLimitError,
+  NOAAOfflineError,
+  isAbortError,
+} from './noaaErrors';
+export type { NOAAErrorKind } from './noaaErrors';
+
 /**
  * Base URL for the NOAA Tides and Currents API
  * This is the production endpoint that provides real-time and predicted data
  */
 const NOAA_BASE = 'https://api.tidesandcurrents.noaa.gov/api/prod/datagetter';
 
+/**
+ * Base URL for the NOAA station metadata API (datums, flood levels, products)
+ */
+const NOAA_MDAPI_BASE = 'https://api.tidesandcurrents.noaa.gov/mdapi/prod/webapi/stations';
+
+/** Station metadata changes only when NOAA publishes a new datum epoch or survey */
+const METADATA_CACHE_TTL_MS = 7 * 24 * 3600_000; // 7 days
+
+/**
+ * Cache time-to-live per NOAA product
+ *
+ * Predictions are deterministic harmonic output and rarely change, while
+ * preliminary observations gain a new sample every 6 minutes.
+ */
+const CACHE_TTL_MS: Record<string, number> = {
+  predictions: 24 * 3600_000,  // 24 hours
+  water_level: 6 * 60_000,     // 6 minutes
+  wind: 6 * 60_000,
+  air_pressure: 6 * 60_000,
+};
+const DEFAULT_CACHE_TTL_MS = 6 * 60_000;
+
+/**
+ * Builds a stable cache key from the request parameters that identify a data window
+ */
+function cacheKeyFor(params: Record<string, string | number>): string {
+  const { product, station, datum, units, interval, begin_date, end_date } = params;
+  return [product, station, datum, units, interval, begin_date, end_date].join('|');
+}
+
 /**
  * Formats a Date object into NOAA's expected datetime format
  * 
@@ -78,15 +365,62 @@ function isoMinute(d: Date): string {
   return copy.toISOString().slice(0, 16) + 'Z';
 }
 
+/**
+ * Retry policy for transient NOAA failures (5xx, rate limiting, network blips)
+ */
+const RETRY = {
+  attempts: 3,         // Retries after the first attempt
+  baseDelayMs: 500,    // First backoff ceiling
+  maxDelayMs: 8000,    // Upper bound for any single backoff
+};
+
+/**
+ * Waits for the given time, rejecting early if the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Computes a "full jitter" exponential backoff delay for a retry attempt
+ *
+ * @param {number} attempt - Zero-based retry number
+ * @returns {number} Random delay between 0 and the exponential ceiling
+ */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(RETRY.maxDelayMs, RETRY.baseDelayMs * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
 /**
  * Makes HTTP requests to the NOAA Tides and Currents API with error handling
  * 
  * This function handles the low-level API communication, including URL construction,
  * CORS handling, HTTP error checking, and NOAA-specific error response parsing.
+ * Responses are served through the persistent cache (see `noaaCache.ts`) unless
+ * caching is disabled for the call.
  * 
  * @param {Record<string, string | number>} params - Query parameters for the API request
+ * @param {Object} [opts] - Request options
+ * @param {CacheOptions} [opts.cache] - Cache behaviour and provenance callbacks
+ * @param {AbortSignal} [opts.signal] - Cancels the request (and any pending retries)
  * @returns {Promise<any>} Parsed JSON response from NOAA API
- * @throws {Error} When HTTP request fails or NOAA API returns an error
+ * @throws {NOAAError} Typed error describing why the request failed
+ * @throws {DOMException} AbortError when the signal is aborted
  * 
  * @example
  * const params = {
@@ -97,34 +431,335 @@ function isoMinute(d: Date): string {
  * };
  * const data = await requestNOAA(params);
  */
-async function requestNOAA(params: Record<string, string | number>): Promise<any> {
-  const usp = new URLSearchParams(params as Record<string, string>);
-  const url = `${NOAA_BASE}?${usp.toString()}`;
+async function requestNOAA(
+  params: Record<string, string | number>,
+  opts: { cache?: CacheOptions; signal?: AbortSignal } = {}
+): Promise<any> {
+  const { cache = {}, signal } = opts;
+
+  const url = `${NOAA_BASE}?${new URLSearchParams(params as Record<string, string>).toString()}`;
+
+  if (cache.enabled === false) {
+    return fetchNOAAWithRetry(url, signal);
+  }
+
+  const ttl = CACHE_TTL_MS[String(params.product)] ?? DEFAULT_CACHE_TTL_MS;
+  const { value, meta } = await cachedFetch(cacheKeyFor(params), ttl, s => fetchNOAAWithRetry(url, s), {
+    signal,
+    onRevalidated: () => cache.onRevalidated?.(),
+  });
+  cache.onMeta?.(meta);
+  return value;
+}
+
+/**
+ * Performs the uncached request, retrying transient failures with jittered backoff
+ *
+ * Rate-limited responses honour the server's Retry-After delay when present.
+ * Non-retryable errors (no data, invalid station/product, 4xx) fail immediately.
+ */
+async function fetchNOAAWithRetry(url: string, signal?: AbortSignal): Promise<unknown> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchNOAA(url, signal);
+    } catch (error) {
+      const retryable = error instanceof NOAAError && error.retryable;
+      if (!retryable || attempt >= RETRY.attempts || signal?.aborted) throw error;
+
+      const delay = error instanceof NOAARateLimitError && error.retryAfterMs !== null
+        ? Math.min(error.retryAfterMs, RETRY.maxDelayMs)
+        : backoffDelay(attempt);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * Performs a single network request for `requestNOAA` and `requestStationMetadata`
+ */
+async function fetchNOAA(url: string, signal?: AbortSignal): Promise<unknown> {
+  // Fail fast when the device reports no connectivity
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    throw new NOAAOfflineError('Device is offline');
+  }
   
   // Make request with CORS enabled for web browser compatibility
-  const res = await fetch(url, { mode: 'cors' });
+  let res: Response;
+  try {
+    res = await fetch(url, { mode: 'cors', signal });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    // fetch only rejects on network failure (DNS, connection reset, CORS)
+    throw new NOAAOfflineError(error instanceof Error ? error.message : 'Network request failed');
+  }
   
   // Check for HTTP-level errors
+  if (res.status === 429) {
+    throw new NOAARateLimitError(parseRetryAfter(res.headers.get('Retry-After')));
+  }
   if (!res.ok) {
-    throw new Error(`NOAA request failed: ${res.status}`);
+    throw new NOAAHttpError(res.status);
   }
   
   const data = await res.json();
   
   // Check for NOAA API-specific errors in response body
   if (data && data.error) {
-    throw new Error(`NOAA API error: ${data.error?.message || 'unknown'}`);
+    throw classifyNOAAMessage(String(data.error?.message || 'unknown'));
   }
   
   return data;
 }
 
 /**
- * Fetches observed water level data from NOAA stations
+ * Requests a station metadata resource (e.g. `datums`) from the NOAA metadata API
+ *
+ * Shares the retry, error classification and persistent cache of `requestNOAA`.
+ *
+ * @param {string} station - NOAA station ID
+ * @param {string} resource - Metadata resource name, e.g. 'datums'
+ * @param {Object} [opts] - Request options
+ * @param {'english' | 'metric'} [opts.units='english'] - Unit system for heights
+ * @param {CacheOptions} [opts.cache] - Cache behaviour and provenance callbacks
+ * @param {AbortSignal} [opts.signal] - Cancels the request (and any pending retries)
+ * @returns {Promise<unknown>} Parsed JSON response
+ */
+async function requestStationMetadata(
+  station: string,
+  resource: string,
+  opts: { units?: 'english' | 'metric'; cache?: CacheOptions; signal?: AbortSignal } = {}
+): Promise<unknown> {
+  const { units = 'english', cache = {}, signal } = opts;
+  const url = `${NOAA_MDAPI_BASE}/${encodeURIComponent(station)}/${resource}.json?units=${units}`;
+
+  if (cache.enabled === false) {
+    return fetchNOAAWithRetry(url, signal);
+  }
+
+  const key = ['mdapi', resource, station, units].join('|');
+  const { value, meta } = await cachedFetch(key, METADATA_CACHE_TTL_MS, s => fetchNOAAWithRetry(url, s), {
+    signal,
+    onRevalidated: () => cache.onRevalidated?.(),
+  });
+  cache.onMeta?.(meta);
+  return value;
+}
+
+/**
+ * Maximum span NOAA accepts for a single datagetter request
+ *
+ * 6-minute (and finer) data is limited to 31 days per request; hourly and
+ * high/low data may span up to a year. See `maxSpanFor` for which requests
+ * actually return hourly data.
+ */
+const MAX_SPAN_MS = {
+  subHourly: 31 * 24 * 3600_000,  // 31 days
+  hourly: 365 * 24 * 3600_000,    // 1 year
+};
+
+/**
+ * Span limit of a datagetter request for a product
+ *
+ * Only predictions honour a numeric interval; `water_level` and the
+ * meteorological products return 6-minute data whatever interval is passed,
+ * so they keep the 31-day limit.
+ *
+ * @param {string} product - datagetter product, e.g. 'water_level' or 'predictions'
+ * @param {number | 'hilo'} interval - Requested interval in minutes, or 'hilo'
+ * @returns {number} Maximum span of one request in milliseconds
+ */
+function maxSpanFor(product: string, interval: number | 'hilo'): number {
+  if (interval === 'hilo') return MAX_SPAN_MS.hourly;
+  return product === 'predictions' && interval >= 60 ? MAX_SPAN_MS.hourly : MAX_SPAN_MS.subHourly;
+}
+
+/** Number of chunk requests allowed in flight at once */
+const CHUNK_CONCURRENCY = 3;
+
+/**
+ * A chunk of a long request that could not be fetched
+ *
+ * @property {Date} start - Start of the failed chunk
+ * @property {Date} end - End of the failed chunk
+ * @property {unknown} error - Error thrown while fetching the chunk
+ */
+export interface ChunkFailure {
+  start: Date;
+  end: Date;
+  error: unknown;
+}
+
+/**
+ * Splits a time range into consecutive windows no longer than NOAA allows
+ *
+ * Adjacent windows share their boundary minute; the duplicate sample is
+ * removed when the chunk results are merged.
+ *
+ * @param {Date} start - Range start (inclusive)
+ * @param {Date} end - Range end (inclusive)
+ * @param {number} maxSpanMs - Maximum length of a single window
+ * @returns {Array<{start: Date, end: Date}>} Windows covering the whole range in order
+ *
+ * @example
+ * // 90 days of 6-minute data -> three requests
+ * splitRange(new Date('2024-01-01Z'), new Date('2024-03-31Z'), 31 * 86_400_000).length; // 3
+ */
+export function splitRange(start: Date, end: Date, maxSpanMs: number): { start: Date; end: Date }[] {
+  const ranges: { start: Date; end: Date }[] = [];
+  const endMs = end.getTime();
+  let cursor = start.getTime();
+
+  if (cursor >= endMs) return [{ start, end }];
+
+  while (cursor < endMs) {
+    const chunkEnd = Math.min(cursor + maxSpanMs, endMs);
+    ranges.push({ start: new Date(cursor), end: new Date(chunkEnd) });
+    cursor = chunkEnd;
+  }
+
+  return ranges;
+}
+
+/**
+ * Fetches a long range as NOAA-compliant chunks and merges the results
+ *
+ * Chunks are requested with limited concurrency and merged in chronological
+ * order, de-duplicating the shared boundary samples. If only some chunks fail,
+ * the partial series is returned and the failures are reported through
+ * `onPartialFailure`; if every chunk fails, the first error is thrown.
+ *
+ * @param {Object} opts - Range and reporting options
+ * @param {Date} opts.start - Range start (inclusive)
+ * @param {Date} opts.end - Range end (inclusive)
+ * @param {string} opts.product - datagetter product, used with the interval to pick the NOAA span limit
+ * @param {number | 'hilo'} opts.interval - Data interval in minutes (or 'hilo')
+ * @param {AbortSignal} [opts.signal] - Stops dispatching chunks and rejects with AbortError
+ * @param {Function} [opts.onPartialFailure] - Receives the chunks that failed
+ * @param {Function} fetchChunk - Fetches a single compliant window
+ * @returns {Promise<Record<string, T>>} Merged series for the whole range
+ */
+async function fetchInChunks<T>(
+  opts: {
+    start: Date;
+    end: Date;
+    product: string;
+    interval: number | 'hilo';
+    signal?: AbortSignal;
+    onPartialFailure?: (failures: ChunkFailure[]) => void;
+  },
+  fetchChunk: (start: Date, end: Date) => Promise<Record<string, T>>
+): Promise<Record<string, T>> {
+  const { start, end, product, interval, signal, onPartialFailure } = opts;
+  const ranges = splitRange(start, end, maxSpanFor(product, interval));
+
+  // Single window: behave exactly like a plain request
+  if (ranges.length === 1) {
+    return fetchChunk(ranges[0].start, ranges[0].end);
+  }
+
+  const results: (Record<string, T> | null)[] = new Array(ranges.length).fill(null);
+  const failures: ChunkFailure[] = [];
+  let next = 0;
+
+  // Worker pool: each worker pulls the next pending window until none remain
+  const worker = async () => {
+    while (next < ranges.length) {
+      signal?.throwIfAborted();
+      const i = next++;
+      try {
+        results[i] = await fetchChunk(ranges[i].start, ranges[i].end);
+      } catch (error) {
+        // Cancellation is not a partial failure - abort the whole request
+        if (isAbortError(error)) throw error;
+        failures.push({ ...ranges[i], error });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CHUNK_CONCURRENCY, ranges.length) }, worker));
+
+  if (failures.length === ranges.length) {
+    throw failures[0].error;
+  }
+
+  // Merge chronologically; boundary duplicates collapse onto the same key
+  const merged: Record<string, T> = {};
+  for (const series of results) {
+    if (series) Object.assign(merged, series);
+  }
+
+  if (failures.length > 0) {
+    failures.sort((a, b) => a.start.getTime() - b.start.getTime());
+    onPartialFailure?.(failures);
+  }
+
+  return merged;
+}
+
+/**
+ * Decodes NOAA's "O,F,R,L" quality flag string
+ *
+ * @param {string | undefined} f - Raw `f` field, e.g. "0,0,1,0"
+ * @returns {ObservationFlags} Decoded flags (all clear when missing)
+ */
+function parseObservationFlags(f: string | undefined): ObservationFlags {
+  const [o, flat, rate, limit] = String(f ?? '').split(',').map(x => parseInt(x, 10));
+  return {
+    outliers: Number.isFinite(o) ? o : 0,
+    flat: flat === 1,
+    rateOfChange: rate === 1,
+    limitExceeded: limit === 1,
+  };
+}
+
+/**
+ * Checks whether an observation failed any NOAA quality check
+ *
+ * Outlier counts are informational and do not mark a sample as flagged.
+ *
+ * @param {WaterLevelObservation} obs - Observation to check
+ * @returns {boolean} True if the flat, rate-of-change or limit flag is set
+ */
+export function isFlaggedObservation(obs: WaterLevelObservation): boolean {
+  return obs.flags.flat || obs.flags.rateOfChange || obs.flags.limitExceeded;
+}
+
+/**
+ * Lists the quality checks an observation failed, for display
+ *
+ * @param {ObservationFlags} flags - Decoded quality flags
+ * @returns {string[]} Short descriptions, empty when no checks failed
+ *
+ * @example
+ * describeObservationFlags({ outliers: 0, flat: false, rateOfChange: true, limitExceeded: false });
+ * // ['rate of change exceeded']
+ */
+export function describeObservationFlags(flags: ObservationFlags): string[] {
+  const out: string[] = [];
+  if (flags.flat) out.push('flat tolerance exceeded');
+  if (flags.rateOfChange) out.push('rate of change exceeded');
+  if (flags.limitExceeded) out.push('max/min limit exceeded');
+  return out;
+}
+
+/**
+ * Reduces an observation series to plain values
+ *
+ * @param {ObservationSeries} series - Observations with quality metadata
+ * @returns {TimeSeries} Values keyed by the same timestamps
+ */
+export function toTimeSeries(series: ObservationSeries): TimeSeries {
+  const out: TimeSeries = {};
+  for (const [k, obs] of Object.entries(series)) out[k] = obs.v;
+  return out;
+}
+
+/**
+ * Fetches observed water level data, including quality metadata, from NOAA stations
  * 
  * Retrieves actual measured water levels from NOAA tide gauges. This data
  * represents real-world conditions and is essential for storm surge analysis
- * when compared against harmonic predictions.
+ * when compared against harmonic predictions. Each sample keeps NOAA's sigma,
+ * quality flags and preliminary/verified status.
  * 
  * @param {Object} opts - Configuration options for the request
  * @param {string} opts.station - NOAA station ID (e.g., '8518750' for New London, CT)
@@ -133,60 +768,99 @@ async function requestNOAA(params: Record<string, string | number>): Promise<any
  * @param {number} [opts.interval=6] - Data interval in minutes (6 is standard for water levels)
  * @param {string} [opts.datum='MLLW'] - Vertical datum reference (MLLW, MSL, MTL, etc.)
  * @param {'english' | 'metric'} [opts.units='english'] - Unit system (english=feet, metric=meters)
- * @returns {Promise<TimeSeries>} Time series of observed water levels
- * @throws {Error} When station doesn't exist, date range is invalid, or API fails
+ * @param {CacheOptions} [opts.cache] - Cache behaviour and provenance callbacks
+ * @param {AbortSignal} [opts.signal] - Cancels the request
+ * @param {Function} [opts.onPartialFailure] - Receives chunks that failed when a long range was split
+ * @returns {Promise<ObservationSeries>} Observed water levels with quality metadata
+ * @throws {NOAAError} When station doesn't exist, date range is invalid, or API fails
+ *
+ * Ranges longer than NOAA's per-request limit are fetched as multiple chunks
+ * and merged transparently.
  * 
  * @example
  * // Get 24 hours of observed data for New London, CT
- * const observed = await fetchObservedWaterLevels({
+ * const observed = await fetchObservations({
  *   station: '8518750',
  *   start: new Date('2024-01-15T00:00Z'),
  *   end: new Date('2024-01-16T00:00Z'),
  *   interval: 6,  // 6-minute intervals (standard)
  *   datum: 'MLLW' // Mean Lower Low Water
  * });
+ * const preliminary = Object.values(observed).filter(o => o.quality === 'preliminary');
  */
-export async function fetchObservedWaterLevels(opts: {
+export async function fetchObservations(opts: {
   station: string;
   start: Date;
   end: Date;
   interval?: number; // minutes
   datum?: string;
   units?: 'english' | 'metric';
-}): Promise<TimeSeries> {
-  const { station, start, end, interval = 6, datum = 'MLLW', units = 'english' } = opts;
+  cache?: CacheOptions;
+  signal?: AbortSignal;
+  onPartialFailure?: (failures: ChunkFailure[]) => void;
+}): Promise<ObservationSeries> {
+  const { station, start, end, interval = 6, datum = 'MLLW', units = 'english', cache, signal, onPartialFailure } = opts;
   
-  // Build API request parameters
-  const params = {
-    product: 'water_level',           // Request water level observations
-    application: 'canal-dr-flood',    // Application identifier for usage tracking
-    format: 'json',                   // JSON response format
-    time_zone: 'gmt',                 // All times in GMT/UTC
-    units,                            // Measurement units
-    datum,                            // Vertical reference datum
-    station,                          // NOAA station identifier
-    interval: String(interval),       // Data sampling interval
-    begin_date: fmtBeginEnd(start),   // Formatted start datetime
-    end_date: fmtBeginEnd(end),       // Formatted end datetime
-  };
+  return fetchInChunks({ start, end, product: 'water_level', interval, signal, onPartialFailure }, async (chunkStart, chunkEnd) => {
+    // Build API request parameters
+    const params = {
+      product: 'water_level',           // Request water level observations
+      application: 'canal-dr-flood',    // Application identifier for usage tracking
+      format: 'json',                   // JSON response format
+      time_zone: 'gmt',                 // All times in GMT/UTC
+      units,                            // Measurement units
+      datum,                            // Vertical reference datum
+      station,                          // NOAA station identifier
+      interval: String(interval),       // Data sampling interval
+      begin_date: fmtBeginEnd(chunkStart),  // Formatted start datetime
+      end_date: fmtBeginEnd(chunkEnd),      // Formatted end datetime
+    };
   
-  const data = await requestNOAA(params);
-  const out: TimeSeries = {};
+    const data = await requestNOAA(params, { cache, signal });
+    const out: ObservationSeries = {};
   
-  // Process response data into our TimeSeries format
-  for (const row of data?.data ?? []) {
-    const v = parseFloat(row.v);      // Water level value
-    const t = row.t as string;        // Timestamp 'YYYY-MM-DD HH:MM'
+    // Process response data into our ObservationSeries format
+    for (const row of data?.data ?? []) {
+      const v = parseFloat(row.v);      // Water level value
+      const t = row.t as string;        // Timestamp 'YYYY-MM-DD HH:MM'
+      const sigma = parseFloat(row.s);  // Standard deviation of 1-second samples
     
-    // Skip invalid data points
-    if (!isFinite(v) || !t) continue;
+      // Skip invalid data points
+      if (!isFinite(v) || !t) continue;
     
-    // Convert NOAA timestamp to ISO format: '2024-01-15 12:30' -> '2024-01-15T12:30Z'
-    const iso = t.replace(' ', 'T') + 'Z';
-    out[iso] = v;
-  }
+      // Convert NOAA timestamp to ISO format: '2024-01-15 12:30' -> '2024-01-15T12:30Z'
+      const iso = t.replace(' ', 'T') + 'Z';
+      out[iso] = {
+        v,
+        sigma: isFinite(sigma) ? sigma : null,
+        flags: parseObservationFlags(row.f),
+        quality: row.q === 'v' ? 'verified' : 'preliminary',
+      };
+    }
   
-  return out;
+    return out;
+  });
+}
+
+/**
+ * Fetches observed water level values from NOAA stations
+ * 
+ * Convenience wrapper around `fetchObservations` that drops the quality
+ * metadata and returns plain values. Accepts the same options.
+ * 
+ * @param {Object} opts - Same options as `fetchObservations`
+ * @returns {Promise<TimeSeries>} Time series of observed water levels
+ * @throws {NOAAError} When station doesn't exist, date range is invalid, or API fails
+ * 
+ * @example
+ * const observed = await fetchObservedWaterLevels({
+ *   station: '8518750',
+ *   start: new Date('2024-01-15T00:00Z'),
+ *   end: new Date('2024-01-16T00:00Z'),
+ * });
+ */
+export async function fetchObservedWaterLevels(opts: Parameters<typeof fetchObservations>[0]): Promise<TimeSeries> {
+  return toTimeSeries(await fetchObservations(opts));
 }
 
 /**
@@ -203,8 +877,14 @@ export async function fetchObservedWaterLevels(opts: {
  * @param {number} [opts.interval=6] - Prediction interval in minutes
  * @param {string} [opts.datum='MLLW'] - Vertical datum reference
  * @param {'english' | 'metric'} [opts.units='english'] - Unit system
+ * @param {CacheOptions} [opts.cache] - Cache behaviour and provenance callbacks
+ * @param {AbortSignal} [opts.signal] - Cancels the request
+ * @param {Function} [opts.onPartialFailure] - Receives chunks that failed when a long range was split
  * @returns {Promise<TimeSeries>} Time series of predicted water levels
- * @throws {Error} When station doesn't exist, date range is invalid, or API fails
+ * @throws {NOAAError} When station doesn't exist, date range is invalid, or API fails
+ *
+ * Ranges longer than NOAA's per-request limit are fetched as multiple chunks
+ * and merged transparently.
  * 
  * @example
  * // Get 48 hours of tide predictions
@@ -222,54 +902,530 @@ export async function fetchPredictions(opts: {
   interval?: number; // minutes
   datum?: string;
   units?: 'english' | 'metric';
+  cache?: CacheOptions;
+  signal?: AbortSignal;
+  onPartialFailure?: (failures: ChunkFailure[]) => void;
 }): Promise<TimeSeries> {
-  const { station, start, end, interval = 6, datum = 'MLLW', units = 'english' } = opts;
+  const { station, start, end, interval = 6, datum = 'MLLW', units = 'english', cache, signal, onPartialFailure } = opts;
   
-  // Build API request parameters for harmonic predictions
-  const params = {
-    product: 'predictions',           // Request tide predictions
-    application: 'canal-dr-flood',    // Application identifier
-    format: 'json',                   // JSON response format
-    time_zone: 'gmt',                 // All times in GMT/UTC
-    units,                            // Measurement units
-    datum,                            // Vertical reference datum
-    station,                          // NOAA station identifier
-    interval: String(interval),       // Prediction interval
-    begin_date: fmtBeginEnd(start),   // Formatted start datetime
-    end_date: fmtBeginEnd(end),       // Formatted end datetime
-  };
+  return fetchInChunks({ start, end, product: 'predictions', interval, signal, onPartialFailure }, async (chunkStart, chunkEnd) => {
+    // Build API request parameters for harmonic predictions
+    const params = {
+      product: 'predictions',           // Request tide predictions
+      application: 'canal-dr-flood',    // Application identifier
+      format: 'json',                   // JSON response format
+      time_zone: 'gmt',                 // All times in GMT/UTC
+      units,                            // Measurement units
+      datum,                            // Vertical reference datum
+      station,                          // NOAA station identifier
+      interval: String(interval),       // Prediction interval
+      begin_date: fmtBeginEnd(chunkStart),  // Formatted start datetime
+      end_date: fmtBeginEnd(chunkEnd),      // Formatted end datetime
+    };
   
-  const data = await requestNOAA(params);
-  const out: TimeSeries = {};
+    const data = await requestNOAA(params, { cache, signal });
+    const out: TimeSeries = {};
   
-  // Process prediction data into our TimeSeries format
-  for (const row of data?.predictions ?? []) {
-    const v = parseFloat(row.v);      // Predicted water level
-    const t = row.t as string;        // Timestamp 'YYYY-MM-DD HH:MM'
+    // Process prediction data into our TimeSeries format
+    for (const row of data?.predictions ?? []) {
+      const v = parseFloat(row.v);      // Predicted water level
+      const t = row.t as string;        // Timestamp 'YYYY-MM-DD HH:MM'
     
-    // Skip invalid predictions
-    if (!isFinite(v) || !t) continue;
+      // Skip invalid predictions
+      if (!isFinite(v) || !t) continue;
     
-    // Convert to ISO format for consistency
-    const iso = t.replace(' ', 'T') + 'Z';
-    out[iso] = v;
-  }
+      // Convert to ISO format for consistency
+      const iso = t.replace(' ', 'T') + 'Z';
+      out[iso] = v;
+    }
   
+    return out;
+  });
+}
+
+/**
+ * Fetches wind observations from a NOAA station's meteorological sensors
+ *
+ * Many water level stations also measure wind; stations without an anemometer
+ * fail with `NOAANoDataError`.
+ *
+ * @param {Object} opts - Configuration options for the request
+ * @param {string} opts.station - NOAA station ID
+ * @param {Date} opts.start - Start time (inclusive)
+ * @param {Date} opts.end - End time (inclusive)
+ * @param {number} [opts.interval=6] - Data interval in minutes
+ * @param {'english' | 'metric'} [opts.units='english'] - Unit system (english=knots, metric=m/s)
+ * @param {CacheOptions} [opts.cache] - Cache behaviour and provenance callbacks
+ * @param {AbortSignal} [opts.signal] - Cancels the request
+ * @param {Function} [opts.onPartialFailure] - Receives chunks that failed when a long range was split
+ * @returns {Promise<WindSeries>} Wind speed, direction and gusts
+ * @throws {NOAAError} When the station has no wind sensor, the range is invalid, or the API fails
+ *
+ * @example
+ * const wind = await fetchWind({
+ *   station: '8518750',
+ *   start: new Date('2024-01-15T00:00Z'),
+ *   end: new Date('2024-01-16T00:00Z'),
+ * });
+ * // { '2024-01-15T00:00Z': { speed: 12.4, direction: 225, gust: 17.1 }, ... }
+ */
+export async function fetchWind(opts: {
+  station: string;
+  start: Date;
+  end: Date;
+  interval?: number; // minutes
+  units?: 'english' | 'metric';
+  cache?: CacheOptions;
+  signal?: AbortSignal;
+  onPartialFailure?: (failures: ChunkFailure[]) => void;
+}): Promise<WindSeries> {
+  const { station, start, end, interval = 6, units = 'english', cache, signal, onPartialFailure } = opts;
+
+  return fetchInChunks({ start, end, product: 'wind', interval, signal, onPartialFailure }, async (chunkStart, chunkEnd) => {
+    const params = {
+      product: 'wind',
+      application: 'canal-dr-flood',
+      format: 'json',
+      time_zone: 'gmt',
+      units,
+      station,
+      interval: String(interval),
+      begin_date: fmtBeginEnd(chunkStart),
+      end_date: fmtBeginEnd(chunkEnd),
+    };
+
+    const data = await requestNOAA(params, { cache, signal });
+    const out: WindSeries = {};
+
+    for (const row of data?.data ?? []) {
+      const speed = parseFloat(row.s);      // Mean speed
+      const direction = parseFloat(row.d);  // Degrees true the wind blows from
+      const gust = parseFloat(row.g);
+      const t = row.t as string;
+
+      if (!isFinite(speed) || !isFinite(direction) || !t) continue;
+
+      out[t.replace(' ', 'T') + 'Z'] = { speed, direction, gust: isFinite(gust) ? gust : null };
+    }
+
+    return out;
+  });
+}
+
+/**
+ * Fetches barometric pressure observations from a NOAA station
+ *
+ * Pressure is always reported in millibars (hPa), whatever the unit system.
+ * Stations without a barometer fail with `NOAANoDataError`.
+ *
+ * @param {Object} opts - Same options as `fetchWind`
+ * @returns {Promise<TimeSeries>} Air pressure in millibars
+ * @throws {NOAAError} When the station has no barometer, the range is invalid, or the API fails
+ *
+ * @example
+ * const pressure = await fetchAirPressure({
+ *   station: '8518750',
+ *   start: new Date('2024-01-15T00:00Z'),
+ *   end: new Date('2024-01-16T00:00Z'),
+ * });
+ * // { '2024-01-15T00:00Z': 1008.4, ... }
+ */
+export async function fetchAirPressure(opts: Parameters<typeof fetchWind>[0]): Promise<TimeSeries> {
+  const { station, start, end, interval = 6, units = 'english', cache, signal, onPartialFailure } = opts;
+
+  return fetchInChunks({ start, end, product: 'air_pressure', interval, signal, onPartialFailure }, async (chunkStart, chunkEnd) => {
+    const params = {
+      product: 'air_pressure',
+      application: 'canal-dr-flood',
+      format: 'json',
+      time_zone: 'gmt',
+      units,
+      station,
+      interval: String(interval),
+      begin_date: fmtBeginEnd(chunkStart),
+      end_date: fmtBeginEnd(chunkEnd),
+    };
+
+    const data = await requestNOAA(params, { cache, signal });
+    const out: TimeSeries = {};
+
+    for (const row of data?.data ?? []) {
+      const v = parseFloat(row.v);
+      const t = row.t as string;
+      if (!isFinite(v) || !t) continue;
+      out[t.replace(' ', 'T') + 'Z'] = v;
+    }
+
+    return out;
+  });
+}
+
+/**
+ * Checks whether a tide event is a high tide (H or HH)
+ *
+ * @param {TideEvent} event - Tide event
+ * @returns {boolean} True for high tides
+ */
+export function isHighTide(event: TideEvent): boolean {
+  return event.type === 'H' || event.type === 'HH';
+}
+
+/**
+ * Fetches predicted high and low tides from NOAA
+ * 
+ * Uses the predictions product with `interval=hilo`, which returns only the
+ * times and heights of each tidal extreme rather than a continuous series.
+ * 
+ * @param {Object} opts - Configuration options for the request
+ * @param {string} opts.station - NOAA station ID
+ * @param {Date} opts.start - Start time (inclusive)
+ * @param {Date} opts.end - End time (inclusive)
+ * @param {string} [opts.datum='MLLW'] - Vertical datum reference
+ * @param {'english' | 'metric'} [opts.units='english'] - Unit system
+ * @param {CacheOptions} [opts.cache] - Cache behaviour and provenance callbacks
+ * @param {AbortSignal} [opts.signal] - Cancels the request
+ * @param {Function} [opts.onPartialFailure] - Receives chunks that failed when a long range was split
+ * @returns {Promise<TideEvent[]>} High/low events sorted by time
+ * @throws {NOAAError} When station doesn't exist, date range is invalid, or API fails
+ * 
+ * @example
+ * // This week's highs and lows
+ * const events = await fetchHighLowPredictions({
+ *   station: '8518750',
+ *   start: new Date(),
+ *   end: new Date(Date.now() + 7 * 86_400_000),
+ * });
+ * const highs = events.filter(isHighTide);
+ */
+export async function fetchHighLowPredictions(opts: {
+  station: string;
+  start: Date;
+  end: Date;
+  datum?: string;
+  units?: 'english' | 'metric';
+  cache?: CacheOptions;
+  signal?: AbortSignal;
+  onPartialFailure?: (failures: ChunkFailure[]) => void;
+}): Promise<TideEvent[]> {
+  const { station, start, end, datum = 'MLLW', units = 'english', cache, signal, onPartialFailure } = opts;
+
+  const byTime = await fetchInChunks<TideEvent>({ start, end, product: 'predictions', interval: 'hilo', signal, onPartialFailure }, async (chunkStart, chunkEnd) => {
+    const params = {
+      product: 'predictions',
+      application: 'canal-dr-flood',
+      format: 'json',
+      time_zone: 'gmt',
+      units,
+      datum,
+      station,
+      interval: 'hilo',                 // Only high/low extremes
+      begin_date: fmtBeginEnd(chunkStart),
+      end_date: fmtBeginEnd(chunkEnd),
+    };
+
+    const data = await requestNOAA(params, { cache, signal });
+    const out: Record<string, TideEvent> = {};
+
+    for (const row of data?.predictions ?? []) {
+      const v = parseFloat(row.v);
+      const t = row.t as string;
+      const type = String(row.type ?? '').toUpperCase();
+
+      // Skip invalid rows and unknown event types
+      if (!isFinite(v) || !t || !['H', 'HH', 'L', 'LL'].includes(type)) continue;
+
+      const iso = t.replace(' ', 'T') + 'Z';
+      out[iso] = { t: new Date(iso), v, type: type as TideEventType };
+    }
+
+    return out;
+  });
+
+  return Object.values(byTime).sort((a, b) => a.t.getTime() - b.t.getTime());
+}
+
+/**
+ * Fetches the datum heights published for a station
+ *
+ * All values are relative to station datum (STND), so any two datums can be
+ * converted into each other with `convertDatum`. Datums the station doesn't
+ * publish are absent from the result.
+ *
+ * @param {Object} opts - Request options
+ * @param {string} opts.station - NOAA station ID
+ * @param {'english' | 'metric'} [opts.units='english'] - Feet or meters
+ * @param {CacheOptions} [opts.cache] - Cache behaviour and provenance callbacks
+ * @param {AbortSignal} [opts.signal] - Cancels the request
+ * @returns {Promise<StationDatums>} Datum heights above STND
+ * @throws {NOAAError} When the metadata request fails
+ */
+export async function fetchStationDatums(opts: {
+  station: string;
+  units?: 'english' | 'metric';
+  cache?: CacheOptions;
+  signal?: AbortSignal;
+}): Promise<StationDatums> {
+  const { station, units, cache, signal } = opts;
+  const data = await requestStationMetadata(station, 'datums', { units, cache, signal }) as {
+    datums?: { name?: unknown; value?: unknown }[];
+  } | null;
+
+  const out: StationDatums = { STND: 0 };
+  for (const row of data?.datums ?? []) {
+    const v = Number(row.value);
+    if (typeof row.name === 'string' && row.value !== null && Number.isFinite(v)) {
+      out[row.name.toUpperCase()] = v;
+    }
+  }
   return out;
 }
 
+/**
+ * Fetches the harmonic constituents published for a station
+ *
+ * Amplitudes are relative to mean sea level (MSL) and phases are Greenwich
+ * epochs in degrees. Constituents with zero amplitude are omitted. Like other
+ * station metadata the response is cached, so local predictions keep working
+ * offline once a station has been viewed.
+ *
+ * @param {Object} opts - Request options
+ * @param {string} opts.station - NOAA station ID
+ * @param {'english' | 'metric'} [opts.units='english'] - Feet or meters
+ * @param {CacheOptions} [opts.cache] - Cache behaviour and provenance callbacks
+ * @param {AbortSignal} [opts.signal] - Cancels the request
+ * @returns {Promise<HarmonicConstituent[]>} Constituents in NOAA's order
+ * @throws {NOAAError} When the metadata request fails
+ * @throws {NOAANoDataError} When the station publishes no constituents (e.g. subordinate stations)
+ */
+export async function fetchHarmonicConstituents(opts: {
+  station: string;
+  units?: 'english' | 'metric';
+  cache?: CacheOptions;
+  signal?: AbortSignal;
+}): Promise<HarmonicConstituent[]> {
+  const { station, units, cache, signal } = opts;
+  const data = await requestStationMetadata(station, 'harcon', { units, cache, signal }) as {
+    HarmonicConstituents?: { name?: unknown; amplitude?: unknown; phase_GMT?: unknown; speed?: unknown }[];
+  } | null;
+
+  const out: HarmonicConstituent[] = [];
+  for (const row of data?.HarmonicConstituents ?? []) {
+    const amplitude = Number(row.amplitude);
+    const phase = Number(row.phase_GMT);
+    const speed = Number(row.speed);
+    if (typeof row.name !== 'string' || !Number.isFinite(amplitude) || !Number.isFinite(phase) || !Number.isFinite(speed)) continue;
+    if (amplitude === 0) continue;
+    out.push({ name: row.name.toUpperCase(), amplitude, phase, speed });
+  }
+
+  if (out.length === 0) {
+    throw new NOAANoDataError(`No harmonic constituents published for station ${station}`);
+  }
+  return out;
+}
+
+/**
+ * Fetches the official flood levels published for a station
+ *
+ * Reads NOS minor/moderate/major flood thresholds and NWS flood stages from the
+ * metadata API. Values are relative to station datum (STND); use
+ * `fetchStationDatums` and `convertDatum` to express them in another datum.
+ * Levels a station doesn't define are omitted.
+ *
+ * @param {Object} opts - Request options
+ * @param {string} opts.station - NOAA station ID
+ * @param {'english' | 'metric'} [opts.units='english'] - Feet or meters
+ * @param {CacheOptions} [opts.cache] - Cache behaviour and provenance callbacks
+ * @param {AbortSignal} [opts.signal] - Cancels the request
+ * @returns {Promise<FloodLevel[]>} Levels ordered by source, then severity
+ * @throws {NOAAError} When the metadata request fails
+ *
+ * @example
+ * const levels = await fetchFloodLevels({ station: '8658163' });
+ * const minor = levels.find(l => l.source === 'NOS' && l.severity === 'minor');
+ */
+export async function fetchFloodLevels(opts: {
+  station: string;
+  units?: 'english' | 'metric';
+  cache?: CacheOptions;
+  signal?: AbortSignal;
+}): Promise<FloodLevel[]> {
+  const { station, units, cache, signal } = opts;
+  const data = await requestStationMetadata(station, 'floodlevels', { units, cache, signal }) as Record<string, unknown> | null;
+
+  const levels: FloodLevel[] = [];
+  for (const source of ['NOS', 'NWS'] as const) {
+    for (const severity of ['minor', 'moderate', 'major'] as const) {
+      // e.g. nos_minor, nws_major; missing levels are null
+      const raw = data?.[`${source.toLowerCase()}_${severity}`];
+      const value = Number(raw);
+      if (raw !== null && raw !== undefined && raw !== '' && Number.isFinite(value)) {
+        levels.push({ source, severity, value });
+      }
+    }
+  }
+  return levels;
+}
+
+/**
+ * Reads a metadata date such as '1935-06-19 00:00:00.0'
+ */
+function metadataDate(raw: unknown): string | null {
+  return typeof raw === 'string' && /^\d{4}-\d{2}-\d{2}/.test(raw) ? raw.slice(0, 10) : null;
+}
+
+/**
+ * Fetches descriptive metadata for a station: service dates, tide type,
+ * published products and installed sensors
+ *
+ * The three metadata resources are requested in parallel; a resource the
+ * station doesn't publish leaves its fields empty.
+ *
+ * @param {Object} opts - Request options
+ * @param {string} opts.station - NOAA station ID
+ * @param {CacheOptions} [opts.cache] - Cache behaviour and provenance callbacks
+ * @param {AbortSignal} [opts.signal] - Cancels the requests
+ * @returns {Promise<StationDetails>} Station metadata
+ * @throws {NOAAError} When none of the metadata resources can be fetched
+ */
+export async function fetchStationDetails(opts: {
+  station: string;
+  cache?: CacheOptions;
+  signal?: AbortSignal;
+}): Promise<StationDetails> {
+  const { station, cache, signal } = opts;
+  const [details, products, sensors] = await Promise.allSettled(
+    ['details', 'products', 'sensors'].map(resource => requestStationMetadata(station, resource, { cache, signal }))
+  );
+  if (details.status === 'rejected' && products.status === 'rejected' && sensors.status === 'rejected') {
+    throw details.reason;
+  }
+
+  const info = (details.status === 'fulfilled' ? details.value : null) as Record<string, unknown> | null;
+  const productRows = ((products.status === 'fulfilled' ? products.value : null) as {
+    products?: { name?: unknown }[];
+  } | null)?.products ?? [];
+  const sensorRows = ((sensors.status === 'fulfilled' ? sensors.value : null) as {
+    sensors?: { sensorID?: unknown; name?: unknown; status?: unknown }[];
+  } | null)?.sensors ?? [];
+
+  return {
+    established: metadataDate(info?.established),
+    removed: metadataDate(info?.removed),
+    tideType: typeof info?.tidetype === 'string' && info.tidetype ? info.tidetype : null,
+    products: productRows.flatMap(row => (typeof row.name === 'string' ? [row.name] : [])),
+    sensors: sensorRows.flatMap(row => (typeof row.name === 'string'
+      ? [{ id: String(row.sensorID ?? ''), name: row.name, active: Number(row.status) === 1 }]
+      : [])),
+  };
+}
+
+/**
+ * Fetches the most recent water level observation of a station
+ *
+ * Bypasses the response cache: the point is to know how fresh the data is.
+ *
+ * @param {Object} opts - Request options
+ * @param {string} opts.station - NOAA station ID
+ * @param {string} [opts.datum='MLLW'] - Vertical reference datum
+ * @param {'english' | 'metric'} [opts.units='english'] - Feet or meters
+ * @param {AbortSignal} [opts.signal] - Cancels the request
+ * @returns {Promise<{ t: Date; v: number } | null>} Latest observation, or null if the response has none
+ * @throws {NOAAError} When the request fails, e.g. a station without water level sensors
+ */
+export async function fetchLatestObservation(opts: {
+  station: string;
+  datum?: string;
+  units?: 'english' | 'metric';
+  signal?: AbortSignal;
+}): Promise<{ t: Date; v: number } | null> {
+  const { station, datum = 'MLLW', units = 'english', signal } = opts;
+  const data = await requestNOAA({
+    product: 'water_level',
+    application: 'canal-dr-flood',
+    format: 'json',
+    time_zone: 'gmt',
+    units,
+    datum,
+    station,
+    date: 'latest',
+  }, { cache: { enabled: false }, signal });
+
+  const row = data?.data?.[data.data.length - 1];
+  const v = parseFloat(row?.v);
+  if (!row?.t || !isFinite(v)) return null;
+  return { t: new Date(row.t.replace(' ', 'T') + 'Z'), v };
+}
+
+/**
+ * Re-references a height from one datum to another
+ *
+ * @param {number} value - Height relative to `from`
+ * @param {string} from - Datum the value is currently referenced to
+ * @param {string} to - Target datum
+ * @param {StationDatums} datums - Station datum heights from `fetchStationDatums`
+ * @returns {number | null} Height relative to `to`, or null if either datum is unknown for the station
+ *
+ * @example
+ * // 6.1 ft above MLLW at a station where MHHW sits 4.18 ft above MLLW
+ * convertDatum(6.1, 'MLLW', 'MHHW', datums); // 1.92
+ */
+export function convertDatum(value: number, from: string, to: string, datums: StationDatums): number | null {
+  if (from === to) return value;
+  const fromHeight = datums[from];
+  const toHeight = datums[to];
+  if (fromHeight === undefined || toHeight === undefined) return null;
+  return value + fromHeight - toHeight;
+}
+
+/**
+ * Pairs observations with predictions at matching timestamps
+ *
+ * @param {TimeSeries | ObservationSeries} observed - Actual measured water levels
+ * @param {TimeSeries} predicted - Harmonic tide predictions
+ * @param {Object} [opts] - Options
+ * @param {boolean} [opts.excludeFlagged=false] - Skip observations that failed a NOAA
+ *   quality check (only applies when `observed` carries quality metadata)
+ * @returns {SurgeResidual[]} Observed minus predicted, keyed by epoch milliseconds
+ */
+export function surgeResiduals(
+  observed: TimeSeries | ObservationSeries,
+  predicted: TimeSeries,
+  opts: { excludeFlagged?: boolean } = {}
+): SurgeResidual[] {
+  const residuals: SurgeResidual[] = [];
+
+  // Find all timestamps where both observed and predicted data exist
+  for (const [k, obs] of Object.entries(observed)) {
+    if (!(k in predicted)) continue;
+    if (typeof obs !== 'number' && opts.excludeFlagged && isFlaggedObservation(obs)) continue;
+
+    // Calculate difference: positive = surge above prediction, negative = below
+    const v = typeof obs === 'number' ? obs : obs.v;
+    residuals.push({ t: new Date(k).getTime(), v: v - predicted[k] });
+  }
+
+  return residuals;
+}
+
 /**
  * Estimates storm surge offset by comparing observed vs predicted water levels
  * 
  * Storm surge is the meteorological component of water level rise caused by wind,
- * atmospheric pressure, and other weather factors. This function calculates the
- * median difference between observed and predicted levels to estimate current surge.
+ * atmospheric pressure, and other weather factors. By default this function calculates
+ * the median difference between observed and predicted levels to estimate current surge.
  * 
  * The median is used instead of mean to reduce impact of outliers and data gaps.
- * This surge offset can then be applied to future predictions for improved forecasting.
+ * Other estimators from `surge.ts` can be selected with `opts.strategy`; use
+ * `estimateSurge` directly for the full model including trend.
  * 
- * @param {TimeSeries} observed - Actual measured water levels
+ * @param {TimeSeries | ObservationSeries} observed - Actual measured water levels
  * @param {TimeSeries} predicted - Harmonic tide predictions
+ * @param {Object} [opts] - Estimation options
+ * @param {boolean} [opts.excludeFlagged=false] - Skip observations that failed a NOAA
+ *   quality check (only applies when `observed` carries quality metadata)
+ * @param {SurgeStrategyId | SurgeStrategy} [opts.strategy='median'] - Surge estimator
+ * @param {Date} [opts.now] - Reference time for time-weighted strategies (defaults to the latest residual)
  * @returns {Object} Surge analysis results
  * @returns {number} returns.offset - Estimated surge offset in same units as input data
  * @returns {number} returns.n - Number of matching data points used in calculation
@@ -283,28 +1439,102 @@ export async function fetchPredictions(opts: {
  *   console.log(`Current surge: ${offset.toFixed(2)} feet based on ${n} observations`);
  * }
  */
-export function estimateSurgeOffset(observed: TimeSeries, predicted: TimeSeries): { offset: number; n: number } {
-  const diffs: number[] = [];
-  
-  // Find all timestamps where both observed and predicted data exist
-  for (const k of Object.keys(observed)) {
-    if (k in predicted) {
-      // Calculate difference: positive = surge above prediction, negative = below
-      diffs.push(observed[k] - predicted[k]);
+export function estimateSurgeOffset(
+  observed: TimeSeries | ObservationSeries,
+  predicted: TimeSeries,
+  opts: { excludeFlagged?: boolean; strategy?: SurgeStrategyId | SurgeStrategy; now?: Date } = {}
+): { offset: number; n: number } {
+  const residuals = surgeResiduals(observed, predicted, opts);
+  const now = opts.now ?? new Date(residuals.reduce((latest, r) => Math.max(latest, r.t), 0));
+  const { offset, n } = estimateSurge(residuals, now, opts.strategy);
+  return { offset, n };
+}
+
+/**
+ * Linear interpolation of the time a segment reaches a level
+ */
+function interpolateCrossing(t0: number, v0: number, t1: number, v1: number, level: number): number {
+  if (t1 <= t0 || v1 === v0) return t1; // Default to end of interval
+  const frac = Math.max(0, Math.min(1, (level - v0) / (v1 - v0)));
+  return t0 + frac * (t1 - t0);
+}
+
+/**
+ * Finds every flood episode in a water level series
+ *
+ * This is the single event-detection routine behind threshold crossings, the
+ * chart's flood shading and the flood event list. It works on any series
+ * (observed, forecast, or observed joined to forecast at `now`).
+ *
+ * @param {TimeSeries | Array<{ t: Date; v: number }>} series - Water levels keyed by timestamp, or points
+ * @param {number} threshold - Flood threshold (same units and datum as the series)
+ * @param {Object} [opts] - Options
+ * @param {Date} [opts.now] - Reference time for `FloodEvent.inProgress`
+ * @returns {FloodEvent[]} Episodes in chronological order
+ *
+ * @example
+ * const events = findFloodEvents(adjusted, 6.1, { now: new Date() });
+ * for (const e of events) {
+ *   console.log(`${e.onset} – ${e.recession}: peak ${e.peak} ft (+${e.maxDepth.toFixed(2)})`);
+ * }
+ */
+export function findFloodEvents(
+  series: TimeSeries | { t: Date; v: number }[],
+  threshold: number,
+  opts: { now?: Date } = {}
+): FloodEvent[] {
+  const entries = (Array.isArray(series)
+    ? series.map(p => ({ t: p.t.getTime(), v: p.v }))
+    : Object.entries(series).map(([k, v]) => ({ t: new Date(k).getTime(), v })))
+    .sort((a, b) => a.t - b.t);
+  if (entries.length === 0) return [];
+
+  const firstT = entries[0].t;
+  const lastT = entries[entries.length - 1].t;
+  const nowMs = opts.now?.getTime();
+  const events: FloodEvent[] = [];
+
+  // Episode being tracked: start time (ms, null if before the series) and peak so far
+  let open: { onset: number | null; peakT: number; peak: number } | null = null;
+
+  const close = (recession: number | null) => {
+    if (!open) return;
+    const from = open.onset ?? firstT;
+    const to = recession ?? lastT;
+    events.push({
+      threshold,
+      onset: open.onset === null ? null : new Date(open.onset),
+      recession: recession === null ? null : new Date(recession),
+      peakTime: new Date(open.peakT),
+      peak: open.peak,
+      maxDepth: open.peak - threshold,
+      durationMinutes: Math.round((to - from) / 60000),
+      inProgress: nowMs !== undefined && (open.onset ?? -Infinity) <= nowMs && (recession ?? Infinity) > nowMs,
+    });
+    open = null;
+  };
+
+  entries.forEach(({ t, v }, i) => {
+    const above = v >= threshold;
+    if (i === 0) {
+      if (above) open = { onset: null, peakT: t, peak: v };
+      return;
     }
-  }
-  
-  // Return zero offset if no matching data points
-  if (diffs.length === 0) return { offset: 0, n: 0 };
-  
-  // Sort differences to find median (robust against outliers)
-  diffs.sort((a, b) => a - b);
-  const mid = Math.floor(diffs.length / 2);
-  
-  // Calculate median: middle value for odd count, average of middle two for even count
-  const offset = diffs.length % 2 ? diffs[mid] : (diffs[mid - 1] + diffs[mid]) / 2;
-  
-  return { offset, n: diffs.length };
+
+    const prev = entries[i - 1];
+    if (!open && above) {
+      // Upward crossing: below threshold to at/above threshold
+      open = { onset: interpolateCrossing(prev.t, prev.v, t, v, threshold), peakT: t, peak: v };
+    } else if (open && !above) {
+      close(interpolateCrossing(prev.t, prev.v, t, v, threshold));
+    } else if (open && v > open.peak) {
+      open.peakT = t;
+      open.peak = v;
+    }
+  });
+
+  close(null);
+  return events;
 }
 
 /**
@@ -314,6 +1544,9 @@ export function estimateSurgeOffset(observed: TimeSeries, predicted: TimeSeries)
  * a specified threshold, providing early flood warning capabilities. It uses linear
  * interpolation between data points for more accurate crossing time estimation.
  * 
+ * This is the onset of the first episode found by `findFloodEvents` after `now`;
+ * an episode already in progress at `now` does not count as a crossing.
+ * 
  * @param {TimeSeries} series - Water level time series (observed + surge adjusted predictions)
  * @param {number} threshold - Flood threshold to detect (in same units as series data)
  * @param {Date} now - Current time reference point
@@ -335,49 +1568,50 @@ export function findNextThresholdCrossing(series: TimeSeries, threshold: number,
   tCross: Date;
   leadMinutes: number;
 } | null {
-  // Convert TimeSeries to sorted array of [Date, value] pairs
-  const entries = Object.entries(series)
-    .map(([k, v]) => [new Date(k), v] as const)
-    .sort((a, b) => a[0].getTime() - b[0].getTime());
-  
-  // Need at least 2 points to detect crossings
-  if (entries.length < 2) return null;
-  
   const nowMs = now.getTime();
-  
+
   // Filter to recent past and future data (keep 6 minutes of past for context)
-  const filtered = entries.filter(([t]) => t.getTime() >= nowMs - 6 * 60 * 1000);
-  if (filtered.length < 2) return null;
-  
-  // Search for upward threshold crossing
-  let [prevT, prevV] = filtered[0];
-  for (let i = 1; i < filtered.length; i++) {
-    const [t, v] = filtered[i];
-    
-    // Check for upward crossing: below threshold to at/above threshold
-    if (prevV < threshold && v >= threshold) {
-      const span = t.getTime() - prevT.getTime();
-      let x = t.getTime(); // Default to end of interval
-      
-      // Use linear interpolation for more accurate crossing time
-      if (span > 0 && v !== prevV) {
-        // Calculate interpolation fraction where crossing occurs
-        const frac = Math.max(0, Math.min(1, (threshold - prevV) / (v - prevV)));
-        x = prevT.getTime() + frac * span;
-      }
-      
-      // Calculate lead time in minutes
-      const leadMinutes = Math.round((x - nowMs) / 60000);
-      
-      return { tCross: new Date(x), leadMinutes };
-    }
-    
-    prevT = t; 
-    prevV = v;
+  const recent = Object.entries(series)
+    .map(([k, v]) => ({ t: new Date(k), v }))
+    .filter(p => p.t.getTime() >= nowMs - 6 * 60 * 1000);
+
+  // Need at least 2 points to detect crossings
+  if (recent.length < 2) return null;
+
+  const next = findFloodEvents(recent, threshold).find(event => event.onset !== null);
+  if (!next?.onset) return null;
+
+  // Calculate lead time in minutes
+  const leadMinutes = Math.round((next.onset.getTime() - nowMs) / 60000);
+  return { tCross: next.onset, leadMinutes };
+}
+
+/**
+ * Finds the next entry into each flood tier
+ *
+ * Runs `findNextThresholdCrossing` for every tier, so each result is the first
+ * upward crossing of that tier's threshold after `now`. Tiers the series never
+ * enters are omitted.
+ *
+ * @param {TimeSeries} series - Water level time series (typically surge adjusted predictions)
+ * @param {FloodTier[]} tiers - Flood tiers in any order
+ * @param {Date} now - Current time reference point
+ * @returns {TierCrossing[]} Crossings ordered from the lowest to the highest tier
+ *
+ * @example
+ * const crossings = findNextTierCrossings(adjusted, [
+ *   { severity: 'minor', threshold: 6.1 },
+ *   { severity: 'moderate', threshold: 7.0 },
+ * ], new Date());
+ * const worst = crossings[crossings.length - 1]; // highest tier expected
+ */
+export function findNextTierCrossings(series: TimeSeries, tiers: FloodTier[], now: Date): TierCrossing[] {
+  const crossings: TierCrossing[] = [];
+  for (const tier of [...tiers].sort((a, b) => a.threshold - b.threshold)) {
+    const crossing = findNextThresholdCrossing(series, tier.threshold, now);
+    if (crossing) crossings.push({ ...tier, ...crossing });
   }
-  
-  // No crossing found in the data
-  return null;
+  return crossings;
 }
 
 /**
@@ -389,9 +1623,9 @@ export function findNextThresholdCrossing(series: TimeSeries, threshold: number,
  * 
  * Process:
  * 1. Fetch recent observed data to calculate current storm surge
- * 2. Fetch harmonic predictions for the same historical period
- * 3. Calculate surge offset from the difference
- * 4. Apply this offset to future predictions for adjusted forecasts
+ * 2. Fetch harmonic predictions for the historical period and the forecast, as one window
+ * 3. Estimate a surge model from the difference with the chosen strategy
+ * 4. Add the projected surge (optionally decaying with lead time) to future predictions
  * 
  * @param {Object} opts - Configuration options for forecast generation
  * @param {string} opts.station - NOAA station ID
@@ -401,10 +1635,17 @@ export function findNextThresholdCrossing(series: TimeSeries, threshold: number,
  * @param {number} [opts.interval=6] - Data interval in minutes
  * @param {string} [opts.datum='MLLW'] - Vertical datum reference
  * @param {'english' | 'metric'} [opts.units='english'] - Unit system
+ * @param {CacheOptions} [opts.cache] - Cache behaviour, forwarded to every underlying fetch
+ * @param {AbortSignal} [opts.signal] - Cancels every underlying fetch
+ * @param {Function} [opts.onPartialFailure] - Receives chunks that failed in any underlying fetch
+ * @param {boolean} [opts.excludeFlagged=false] - Ignore quality-flagged observations when estimating surge
+ * @param {SurgeOptions} [opts.surge] - Surge strategy and e-folding decay (defaults to an undamped median)
  * @returns {Promise<Object>} Forecast results with adjusted predictions and metadata
  * @returns {TimeSeries} returns.adjusted - Surge-adjusted future water levels
- * @returns {number} returns.offset - Storm surge offset applied (positive = above normal)
+ * @returns {number} returns.offset - Storm surge at `now` (positive = above normal)
  * @returns {number} returns.n - Number of data points used for surge calculation
+ * @returns {SurgeModel} returns.model - Full surge model, for projecting the surge elsewhere
+ * @returns {SurgeResidual[]} returns.residuals - Residuals the model was estimated from
  * 
  * @example
  * // Generate 24-hour flood forecast using 6 hours of recent data
@@ -430,41 +1671,85 @@ export async function buildAdjustedFuture(opts: {
   interval?: number;
   datum?: string;
   units?: 'english' | 'metric';
-}): Promise<{ adjusted: TimeSeries; offset: number; n: number }> {
-  const { station, now, lookbackHours, lookaheadHours, interval = 6, datum = 'MLLW', units = 'english' } = opts;
+  cache?: CacheOptions;
+  signal?: AbortSignal;
+  onPartialFailure?: (failures: ChunkFailure[]) => void;
+  excludeFlagged?: boolean;
+  surge?: SurgeOptions;
+}): Promise<AdjustedForecast> {
+  const {
+    station, now, lookbackHours, lookaheadHours, interval = 6, datum = 'MLLW', units = 'english',
+    cache, signal, onPartialFailure, excludeFlagged = false, surge = {},
+  } = opts;
   
-  // Define time windows for analysis
+  // Observations for the surge estimate; predictions for it and the forecast in one window
   const pastStart = new Date(now.getTime() - lookbackHours * 3600_000);
-  const pastEnd = now;
-  
-  // Fetch historical data in parallel for efficiency
-  const [observed, predictedPast] = await Promise.all([
-    fetchObservedWaterLevels({ station, start: pastStart, end: pastEnd, interval, datum, units }),
-    fetchPredictions({ station, start: pastStart, end: pastEnd, interval, datum, units }),
-  ]);
-  
-  // Calculate current storm surge offset
-  const { offset, n } = estimateSurgeOffset(observed, predictedPast);
-  
-  // Define forecast time window
-  const futStart = now;
   const futEnd = new Date(now.getTime() + lookaheadHours * 3600_000);
-  
-  // Get future tide predictions
-  const predictedFuture = await fetchPredictions({ 
-    station, 
-    start: futStart, 
-    end: futEnd, 
-    interval, 
-    datum, 
-    units 
-  });
-  
+  const request = { station, interval, datum, units, cache, signal, onPartialFailure };
+
+  const [observed, predicted] = await Promise.all([
+    fetchObservations({ ...request, start: pastStart, end: now }),
+    fetchPredictions({ ...request, start: pastStart, end: futEnd }),
+  ]);
+
+  return adjustPredictions(observed, predicted, { now, lookbackHours, excludeFlagged, surge });
+}
+
+/**
+ * Surge-adjusted forecast with the surge model behind it
+ *
+ * @property {TimeSeries} adjusted - Predictions from `now` on plus the projected surge
+ * @property {number} offset - Storm surge at `now` (positive = above normal)
+ * @property {number} n - Number of residuals used for the surge estimate
+ * @property {SurgeModel} model - Full surge model, for projecting the surge elsewhere
+ * @property {SurgeResidual[]} residuals - Residuals the model was estimated from
+ */
+export interface AdjustedForecast {
+  adjusted: TimeSeries;
+  offset: number;
+  n: number;
+  model: SurgeModel;
+  residuals: SurgeResidual[];
+}
+
+/**
+ * Builds the surge-adjusted forecast from already loaded series
+ *
+ * The data-loading half of `buildAdjustedFuture`: callers that already hold
+ * observations and predictions covering the lookback window (and predictions
+ * for the forecast period) derive the forecast without further requests.
+ * Data outside the lookback window is ignored for the surge estimate.
+ *
+ * @param {TimeSeries | ObservationSeries} observed - Observations including `[now - lookbackHours, now]`
+ * @param {TimeSeries} predicted - Predictions including the lookback window and the forecast period
+ * @param {Object} opts - Forecast options
+ * @param {Date} opts.now - Current time reference
+ * @param {number} opts.lookbackHours - Hours of residuals used for the surge estimate
+ * @param {boolean} [opts.excludeFlagged=false] - Ignore quality-flagged observations
+ * @param {SurgeOptions} [opts.surge] - Surge strategy and e-folding decay
+ * @returns {AdjustedForecast} Adjusted predictions for every prediction at or after `now`
+ */
+export function adjustPredictions(
+  observed: TimeSeries | ObservationSeries,
+  predicted: TimeSeries,
+  opts: { now: Date; lookbackHours: number; excludeFlagged?: boolean; surge?: SurgeOptions }
+): AdjustedForecast {
+  const { now, lookbackHours, excludeFlagged = false, surge = {} } = opts;
+  const nowMs = now.getTime();
+  const pastStartMs = nowMs - lookbackHours * 3600_000;
+
+  // Estimate the current storm surge and how it evolves
+  const residuals = surgeResiduals(observed, predicted, { excludeFlagged })
+    .filter(r => r.t >= pastStartMs && r.t <= nowMs);
+  const model = estimateSurge(residuals, now, surge.strategy);
+
   // Apply surge adjustment to future predictions
   const adjusted: TimeSeries = {};
-  for (const [k, v] of Object.entries(predictedFuture)) {
-    adjusted[k] = v + offset; // Add current surge to harmonic prediction
+  for (const [k, v] of Object.entries(predicted)) {
+    const t = new Date(k).getTime();
+    if (t < nowMs) continue;
+    adjusted[k] = v + projectSurge(model, (t - nowMs) / 3600_000, surge.decayHours); // Add projected surge to harmonic prediction
   }
-  
-  return { adjusted, offset, n };
+
+  return { adjusted, offset: model.offset, n: model.n, model, residuals };
 }
@@ -0,0 +1,264 @@
+/**
+ * @fileoverview Persistent response cache for NOAA API requests
+ *
+ * Provides a two-level cache (in-memory + IndexedDB) with stale-while-revalidate
+ * semantics so repeated chart refreshes don't re-download identical NOAA windows.
+ *
+ * Key Features:
+ * - In-memory layer for instant repeat lookups within a session
+ * - IndexedDB layer so cached windows survive app restarts
+ * - Stale entries are served immediately and revalidated in the background
+ * - Concurrent requests for the same key share a single network call
+ * - Graceful fallback to memory-only when IndexedDB is unavailable
+ */
+
+import { isAbortError } from './noaaErrors';
+
+/**
+ * Describes where a cached value came from and how old it is
+ */
+export interface CacheMeta {
+  /** True when the value was served from the cache instead of the network */
+  fromCache: boolean;
+  /** Epoch milliseconds when the value was originally fetched from NOAA */
+  fetchedAt: number;
+  /** True when the value is older than its TTL (a revalidation was started) */
+  stale: boolean;
+}
+
+/**
+ * Result of a cached fetch: the value plus its provenance
+ */
+export interface CachedResult<T> {
+  value: T;
+  meta: CacheMeta;
+}
+
+/**
+ * Stored cache record
+ */
+interface CacheEntry<T = unknown> {
+  key: string;
+  value: T;
+  fetchedAt: number;
+}
+
+const DB_NAME = 'floodi-noaa-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+
+/** Maximum number of entries kept in the in-memory layer */
+const MAX_MEMORY_ENTRIES = 100;
+
+/** Entries older than this are never served, even as stale data */
+const MAX_ENTRY_AGE_MS = 30 * 24 * 3600_000; // 30 days
+
+const memory = new Map<string, CacheEntry>();
+const inflight = new Map<string, Promise<CacheEntry>>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Opens (and lazily creates) the IndexedDB database
+ *
+ * Resolves to null when IndexedDB is unavailable (private browsing, tests, SSR)
+ * so callers can transparently fall back to the in-memory layer.
+ */
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    try {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        }
+      };
+      req.onsuccess = () => {
+        pruneExpired(req.result);
+        resolve(req.result);
+      };
+      req.onerror = () => resolve(null);
+      req.onblocked = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Deletes persisted entries that exceeded the maximum age
+ */
+function pruneExpired(db: IDBDatabase): void {
+  try {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const cursorReq = tx.objectStore(STORE_NAME).openCursor();
+    const cutoff = Date.now() - MAX_ENTRY_AGE_MS;
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) return;
+      if ((cursor.value as CacheEntry).fetchedAt < cutoff) cursor.delete();
+      cursor.continue();
+    };
+  } catch {
+    // Pruning is best-effort
+  }
+}
+
+/**
+ * Reads an entry from IndexedDB, resolving to null on any failure
+ */
+async function idbGet(key: string): Promise<CacheEntry | null> {
+  const db = await openDb();
+  if (!db) return null;
+
+  return new Promise(resolve => {
+    try {
+      const req = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+      req.onsuccess = () => resolve((req.result as CacheEntry | undefined) ?? null);
+      req.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+/**
+ * Writes an entry to IndexedDB; failures are ignored
+ */
+async function idbPut(entry: CacheEntry): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+
+  try {
+    db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry);
+  } catch {
+    // Quota exceeded or database closed - the memory layer still has the entry
+  }
+}
+
+/**
+ * Stores an entry in the in-memory layer, evicting the least recently used
+ */
+function rememberInMemory(entry: CacheEntry): void {
+  memory.delete(entry.key);
+  memory.set(entry.key, entry);
+  while (memory.size > MAX_MEMORY_ENTRIES) {
+    const oldest = memory.keys().next().value;
+    if (oldest === undefined) break;
+    memory.delete(oldest);
+  }
+}
+
+/**
+ * Looks up an entry in memory first, then IndexedDB
+ */
+async function readEntry(key: string): Promise<CacheEntry | null> {
+  const hit = memory.get(key) ?? await idbGet(key);
+  if (!hit) return null;
+  if (Date.now() - hit.fetchedAt > MAX_ENTRY_AGE_MS) return null;
+  rememberInMemory(hit);
+  return hit;
+}
+
+/**
+ * Runs the fetcher and stores its result, sharing in-flight requests per key
+ *
+ * If the shared request is aborted by its original caller, a caller whose own
+ * signal is still active starts a fresh request instead of failing.
+ */
+async function fetchAndStore<T>(
+  key: string,
+  fetcher: (signal?: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<CacheEntry<T>> {
+  const pending = inflight.get(key) as Promise<CacheEntry<T>> | undefined;
+  if (pending) {
+    try {
+      return await pending;
+    } catch (error) {
+      if (!isAbortError(error) || signal?.aborted) throw error;
+    }
+  }
+
+  signal?.throwIfAborted();
+  const promise = fetcher(signal)
+    .then(value => {
+      const entry: CacheEntry<T> = { key, value, fetchedAt: Date.now() };
+      rememberInMemory(entry);
+      void idbPut(entry);
+      return entry;
+    })
+    .finally(() => {
+      if (inflight.get(key) === promise) inflight.delete(key);
+    });
+
+  inflight.set(key, promise);
+  return promise;
+}
+
+/**
+ * Fetches a value through the cache with stale-while-revalidate semantics
+ *
+ * - Fresh hit (age < ttl): returns the cached value, no network request
+ * - Stale hit: returns the cached value immediately and refetches in the
+ *   background; `onRevalidated` is called once the new value is stored
+ * - Miss: waits for the network and stores the result
+ *
+ * @param key - Stable cache key identifying the request
+ * @param ttlMs - Time after which a cached value is considered stale
+ * @param fetcher - Function performing the actual network request
+ * @param opts - Optional abort signal and revalidation callback. The signal only
+ *   applies to the foreground request; background revalidation is never aborted.
+ * @returns The value with cache provenance metadata
+ *
+ * @example
+ * const { value, meta } = await cachedFetch('predictions|8658163|...', 86_400_000, () => fetchJson(url));
+ * if (meta.fromCache) console.log(`cached ${Date.now() - meta.fetchedAt} ms ago`);
+ */
+export async function cachedFetch<T>(
+  key: string,
+  ttlMs: number,
+  fetcher: (signal?: AbortSignal) => Promise<T>,
+  opts: { signal?: AbortSignal; onRevalidated?: (value: T, meta: CacheMeta) => void } = {}
+): Promise<CachedResult<T>> {
+  opts.signal?.throwIfAborted();
+  const hit = await readEntry(key) as CacheEntry<T> | null;
+
+  if (hit) {
+    const stale = Date.now() - hit.fetchedAt >= ttlMs;
+    if (stale) {
+      fetchAndStore(key, fetcher)
+        .then(entry => opts.onRevalidated?.(entry.value, { fromCache: false, fetchedAt: entry.fetchedAt, stale: false }))
+        .catch(() => {
+          // Keep serving the stale value; the next request will retry
+        });
+    }
+    return { value: hit.value, meta: { fromCache: true, fetchedAt: hit.fetchedAt, stale } };
+  }
+
+  const entry = await fetchAndStore(key, fetcher, opts.signal);
+  return { value: entry.value, meta: { fromCache: false, fetchedAt: entry.fetchedAt, stale: false } };
+}
+
+/**
+ * Removes every cached NOAA response from memory and IndexedDB
+ */
+export async function clearNOAACache(): Promise<void> {
+  memory.clear();
+  const db = await openDb();
+  if (!db) return;
+
+  try {
+    db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear();
+  } catch {
+    // Best-effort
+  }
+}
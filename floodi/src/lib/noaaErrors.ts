@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Typed error model for NOAA API requests
+ *
+ * Distinguishes the failure modes callers need to react to differently:
+ * transport problems, HTTP failures, NOAA's "No data was found" responses,
+ * invalid station/product requests, rate limiting and the device being offline.
+ *
+ * Every class extends `NOAAError`, which carries a `kind` discriminator and a
+ * `retryable` flag used by the request layer's backoff logic.
+ */
+
+/**
+ * Discriminator for the NOAA error classes
+ */
+export type NOAAErrorKind = 'http' | 'no-data' | 'invalid-request' | 'rate-limit' | 'offline';
+
+/**
+ * Base class for all NOAA request failures
+ */
+export class NOAAError extends Error {
+  /** Which failure mode this error represents */
+  readonly kind: NOAAErrorKind;
+  /** Whether retrying the same request may succeed */
+  readonly retryable: boolean;
+
+  constructor(kind: NOAAErrorKind, message: string, retryable: boolean) {
+    super(message);
+    this.name = 'NOAAError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Non-success HTTP status from the NOAA API (other than rate limiting)
+ *
+ * 5xx responses are considered transient and retryable.
+ */
+export class NOAAHttpError extends NOAAError {
+  readonly status: number;
+
+  constructor(status: number) {
+    super('http', `NOAA request failed: ${status}`, status >= 500);
+    this.name = 'NOAAHttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * NOAA responded successfully but had no data for the requested window
+ */
+export class NOAANoDataError extends NOAAError {
+  constructor(message: string) {
+    super('no-data', message, false);
+    this.name = 'NOAANoDataError';
+  }
+}
+
+/**
+ * The station ID, product or another parameter was rejected by NOAA
+ */
+export class NOAAInvalidRequestError extends NOAAError {
+  constructor(message: string) {
+    super('invalid-request', message, false);
+    this.name = 'NOAAInvalidRequestError';
+  }
+}
+
+/**
+ * NOAA throttled the request (HTTP 429)
+ */
+export class NOAARateLimitError extends NOAAError {
+  /** Server-suggested wait before retrying, when provided */
+  readonly retryAfterMs: number | null;
+
+  constructor(retryAfterMs: number | null) {
+    super('rate-limit', 'NOAA rate limit reached', true);
+    this.name = 'NOAARateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The request could not reach NOAA (no connection or network failure)
+ */
+export class NOAAOfflineError extends NOAAError {
+  constructor(message = 'Network unavailable') {
+    super('offline', message, true);
+    this.name = 'NOAAOfflineError';
+  }
+}
+
+/**
+ * Classifies the `error.message` from a NOAA JSON error body
+ *
+ * @param {string} message - Message returned by NOAA
+ * @returns {NOAAError} The matching typed error
+ *
+ * @example
+ * classifyNOAAMessage('No data was found. This product may not be offered at this station at the requested time.');
+ * // -> NOAANoDataError
+ */
+export function classifyNOAAMessage(message: string): NOAAError {
+  if (/no data was found/i.test(message)) {
+    return new NOAANoDataError(message);
+  }
+  if (/station|product|datum|invalid|wrong|not supported|supported products/i.test(message)) {
+    return new NOAAInvalidRequestError(message);
+  }
+  return new NOAAError('http', `NOAA API error: ${message}`, false);
+}
+
+/**
+ * Parses an HTTP Retry-After header into milliseconds
+ *
+ * @param {string | null} header - Header value (seconds or HTTP date)
+ * @returns {number | null} Delay in milliseconds, or null if absent/invalid
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Checks whether an error was caused by aborting the request
+ *
+ * @param {unknown} error - Any thrown value
+ * @returns {boolean} True for DOM AbortError (fetch, AbortSignal.throwIfAborted)
+ */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+}
@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Sea level rise scenarios for planning
+ *
+ * Bundles the five NOAA sea level rise scenarios of the 2022 Interagency Sea
+ * Level Rise Technical Report (Sweet et al., 2022) by decade, as global mean
+ * sea level above the year-2000 level. Adding the rise between now and a target
+ * year to the predicted tides gives the water levels the same tides would reach
+ * then, and how often today's flood threshold would be exceeded.
+ *
+ * Regional rise differs from the global mean (vertical land motion, ocean
+ * dynamics); the global values are a planning baseline, not a local projection.
+ */
+
+import type { TideEvent } from './noaa';
+
+/** Identifiers of the bundled scenarios, lowest to highest */
+export type SlrScenarioId = 'low' | 'intermediateLow' | 'intermediate' | 'intermediateHigh' | 'high';
+
+/**
+ * A sea level rise scenario
+ *
+ * @property {SlrScenarioId} id - Stable identifier, stored in settings
+ * @property {string} label - Display name
+ * @property {number[]} rise - Rise in meters above 2000 at each of `SLR_YEARS`
+ */
+export interface SlrScenario {
+  id: SlrScenarioId;
+  label: string;
+  rise: number[];
+}
+
+/** Years of the scenario table */
+export const SLR_YEARS: readonly number[] = [2000, 2020, 2030, 2040, 2050, 2060, 2070, 2080, 2090, 2100];
+
+/**
+ * Global mean sea level rise (m) above 2000 per scenario, rounded to centimeters
+ *
+ * The scenarios are named by their 2100 rise: 0.3, 0.5, 1.0, 1.5 and 2.0 m.
+ */
+export const SLR_SCENARIOS: readonly SlrScenario[] = [
+  { id: 'low', label: 'Low', rise: [0, 0.06, 0.09, 0.11, 0.14, 0.17, 0.20, 0.23, 0.27, 0.30] },
+  { id: 'intermediateLow', label: 'Intermediate-Low', rise: [0, 0.07, 0.10, 0.14, 0.19, 0.24, 0.29, 0.35, 0.42, 0.50] },
+  { id: 'intermediate', label: 'Intermediate', rise: [0, 0.08, 0.12, 0.17, 0.24, 0.33, 0.44, 0.58, 0.77, 1.00] },
+  { id: 'intermediateHigh', label: 'Intermediate-High', rise: [0, 0.08, 0.13, 0.20, 0.30, 0.43, 0.61, 0.84, 1.14, 1.50] },
+  { id: 'high', label: 'High', rise: [0, 0.08, 0.14, 0.22, 0.36, 0.54, 0.80, 1.12, 1.52, 2.00] },
+];
+
+/** Scenario ids in table order */
+export const SLR_SCENARIO_IDS: readonly SlrScenarioId[] = SLR_SCENARIOS.map(s => s.id);
+
+/**
+ * Looks up a scenario
+ *
+ * @param {SlrScenarioId} id - Scenario id
+ * @returns {SlrScenario} The scenario (intermediate for unknown ids)
+ */
+export function slrScenario(id: SlrScenarioId): SlrScenario {
+  return SLR_SCENARIOS.find(s => s.id === id) ?? SLR_SCENARIOS[2];
+}
+
+/**
+ * Sea level rise above 2000 in a year, interpolated linearly between table years
+ *
+ * @param {SlrScenarioId} id - Scenario id
+ * @param {number} year - Year (fractional years allowed), clamped to the table range
+ * @returns {number} Rise in meters
+ *
+ * @example
+ * seaLevelRise('intermediate', 2045); // 0.205
+ */
+export function seaLevelRise(id: SlrScenarioId, year: number): number {
+  const { rise } = slrScenario(id);
+  const last = SLR_YEARS.length - 1;
+  if (year <= SLR_YEARS[0]) return rise[0];
+  if (year >= SLR_YEARS[last]) return rise[last];
+  const i = SLR_YEARS.findIndex(y => y > year) - 1;
+  const frac = (year - SLR_YEARS[i]) / (SLR_YEARS[i + 1] - SLR_YEARS[i]);
+  return rise[i] + frac * (rise[i + 1] - rise[i]);
+}
+
+/**
+ * Sea level rise between two years
+ *
+ * @param {SlrScenarioId} id - Scenario id
+ * @param {number} fromYear - Reference year (e.g. the current year)
+ * @param {number} toYear - Target year
+ * @returns {number} Rise in meters (negative when `toYear` is earlier)
+ */
+export function riseBetween(id: SlrScenarioId, fromYear: number, toYear: number): number {
+  return seaLevelRise(id, toYear) - seaLevelRise(id, fromYear);
+}
+
+/**
+ * How often high tides reach a threshold
+ *
+ * @property {number} highTides - High tides considered
+ * @property {number} above - High tides at or above the threshold
+ * @property {number} fraction - `above / highTides` (0 when there are none)
+ * @property {number} days - Distinct UTC days with at least one high tide at or above the threshold
+ */
+export interface ExceedanceStats {
+  highTides: number;
+  above: number;
+  fraction: number;
+  days: number;
+}
+
+/**
+ * Counts the high tides that reach a threshold once raised by a constant amount
+ *
+ * Works on high/low predictions, so every peak is counted at its true height;
+ * a sampled series can step over the top of a tide and miss a flood day.
+ * Low tides are ignored.
+ *
+ * @param {TideEvent[]} events - Predicted highs and lows
+ * @param {number} threshold - Flood threshold, same unit and datum as the events
+ * @param {number} [rise=0] - Amount added to every high tide
+ * @returns {ExceedanceStats} Counts of high tides and days at or above the threshold
+ *
+ * @example
+ * // High/low predictions for 2050 with 0.24 m of intermediate rise, threshold 1.86 m
+ * exceedanceStats(highLows2050, 1.86, 0.24); // e.g. { highTides: 706, above: 181, fraction: 0.26, days: 163 }
+ */
+export function exceedanceStats(events: TideEvent[], threshold: number, rise: number = 0): ExceedanceStats {
+  let highTides = 0;
+  let above = 0;
+  const days = new Set<string>();
+  for (const { t, v, type } of events) {
+    if (type !== 'H' && type !== 'HH') continue;
+    highTides++;
+    if (v + rise >= threshold) {
+      above++;
+      days.add(t.toISOString().slice(0, 10));
+    }
+  }
+  return { highTides, above, fraction: highTides > 0 ? above / highTides : 0, days: days.size };
+}
+
+/**
+ * Moves a date by whole years, keeping the calendar date and UTC time
+ *
+ * February 29 moves to March 1 in non-leap years.
+ *
+ * @param {Date} date - Date to move
+ * @param {number} years - Years to add (may be negative)
+ * @returns {Date} Shifted date
+ */
+export function shiftYears(date: Date, years: number): Date {
+  const shifted = new Date(date.getTime());
+  shifted.setUTCFullYear(date.getUTCFullYear() + years);
+  return shifted;
+}
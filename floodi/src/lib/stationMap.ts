@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Projection and clustering for the station map
+ *
+ * The map uses a spherical Mercator projection in degree units: x is the
+ * longitude and y the Mercator ordinate scaled to degrees, so one unit is the
+ * same distance on both axes at the equator. Longitudes east of Greenwich are
+ * shifted by −360° so Guam, the Aleutians and the mainland form one continuous
+ * map, matching the bundled coastline (`src/assets/coastline.json`).
+ */
+
+/** Mercator ordinates beyond this latitude are clamped (the projection diverges at the poles) */
+const MAX_LATITUDE = 85;
+
+/**
+ * A point in map units
+ *
+ * @property {number} x - Shifted longitude in degrees
+ * @property {number} y - Mercator ordinate in degrees, increasing northward
+ */
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Projects a longitude and latitude to map units
+ *
+ * @param {number} lon - Longitude in degrees east
+ * @param {number} lat - Latitude in degrees north
+ * @returns {MapPoint} Map position
+ *
+ * @example
+ * projectLonLat(144.69, 13.44); // Guam: { x: -215.31, y: 13.52 }
+ */
+export function projectLonLat(lon: number, lat: number): MapPoint {
+  const phi = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat)) * Math.PI / 180;
+  return {
+    x: lon > 0 ? lon - 360 : lon,
+    y: Math.log(Math.tan(Math.PI / 4 + phi / 2)) * 180 / Math.PI,
+  };
+}
+
+/**
+ * Builds an SVG path for rings of flat `[lon, lat, ...]` coordinates already shifted like `projectLonLat`
+ *
+ * @param {number[][]} rings - Coastline rings
+ * @returns {string} Path data in map units with y pointing down (negated)
+ */
+export function ringsToPath(rings: number[][]): string {
+  return rings.map(ring => {
+    const parts: string[] = [];
+    for (let i = 0; i < ring.length; i += 2) {
+      const { y } = projectLonLat(0, ring[i + 1]);
+      parts.push(`${i === 0 ? 'M' : 'L'}${ring[i]} ${(-y).toFixed(3)}`);
+    }
+    return parts.join('') + 'Z';
+  }).join('');
+}
+
+/**
+ * A group of nearby markers
+ *
+ * @property {number} x - Mean x of the members
+ * @property {number} y - Mean y of the members
+ * @property {T[]} items - Members
+ */
+export interface Cluster<T> extends MapPoint {
+  items: T[];
+}
+
+/**
+ * Groups points that fall into the same grid cell
+ *
+ * Grid clustering is stable while panning (cells are anchored at the origin)
+ * and linear in the number of points, which keeps the full station list
+ * responsive while dragging.
+ *
+ * @param {Array} points - Points in screen pixels with their items
+ * @param {number} cellSize - Cell edge in pixels
+ * @returns {Cluster[]} One cluster per occupied cell, positioned at the members' mean
+ */
+export function clusterByGrid<T>(points: (MapPoint & { item: T })[], cellSize: number): Cluster<T>[] {
+  const cells = new Map<string, { sx: number; sy: number; items: T[] }>();
+  for (const point of points) {
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.sx += point.x;
+      cell.sy += point.y;
+      cell.items.push(point.item);
+    } else {
+      cells.set(key, { sx: point.x, sy: point.y, items: [point.item] });
+    }
+  }
+  return [...cells.values()].map(({ sx, sy, items }) => ({ x: sx / items.length, y: sy / items.length, items }));
+}
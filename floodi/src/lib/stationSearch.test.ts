@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { buildStationIndex, searchStations } from './stationSearch';
+
+const STATIONS = [
+  { id: '8658120', name: 'Wilmington', state: 'NC', hasPredictions: true },
+  { id: '8658163', name: 'Wrightsville Beach', state: 'NC', hasPredictions: true },
+  { id: '8724580', name: 'Key West', state: 'FL', hasPredictions: true },
+  { id: '8723970', name: 'Vaca Key', state: 'FL', hasPredictions: true },
+  { id: '8594900', name: 'Washington', state: 'DC', hasPredictions: true },
+  { id: '9087044', name: 'Calumet Harbor', state: 'IL', hasPredictions: false },
+  { id: '8658', name: 'Test Station 8658', state: 'NC' },
+];
+
+const index = buildStationIndex(STATIONS);
+const ids = (query: string, opts?: Parameters<typeof searchStations>[2]) =>
+  searchStations(index, query, opts).map(m => m.station.id);
+
+describe('searchStations', () => {
+  it('ranks an exact ID above ID prefixes', () => {
+    expect(ids('8658').slice(0, 3)).toEqual(['8658', '8658120', '8658163']);
+  });
+
+  it('tolerates typos in name words', () => {
+    expect(ids('wrightsvile')).toEqual(['8658163']);
+    expect(ids('wilmingotn')).toEqual(['8658120']);
+  });
+
+  it('matches every query word and expands state names', () => {
+    expect(ids('key florida').sort()).toEqual(['8723970', '8724580']);
+    expect(ids('key fl').sort()).toEqual(['8723970', '8724580']);
+    expect(ids('north carolina beach')).toEqual(['8658163']);
+  });
+
+  it('also finds a state name in station names', () => {
+    expect(ids('washington')).toEqual(['8594900']);
+  });
+
+  it('highlights the matched characters', () => {
+    const [match] = searchStations(index, 'wrights');
+    expect(match.highlights.name).toEqual([[0, 7]]);
+  });
+
+  it('applies the state and prediction filters', () => {
+    expect(ids('', { filters: { state: 'FL' } })).toEqual(['8724580', '8723970']);
+    expect(ids('', { filters: { hasPredictions: true } })).not.toContain('9087044');
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * @fileoverview Ranked, typo-tolerant station search
+ *
+ * Queries are split into words and every word has to match the station: its
+ * ID, a word of its name, or its state. Matches are scored so an exact ID
+ * beats an ID prefix, a whole name word beats a word prefix, and a word prefix
+ * beats a misspelling. State names and postal abbreviations are
+ * interchangeable ("Florida" finds FL stations and "fl" finds Florida).
+ *
+ * The name words of every station are tokenised once per station list
+ * (`buildStationIndex`), so a search over the ~3,000 NOAA water level
+ * stations is a few string comparisons per station and runs on every
+ * keystroke.
+ */
+
+/** Postal abbreviations of the states and territories with NOAA stations */
+export const STATE_NAMES: Readonly<Record<string, string>> = {
+  AL: 'Alabama', AK: 'Alaska', AS: 'American Samoa', AZ: 'Arizona', AR: 'Arkansas',
+  CA: 'California', CO: 'Colorado', CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia',
+  FL: 'Florida', GA: 'Georgia', GU: 'Guam', HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois',
+  IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana', ME: 'Maine',
+  MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota', MS: 'Mississippi',
+  MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire',
+  NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota',
+  MP: 'Northern Mariana Islands', OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania',
+  PR: 'Puerto Rico', RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota',
+  TN: 'Tennessee', TX: 'Texas', UT: 'Utah', VT: 'Vermont', VA: 'Virginia',
+  VI: 'U.S. Virgin Islands', WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming',
+};
+
+/** Score of each kind of match; a station's score is the sum over the query words */
+const SCORES = {
+  idExact: 1000,
+  idPrefix: 600,
+  nameWord: 400,
+  namePrefix: 300,
+  state: 250,
+  nameSubstring: 150,
+  nameFuzzy: 100,
+} as const;
+
+/** Score lost per edit of a fuzzy match */
+const FUZZY_EDIT_PENALTY = 30;
+
+/** Fewest characters a query word needs before substrings and misspellings count */
+const MIN_LOOSE_LENGTH = 3;
+
+/**
+ * Character ranges to highlight, as `[start, end)` offsets into the station's ID and name
+ */
+export interface MatchHighlights {
+  id: [number, number][];
+  name: [number, number][];
+}
+
+/**
+ * A station that matched a query
+ *
+ * @property {T} station - The station
+ * @property {number} score - Relevance, higher is better
+ * @property {MatchHighlights} highlights - Matched characters
+ */
+export interface StationMatch<T> {
+  station: T;
+  score: number;
+  highlights: MatchHighlights;
+}
+
+/**
+ * Minimal shape of a searchable station
+ */
+export interface SearchableStation {
+  id: string;
+  name: string;
+  state?: string;
+  hasPredictions?: boolean;
+}
+
+/**
+ * Search restrictions
+ *
+ * @property {string | null} [state] - Postal abbreviation the station must be in
+ * @property {boolean} [hasPredictions] - Only stations with tide predictions
+ */
+export interface StationFilters {
+  state?: string | null;
+  hasPredictions?: boolean;
+}
+
+/** A word with its offset in the original text */
+interface Token {
+  text: string;
+  start: number;
+}
+
+/** A station with its name tokenised for matching */
+interface IndexedStation<T> {
+  station: T;
+  id: string;
+  words: Token[];
+  state: string;
+  /** Folded full name of the state, e.g. "north carolina" */
+  stateName: string;
+}
+
+/**
+ * Stations prepared for searching, built by `buildStationIndex`
+ */
+export interface StationIndex<T> {
+  entries: IndexedStation<T>[];
+}
+
+/** A query word, or a state recognised in the query */
+type QueryTerm =
+  | { kind: 'word'; text: string }
+  | { kind: 'state'; abbr: string; words: string[] };
+
+/** Whether text is plain ASCII, so lowercasing alone folds it */
+function isAscii(text: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) >= 128) return false;
+  }
+  return true;
+}
+
+/** Lowercases and strips accents without changing character offsets */
+function fold(text: string): string {
+  if (isAscii(text)) return text.toLowerCase();
+  return text
+    .split('')
+    .map(char => char.normalize('NFD')[0].toLowerCase())
+    .join('');
+}
+
+/** Splits text into lowercase alphanumeric words with their offsets */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of fold(text).matchAll(/[a-z0-9]+/g)) {
+    tokens.push({ text: match[0], start: match.index ?? 0 });
+  }
+  return tokens;
+}
+
+/** State names split into words, longest first so "West Virginia" wins over "Virginia" */
+const STATE_PHRASES = Object.entries(STATE_NAMES)
+  .map(([abbr, name]) => ({ abbr, words: tokenize(name).map(t => t.text) }))
+  .sort((a, b) => b.words.length - a.words.length);
+
+/**
+ * Splits a query into terms, recognising full state names
+ */
+function parseQuery(query: string): QueryTerm[] {
+  const words = tokenize(query).map(t => t.text);
+  const terms: QueryTerm[] = [];
+  let i = 0;
+  while (i < words.length) {
+    const phrase = STATE_PHRASES.find(p => p.words.every((word, k) => words[i + k] === word));
+    if (phrase) {
+      terms.push({ kind: 'state', abbr: phrase.abbr, words: phrase.words });
+      i += phrase.words.length;
+    } else {
+      terms.push({ kind: 'word', text: words[i] });
+      i++;
+    }
+  }
+  return terms;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions),
+ * giving up once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const width = b.length + 1;
+  let prevPrev = new Uint8Array(width);
+  let prev = new Uint8Array(width);
+  let row = new Uint8Array(width);
+  for (let j = 0; j < width; j++) prev[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    row[0] = i;
+    let rowMin = i;
+    for (let j = 1; j < width; j++) {
+      const cost = a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a.charCodeAt(i - 1) === b.charCodeAt(j - 2) && a.charCodeAt(i - 2) === b.charCodeAt(j - 1)) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      row[j] = value;
+      if (value < rowMin) rowMin = value;
+    }
+    if (rowMin > max) return max + 1;
+    [prevPrev, prev, row] = [prev, row, prevPrev];
+  }
+  return prev[b.length];
+}
+
+/** Edits tolerated for a query word of this length */
+function allowedEdits(length: number): number {
+  if (length < 4) return 0;
+  return length < 8 ? 1 : 2;
+}
+
+/**
+ * Best match of one query word against a station's name words
+ */
+function matchNameWord(text: string, words: Token[]): { score: number; range: [number, number] } | null {
+  let best: { score: number; range: [number, number] } | null = null;
+  const consider = (score: number, range: [number, number]) => {
+    if (!best || score > best.score) best = { score, range };
+  };
+  const maxEdits = allowedEdits(text.length);
+
+  for (const word of words) {
+    if (word.text === text) {
+      consider(SCORES.nameWord, [word.start, word.start + word.text.length]);
+    } else if (word.text.startsWith(text)) {
+      consider(SCORES.namePrefix, [word.start, word.start + text.length]);
+    } else if (text.length >= MIN_LOOSE_LENGTH && word.text.includes(text)) {
+      const offset = word.start + word.text.indexOf(text);
+      consider(SCORES.nameSubstring, [offset, offset + text.length]);
+    } else if (maxEdits > 0) {
+      // A misspelled word, or the misspelled start of one while typing
+      const whole = editDistance(text, word.text, maxEdits);
+      const prefix = word.text.length > text.length ? editDistance(text, word.text.slice(0, text.length), maxEdits) : whole;
+      const edits = Math.min(whole, prefix);
+      if (edits <= maxEdits) {
+        const length = whole <= prefix ? word.text.length : text.length;
+        consider(SCORES.nameFuzzy - edits * FUZZY_EDIT_PENALTY, [word.start, word.start + length]);
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Prepares stations for searching
+ *
+ * Build once per station list and reuse it for every query.
+ *
+ * @param {T[]} stations - Stations in their natural order
+ * @returns {StationIndex<T>} Search index
+ */
+export function buildStationIndex<T extends SearchableStation>(stations: T[]): StationIndex<T> {
+  return {
+    entries: stations.map(station => ({
+      station,
+      id: station.id.toLowerCase(),
+      words: tokenize(station.name),
+      state: (station.state ?? '').toUpperCase(),
+      stateName: fold(STATE_NAMES[(station.state ?? '').toUpperCase()] ?? ''),
+    })),
+  };
+}
+
+/**
+ * Whether a station passes the filters
+ */
+function passesFilters(entry: IndexedStation<SearchableStation>, filters: StationFilters): boolean {
+  if (filters.state && entry.state !== filters.state) return false;
+  if (filters.hasPredictions && entry.station.hasPredictions !== true) return false;
+  return true;
+}
+
+/**
+ * Scores a station against the query terms
+ *
+ * @returns Score and highlights, or null when a term doesn't match
+ */
+function scoreStation(entry: IndexedStation<SearchableStation>, terms: QueryTerm[]): Omit<StationMatch<never>, 'station'> | null {
+  const highlights: MatchHighlights = { id: [], name: [] };
+  let score = 0;
+
+  for (const term of terms) {
+    if (term.kind === 'state') {
+      if (entry.state === term.abbr) {
+        score += SCORES.state;
+        continue;
+      }
+      // "Washington" also finds "Washington, DC"
+      const matches = term.words.map(word => matchNameWord(word, entry.words));
+      if (matches.some(m => m === null || m.score < SCORES.namePrefix)) return null;
+      for (const m of matches) {
+        score += m!.score;
+        highlights.name.push(m!.range);
+      }
+      continue;
+    }
+
+    const { text } = term;
+    const candidates: { score: number; id?: [number, number]; name?: [number, number] }[] = [];
+    if (entry.id === text) {
+      candidates.push({ score: SCORES.idExact, id: [0, text.length] });
+    } else if (entry.id.startsWith(text)) {
+      candidates.push({ score: SCORES.idPrefix, id: [0, text.length] });
+    }
+    if (entry.state && (text.length === 2
+      ? entry.state.toLowerCase() === text
+      : text.length >= MIN_LOOSE_LENGTH && entry.stateName.startsWith(text))) {
+      candidates.push({ score: SCORES.state });
+    }
+    const name = matchNameWord(text, entry.words);
+    if (name) candidates.push({ score: name.score, name: name.range });
+
+    if (candidates.length === 0) return null;
+    const best = candidates.reduce((a, b) => (b.score > a.score ? b : a));
+    score += best.score;
+    if (best.id) highlights.id.push(best.id);
+    if (best.name) highlights.name.push(best.name);
+  }
+
+  // Prefer names that start with what was typed first
+  const first = terms[0];
+  if (first?.kind === 'word' && entry.words[0]?.text.startsWith(first.text)) score += 50;
+
+  return { score, highlights };
+}
+
+/**
+ * Searches stations
+ *
+ * Without a query, the first `limit` stations passing the filters are
+ * returned in list order. With one, every query word must match and results
+ * are ordered by score, then by shorter name, unless `keepOrder` is set (e.g.
+ * for stations already ranked by distance).
+ *
+ * @param {StationIndex<T>} index - Index from `buildStationIndex`
+ * @param {string} query - What the user typed
+ * @param {Object} [opts] - Search options
+ * @param {StationFilters} [opts.filters] - State and prediction filters
+ * @param {number} [opts.limit=25] - Maximum number of results
+ * @param {boolean} [opts.keepOrder=false] - Keep the index order instead of ranking by score
+ * @returns {StationMatch<T>[]} Matches, best first
+ *
+ * @example
+ * searchStations(index, 'wrightsvile');  // Wrightsville Beach, despite the typo
+ * searchStations(index, 'key florida');  // Key West, Vaca Key, ... (FL stations with "key")
+ */
+export function searchStations<T extends SearchableStation>(
+  index: StationIndex<T>,
+  query: string,
+  opts: { filters?: StationFilters; limit?: number; keepOrder?: boolean } = {}
+): StationMatch<T>[] {
+  const { filters = {}, limit = 25, keepOrder = false } = opts;
+  const terms = parseQuery(query);
+  const matches: StationMatch<T>[] = [];
+
+  for (const entry of index.entries) {
+    if (!passesFilters(entry, filters)) continue;
+    if (terms.length === 0) {
+      matches.push({ station: entry.station, score: 0, highlights: { id: [], name: [] } });
+      if (matches.length >= limit) break;
+      continue;
+    }
+    const result = scoreStation(entry, terms);
+    if (result) matches.push({ station: entry.station, ...result });
+  }
+
+  if (!keepOrder && terms.length > 0) {
+    matches.sort((a, b) => b.score - a.score || a.station.name.length - b.station.name.length);
+  }
+  return matches.slice(0, limit);
+}
@@ -0,0 +1,224 @@
+/**
+ * @fileoverview Storm surge estimation strategies
+ *
+ * Surge is the non-tidal part of the water level: observed minus predicted.
+ * A strategy turns recent residuals into a `SurgeModel`, which describes the
+ * surge now and how it evolves over the forecast horizon.
+ *
+ * Built-in strategies:
+ * - median: robust constant offset (the original FloodCast behaviour)
+ * - trimmedMean: mean after discarding the most extreme residuals
+ * - ewma: exponentially weighted toward the most recent residuals
+ * - linearTrend: least-squares trend through the residuals, extrapolated forward
+ *
+ * Any model can additionally decay toward zero with an e-folding time, since
+ * wind and pressure driven surge rarely persists unchanged for days.
+ */
+
+/**
+ * A single observed-minus-predicted difference
+ *
+ * @property {number} t - Epoch milliseconds of the sample
+ * @property {number} v - Residual (positive = water above prediction)
+ */
+export interface SurgeResidual {
+  t: number;
+  v: number;
+}
+
+/** Identifiers of the built-in strategies */
+export type SurgeStrategyId = 'median' | 'trimmedMean' | 'ewma' | 'linearTrend';
+
+/**
+ * Surge estimate produced by a strategy
+ *
+ * Plain data so it can be stored in React state and compared cheaply.
+ *
+ * @property {SurgeStrategyId | string} strategy - Strategy that produced the model
+ * @property {number} offset - Estimated surge at the reference time
+ * @property {number} n - Number of residuals used
+ * @property {number} slopePerHour - Surge change per hour (0 for constant strategies)
+ * @property {number} trendLimitHours - Hours the slope may be extrapolated before it is held
+ */
+export interface SurgeModel {
+  strategy: SurgeStrategyId | string;
+  offset: number;
+  n: number;
+  slopePerHour: number;
+  trendLimitHours: number;
+}
+
+/**
+ * A pluggable surge estimator
+ *
+ * @property {string} id - Stable identifier, stored in settings
+ * @property {string} label - Short display name
+ * @property {string} description - One-line explanation for settings UIs
+ * @property {Function} estimate - Builds a model from residuals (unsorted, non-empty) at `now`
+ */
+export interface SurgeStrategy {
+  id: SurgeStrategyId | string;
+  label: string;
+  description: string;
+  estimate: (residuals: SurgeResidual[], now: Date) => SurgeModel;
+}
+
+/**
+ * Strategy choice and horizon behaviour for a forecast
+ *
+ * @property {SurgeStrategyId | SurgeStrategy} [strategy='median'] - Built-in id or a custom strategy
+ * @property {number | null} [decayHours=null] - E-folding time of the surge over the lookahead;
+ *   null or 0 keeps the surge undamped
+ */
+export interface SurgeOptions {
+  strategy?: SurgeStrategyId | SurgeStrategy;
+  decayHours?: number | null;
+}
+
+/** Fraction of residuals discarded at each end by the trimmed mean */
+const TRIM_FRACTION = 0.2;
+
+/** Time constant of the exponentially weighted estimator */
+const EWMA_TIMESCALE_MS = 3600_000; // 1 hour
+
+/**
+ * Builds a constant (trend-free) model
+ */
+function constantModel(strategy: SurgeStrategyId, offset: number, n: number): SurgeModel {
+  return { strategy, offset, n, slopePerHour: 0, trendLimitHours: 0 };
+}
+
+/**
+ * Median of a list of numbers
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Built-in strategies keyed by id
+ */
+export const SURGE_STRATEGIES: Record<SurgeStrategyId, SurgeStrategy> = {
+  median: {
+    id: 'median',
+    label: 'Median',
+    description: 'Median of recent differences; robust against spikes',
+    estimate: residuals => constantModel('median', median(residuals.map(r => r.v)), residuals.length),
+  },
+  trimmedMean: {
+    id: 'trimmedMean',
+    label: 'Trimmed mean',
+    description: `Mean after dropping the highest and lowest ${TRIM_FRACTION * 100}% of differences`,
+    estimate: residuals => {
+      const sorted = residuals.map(r => r.v).sort((a, b) => a - b);
+      const cut = Math.floor(sorted.length * TRIM_FRACTION);
+      const kept = sorted.length - 2 * cut > 0 ? sorted.slice(cut, sorted.length - cut) : sorted;
+      const mean = kept.reduce((sum, v) => sum + v, 0) / kept.length;
+      return constantModel('trimmedMean', mean, residuals.length);
+    },
+  },
+  ewma: {
+    id: 'ewma',
+    label: 'Recent weighted',
+    description: 'Weighted toward the latest differences (1 hour time constant)',
+    estimate: (residuals, now) => {
+      let weighted = 0;
+      let total = 0;
+      for (const r of residuals) {
+        const w = Math.exp(-Math.max(0, now.getTime() - r.t) / EWMA_TIMESCALE_MS);
+        weighted += w * r.v;
+        total += w;
+      }
+      return constantModel('ewma', total > 0 ? weighted / total : 0, residuals.length);
+    },
+  },
+  linearTrend: {
+    id: 'linearTrend',
+    label: 'Linear trend',
+    description: 'Extends the recent trend in differences (for at most the lookback length)',
+    estimate: (residuals, now) => {
+      const nowMs = now.getTime();
+      const xs = residuals.map(r => (r.t - nowMs) / 3600_000); // hours relative to now
+      const ys = residuals.map(r => r.v);
+      const n = residuals.length;
+      const meanX = xs.reduce((a, b) => a + b, 0) / n;
+      const meanY = ys.reduce((a, b) => a + b, 0) / n;
+
+      let sxy = 0;
+      let sxx = 0;
+      for (let i = 0; i < n; i++) {
+        sxy += (xs[i] - meanX) * (ys[i] - meanY);
+        sxx += (xs[i] - meanX) ** 2;
+      }
+
+      // A single sample (or identical timestamps) has no trend
+      const slope = sxx > 0 ? sxy / sxx : 0;
+      const span = Math.max(...xs) - Math.min(...xs);
+      return {
+        strategy: 'linearTrend',
+        offset: meanY - slope * meanX, // fitted value at now
+        n,
+        slopePerHour: slope,
+        trendLimitHours: span,
+      };
+    },
+  },
+};
+
+/** Built-in strategy ids, in display order */
+export const SURGE_STRATEGY_IDS: readonly SurgeStrategyId[] = ['median', 'trimmedMean', 'ewma', 'linearTrend'];
+
+/**
+ * Resolves a strategy id or custom strategy object
+ *
+ * @param {SurgeStrategyId | SurgeStrategy} [strategy='median'] - Strategy reference
+ * @returns {SurgeStrategy} The strategy implementation (median for unknown ids)
+ */
+export function resolveSurgeStrategy(strategy: SurgeStrategyId | SurgeStrategy = 'median'): SurgeStrategy {
+  if (typeof strategy !== 'string') return strategy;
+  return SURGE_STRATEGIES[strategy] ?? SURGE_STRATEGIES.median;
+}
+
+/**
+ * Estimates a surge model from residuals
+ *
+ * @param {SurgeResidual[]} residuals - Observed minus predicted samples
+ * @param {Date} now - Reference time the model's offset applies to
+ * @param {SurgeStrategyId | SurgeStrategy} [strategy='median'] - Estimator to use
+ * @returns {SurgeModel} Model with zero offset and n = 0 when there are no residuals
+ */
+export function estimateSurge(
+  residuals: SurgeResidual[],
+  now: Date,
+  strategy?: SurgeStrategyId | SurgeStrategy
+): SurgeModel {
+  const impl = resolveSurgeStrategy(strategy);
+  if (residuals.length === 0) {
+    return { strategy: impl.id, offset: 0, n: 0, slopePerHour: 0, trendLimitHours: 0 };
+  }
+  return impl.estimate(residuals, now);
+}
+
+/**
+ * Surge expected a given time after the model's reference time
+ *
+ * The trend (if any) is extrapolated for at most `trendLimitHours` and then
+ * held; the result is damped by `exp(-hours / decayHours)` when a decay is set.
+ *
+ * @param {SurgeModel} model - Surge model
+ * @param {number} hoursAhead - Lead time in hours (negative values are treated as 0)
+ * @param {number | null} [decayHours=null] - E-folding time; null or 0 disables decay
+ * @returns {number} Projected surge
+ *
+ * @example
+ * // 0.8 ft surge decaying with a 12 h e-folding time
+ * projectSurge({ ...model, offset: 0.8 }, 12, 12); // ≈ 0.29
+ */
+export function projectSurge(model: SurgeModel, hoursAhead: number, decayHours: number | null = null): number {
+  const h = Math.max(0, hoursAhead);
+  const trend = model.slopePerHour * Math.min(h, model.trendLimitHours);
+  const decay = decayHours && decayHours > 0 ? Math.exp(-h / decayHours) : 1;
+  return (model.offset + trend) * decay;
+}
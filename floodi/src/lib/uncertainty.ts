@@ -0,0 +1,240 @@
+/**
+ * @fileoverview Forecast uncertainty from surge residual statistics
+ *
+ * The adjusted forecast is the tide prediction plus a projected surge. Its
+ * error has two parts, both estimated from observed-minus-predicted residuals:
+ *
+ * - scatter: how far individual residuals sit from the surge estimate
+ *   (sensor noise, seiching, short-lived wind effects), which applies at
+ *   every lead time
+ * - drift: how much the surge itself wanders as time passes, measured from
+ *   residual changes over lags of 1 to 24 hours; its variance grows linearly
+ *   with lead time, like a random walk
+ *
+ * Errors are treated as normally distributed with
+ * `sigma(h)^2 = scatter^2 + drift^2 * h`, which gives percentile bands and the
+ * probability of exceeding a threshold at each forecast time.
+ */
+
+import type { SurgeModel, SurgeResidual } from './surge';
+
+/**
+ * Spread of the adjusted forecast
+ *
+ * @property {number} sigma0 - Standard deviation at zero lead time
+ * @property {number} driftPerSqrtHour - Growth of the standard deviation with the square root of lead time
+ * @property {number} n - Residuals used for the scatter
+ */
+export interface UncertaintyModel {
+  sigma0: number;
+  driftPerSqrtHour: number;
+  n: number;
+}
+
+/**
+ * Probability of exceeding a threshold within a forecast
+ *
+ * @property {number} threshold - Level considered
+ * @property {number} probability - Probability (0–1) of exceeding it by `by`
+ * @property {Date} by - Earliest time the probability is reached
+ */
+export interface ExceedanceOutlook {
+  threshold: number;
+  probability: number;
+  by: Date;
+}
+
+/** Longest lag used to estimate surge drift */
+const MAX_DRIFT_LAG_H = 24;
+
+const HOUR_MS = 3600_000;
+
+/**
+ * Estimates the forecast spread from residuals
+ *
+ * @param {SurgeResidual[]} residuals - Residuals the surge model was estimated from
+ * @param {SurgeModel} model - Surge model (a constant model for manual offsets)
+ * @param {Date} now - Reference time of the model
+ * @param {Object} [opts] - Options
+ * @param {SurgeResidual[]} [opts.history] - Longer residual history for the drift estimate;
+ *   without it the drift comes from `residuals`, which limits the lags to half their span
+ * @returns {UncertaintyModel | null} Null when there are no residuals
+ *
+ * @example
+ * const unc = estimateUncertainty(residuals, model, now, { history });
+ * const sigma6h = unc ? forecastSigma(unc, 6) : null;
+ */
+export function estimateUncertainty(
+  residuals: SurgeResidual[],
+  model: SurgeModel,
+  now: Date,
+  opts: { history?: SurgeResidual[] } = {}
+): UncertaintyModel | null {
+  if (residuals.length === 0) return null;
+
+  // Scatter of the residuals around the fitted surge
+  let sumSq = 0;
+  for (const r of residuals) {
+    const fitted = model.offset + model.slopePerHour * (r.t - now.getTime()) / HOUR_MS;
+    sumSq += (r.v - fitted) ** 2;
+  }
+  const sigma0 = Math.sqrt(sumSq / residuals.length);
+
+  // Drift: mean squared residual change per hour of lag
+  const source = opts.history && opts.history.length > 0 ? opts.history : residuals;
+  const byTime = new Map(source.map(r => [r.t, r.v]));
+  const times = source.map(r => r.t);
+  const spanHours = (Math.max(...times) - Math.min(...times)) / HOUR_MS;
+  const maxLag = Math.min(MAX_DRIFT_LAG_H, Math.floor(spanHours / 2));
+
+  let sumMeanSq = 0;
+  let sumLag = 0;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let lagSumSq = 0;
+    let pairs = 0;
+    for (const r of source) {
+      const later = byTime.get(r.t + lag * HOUR_MS);
+      if (later === undefined) continue;
+      lagSumSq += (later - r.v) ** 2;
+      pairs++;
+    }
+    if (pairs === 0) continue;
+    sumMeanSq += lagSumSq / pairs;
+    sumLag += lag;
+  }
+
+  return {
+    sigma0,
+    driftPerSqrtHour: sumLag > 0 ? Math.sqrt(sumMeanSq / sumLag) : 0,
+    n: residuals.length,
+  };
+}
+
+/**
+ * Standard deviation of the forecast error at a lead time
+ *
+ * @param {UncertaintyModel} model - Forecast spread
+ * @param {number} hoursAhead - Lead time (negative values are treated as 0)
+ * @returns {number} Standard deviation
+ */
+export function forecastSigma(model: UncertaintyModel, hoursAhead: number): number {
+  return Math.sqrt(model.sigma0 ** 2 + model.driftPerSqrtHour ** 2 * Math.max(0, hoursAhead));
+}
+
+/**
+ * Standard normal cumulative distribution function
+ *
+ * Abramowitz & Stegun 7.1.26 approximation of erf (absolute error < 1.5e-7).
+ *
+ * @param {number} z - Standard score
+ * @returns {number} P(Z <= z)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Inverse of the standard normal cumulative distribution function
+ *
+ * Acklam's rational approximation (relative error < 1.2e-9).
+ *
+ * @param {number} p - Probability in (0, 1)
+ * @returns {number} z such that P(Z <= z) = p
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Central interval around a forecast value
+ *
+ * @param {number} value - Forecast (median) value
+ * @param {number} sigma - Standard deviation of the forecast error
+ * @param {number} coverage - Fraction of outcomes inside the band, e.g. 0.8 for the 10–90% band
+ * @returns {{ lower: number; upper: number }} Band limits
+ */
+export function forecastBand(value: number, sigma: number, coverage: number): { lower: number; upper: number } {
+  const half = normalQuantile(0.5 + coverage / 2) * sigma;
+  return { lower: value - half, upper: value + half };
+}
+
+/**
+ * Probability that the water level exceeds a threshold
+ *
+ * @param {number} value - Forecast (median) value
+ * @param {number} sigma - Standard deviation of the forecast error
+ * @param {number} threshold - Level to exceed
+ * @returns {number} Probability between 0 and 1
+ */
+export function exceedanceProbability(value: number, sigma: number, threshold: number): number {
+  if (sigma <= 0) return value >= threshold ? 1 : 0;
+  return 1 - normalCdf((threshold - value) / sigma);
+}
+
+/**
+ * Chance of exceeding a threshold at some point during a forecast
+ *
+ * Forecast errors at nearby times are strongly correlated (the surge is slow),
+ * so the chance of exceeding by a given time is taken as the highest
+ * per-time probability up to then. The outlook reports the overall maximum and
+ * the first time it is reached, typically the highest tide of the forecast.
+ *
+ * @param {Array<{ t: Date; exceedance?: number }>} points - Forecast points with per-time probabilities
+ * @param {number} threshold - Threshold the probabilities refer to
+ * @param {number} [minProbability=0.01] - Smaller chances are reported as null
+ * @returns {ExceedanceOutlook | null} Highest chance and when it is reached
+ *
+ * @example
+ * const outlook = exceedanceOutlook(adjustedPoints, 6.1);
+ * // { threshold: 6.1, probability: 0.62, by: 2024-01-15T20:40Z }
+ */
+export function exceedanceOutlook(
+  points: { t: Date; exceedance?: number }[],
+  threshold: number,
+  minProbability: number = 0.01
+): ExceedanceOutlook | null {
+  let best: ExceedanceOutlook | null = null;
+  for (const point of points) {
+    if (point.exceedance === undefined) continue;
+    if (!best || point.exceedance > best.probability) {
+      best = { threshold, probability: point.exceedance, by: point.t };
+    }
+  }
+  return best && best.probability >= minProbability ? best : null;
+}
+
+/**
+ * Formats a probability as a whole percentage, without claiming certainty
+ *
+ * @param {number} probability - Probability between 0 and 1
+ * @returns {string} e.g. "62%", "<1%", ">99%"
+ */
+export function formatProbability(probability: number): string {
+  if (probability < 0.005) return '<1%';
+  if (probability > 0.995) return '>99%';
+  return `${Math.round(probability * 100)}%`;
+}
@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Length unit handling for water level values
+ *
+ * NOAA returns heights in feet (`units=english`) or meters (`units=metric`).
+ * FloodCast additionally offers centimeters, which are fetched as meters and
+ * scaled locally.
+ */
+
+import type { ObservationSeries } from './noaa';
+
+/**
+ * Length units heights can be displayed and entered in
+ */
+export type LengthUnit = 'ft' | 'm' | 'cm';
+
+/** Selectable units, in display order */
+export const LENGTH_UNITS: readonly LengthUnit[] = ['ft', 'm', 'cm'];
+
+/** Meters per unit */
+const METERS_PER: Record<LengthUnit, number> = {
+  ft: 0.3048,
+  m: 1,
+  cm: 0.01,
+};
+
+/** Decimal places used when displaying a height in each unit */
+const DISPLAY_DECIMALS: Record<LengthUnit, number> = {
+  ft: 2,
+  m: 2,
+  cm: 0,
+};
+
+/**
+ * NOAA `units` request parameter that yields data convertible to the unit
+ *
+ * @param {LengthUnit} unit - Display unit
+ * @returns {'english' | 'metric'} NOAA unit system
+ */
+export function noaaUnitsFor(unit: LengthUnit): 'english' | 'metric' {
+  return unit === 'ft' ? 'english' : 'metric';
+}
+
+/**
+ * Factor turning values from a NOAA response (see `noaaUnitsFor`) into the unit
+ *
+ * @param {LengthUnit} unit - Display unit
+ * @returns {number} 100 for centimeters, otherwise 1
+ */
+export function responseScale(unit: LengthUnit): number {
+  return unit === 'cm' ? 100 : 1;
+}
+
+/**
+ * Converts a length between units
+ *
+ * @param {number} value - Length in `from` units
+ * @param {LengthUnit} from - Current unit
+ * @param {LengthUnit} to - Target unit
+ * @returns {number} Length in `to` units
+ *
+ * @example
+ * convertLength(6.1, 'ft', 'm'); // 1.859...
+ */
+export function convertLength(value: number, from: LengthUnit, to: LengthUnit): number {
+  if (from === to) return value;
+  return value * METERS_PER[from] / METERS_PER[to];
+}
+
+/**
+ * Rounds a converted length to a precision sensible for user input in the unit
+ *
+ * @param {number} value - Length in `unit`
+ * @param {LengthUnit} unit - Unit of the value
+ * @returns {number} Value rounded to 2 decimals (ft, m) or 1 decimal (cm)
+ */
+export function roundLength(value: number, unit: LengthUnit): number {
+  const factor = unit === 'cm' ? 10 : 100;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Formats a height with its unit label
+ *
+ * @param {number} value - Height in `unit`
+ * @param {LengthUnit} unit - Unit of the value
+ * @param {Object} [opts] - Formatting options
+ * @param {number} [opts.decimals] - Override the unit's default precision
+ * @param {boolean} [opts.signed=false] - Prefix non-negative values with '+'
+ * @returns {string} e.g. "6.10 ft", "+12 cm"
+ */
+export function formatLength(
+  value: number,
+  unit: LengthUnit,
+  opts: { decimals?: number; signed?: boolean } = {}
+): string {
+  const { decimals = DISPLAY_DECIMALS[unit], signed = false } = opts;
+  const sign = signed && value >= 0 ? '+' : '';
+  return `${sign}${value.toFixed(decimals)} ${unit}`;
+}
+
+/**
+ * Multiplies every value of a time series, e.g. to turn meters into centimeters
+ *
+ * @param {Record<string, number>} series - Series keyed by timestamp
+ * @param {number} factor - Scale factor (the series is returned as-is for 1)
+ * @returns {Record<string, number>} Scaled series
+ */
+export function scaleTimeSeries(series: Record<string, number>, factor: number): Record<string, number> {
+  if (factor === 1) return series;
+  const out: Record<string, number> = {};
+  for (const [k, v] of Object.entries(series)) out[k] = v * factor;
+  return out;
+}
+
+/**
+ * Multiplies the values and sigmas of an observation series
+ *
+ * @param {ObservationSeries} series - Observations keyed by timestamp
+ * @param {number} factor - Scale factor (the series is returned as-is for 1)
+ * @returns {ObservationSeries} Scaled observations with unchanged quality metadata
+ */
+export function scaleObservations(series: ObservationSeries, factor: number): ObservationSeries {
+  if (factor === 1) return series;
+  const out: ObservationSeries = {};
+  for (const [k, obs] of Object.entries(series)) {
+    out[k] = { ...obs, v: obs.v * factor, sigma: obs.sigma === null ? null : obs.sigma * factor };
+  }
+  return out;
+}
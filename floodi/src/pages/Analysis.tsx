@@ -0,0 +1,239 @@
+/**
+ * @fileoverview Forecast analysis page for FloodCast application
+ *
+ * Backtests the surge-adjusted forecast at the selected station: a past period
+ * is replayed with forecasts issued every few hours from the data available at
+ * the time, and compared with what was later observed.
+ *
+ * Features:
+ * - Error (MAE, RMSE, bias) for each surge strategy and lookback window
+ * - Flood threshold crossing hits, misses, false alarms and timing error
+ * - Error growth by lead time for a selected configuration
+ * - Picks up settings changed on the FloodCast tab when the page is shown
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  IonBadge,
+  IonButton,
+  IonContent,
+  IonHeader,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonNote,
+  IonPage,
+  IonSegment,
+  IonSegmentButton,
+  IonSpinner,
+  IonTitle,
+  IonToolbar,
+  useIonViewWillEnter,
+} from '@ionic/react';
+import type { HindcastRun } from '../lib/hindcast';
+import { formatLength } from '../lib/units';
+import { useSettingsStorage } from '../components/Tab2/hooks/useSettingsStorage';
+import { useHindcast } from '../components/Analysis/hooks/useHindcast';
+import './Analysis.css';
+
+/** Replay periods offered, in days */
+const PERIOD_DAYS = [7, 14, 30];
+
+/** Forecast horizons offered, in hours */
+const HORIZONS_H = [12, 24, 48];
+
+/** Stable key of a run within a result */
+function runKey(run: HindcastRun): string {
+  return `${run.strategy}|${run.lookbackHours}`;
+}
+
+/** Formats a timing error in minutes, e.g. "+12 min" */
+function formatMinutes(minutes: number | null, signed: boolean = true): string {
+  if (minutes === null) return '—';
+  return `${signed && minutes >= 0 ? '+' : ''}${Math.round(minutes)} min`;
+}
+
+/**
+ * Analysis Component
+ *
+ * Runs a hindcast on demand and shows the forecast skill of every surge
+ * strategy and lookback window, best first.
+ *
+ * @component
+ * @returns {JSX.Element} The analysis page
+ *
+ * @example
+ * // Accessed via tab navigation at /analysis
+ * <Analysis />
+ */
+const Analysis: React.FC = () => {
+  const { config, reload } = useSettingsStorage();
+  const { loading, error, warning, result, run } = useHindcast(config);
+  const [days, setDays] = useState(14);
+  const [horizonHours, setHorizonHours] = useState(24);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  // Settings may have changed on another tab since this page was created
+  useIonViewWillEnter(reload);
+
+  const ranked = useMemo(
+    () => (result ? [...result.runs].filter(r => r.overall.n > 0).sort((a, b) => a.overall.mae - b.overall.mae) : []),
+    [result]
+  );
+
+  const selected = ranked.find(r => runKey(r) === selectedKey) ?? ranked[0] ?? null;
+  const isCurrent = (r: HindcastRun) => r.strategy === config.offset.strategy && r.lookbackHours === config.offset.lookbackHours;
+  const fmt = (v: number) => formatLength(v, config.units);
+
+  return (
+    <IonPage>
+      <IonHeader>
+        <IonToolbar>
+          <IonTitle>Forecast Analysis</IonTitle>
+        </IonToolbar>
+      </IonHeader>
+
+      <IonContent fullscreen>
+        <IonHeader collapse="condense">
+          <IonToolbar>
+            <IonTitle size="large">Forecast Analysis</IonTitle>
+          </IonToolbar>
+        </IonHeader>
+
+        <div className="analysis-summary">
+          <div className="analysis-station">{config.station.name || config.station.id}</div>
+          <IonNote>
+            Replays past forecasts issued every 6 hours and compares them with what was observed.
+            Threshold {formatLength(config.threshold, config.units)} ({config.datum})
+            {config.offset.decayHours !== null ? ` · surge decay ${config.offset.decayHours} h` : ''}
+          </IonNote>
+        </div>
+
+        <IonList inset>
+          <IonItem>
+            <IonLabel>Period</IonLabel>
+            <IonSegment value={String(days)} onIonChange={e => setDays(Number(e.detail.value))}>
+              {PERIOD_DAYS.map(d => (
+                <IonSegmentButton key={d} value={String(d)}>
+                  <IonLabel>{d} d</IonLabel>
+                </IonSegmentButton>
+              ))}
+            </IonSegment>
+          </IonItem>
+          <IonItem>
+            <IonLabel>Horizon</IonLabel>
+            <IonSegment value={String(horizonHours)} onIonChange={e => setHorizonHours(Number(e.detail.value))}>
+              {HORIZONS_H.map(h => (
+                <IonSegmentButton key={h} value={String(h)}>
+                  <IonLabel>{h} h</IonLabel>
+                </IonSegmentButton>
+              ))}
+            </IonSegment>
+          </IonItem>
+          <IonItem lines="none">
+            <IonButton expand="block" className="analysis-run" disabled={loading} onClick={() => run({ days, horizonHours })}>
+              {loading ? <IonSpinner name="crescent" /> : 'Run hindcast'}
+            </IonButton>
+          </IonItem>
+        </IonList>
+
+        {error && (
+          <IonItem color="danger" lines="none">
+            <IonLabel className="ion-text-wrap">{error.message}</IonLabel>
+          </IonItem>
+        )}
+
+        {warning && (
+          <IonItem color="warning" lines="none">
+            <IonLabel className="ion-text-wrap">{warning}</IonLabel>
+          </IonItem>
+        )}
+
+        {result && ranked.length === 0 && !loading && (
+          <IonItem lines="none">
+            <IonLabel className="ion-text-wrap">No observations available to verify forecasts in this period.</IonLabel>
+          </IonItem>
+        )}
+
+        {ranked.length > 0 && (
+          <IonList inset>
+            <IonListHeader>
+              <IonLabel>Configurations ({result?.issueTimes} forecasts, best first)</IonLabel>
+            </IonListHeader>
+            {ranked.map(r => (
+              <IonItem
+                key={runKey(r)}
+                button
+                detail={false}
+                className={selected && runKey(selected) === runKey(r) ? 'analysis-run-selected' : undefined}
+                onClick={() => setSelectedKey(runKey(r))}
+              >
+                <IonLabel>
+                  <h3>
+                    {r.strategyLabel} · {r.lookbackHours} h lookback
+                    {isCurrent(r) && <IonBadge color="primary" className="analysis-current">Current</IonBadge>}
+                  </h3>
+                  {r.crossings && (
+                    <p>
+                      {r.crossings.hits} hits · {r.crossings.misses} misses · {r.crossings.falseAlarms} false alarms
+                      {r.crossings.hits > 0 && ` · timing ${formatMinutes(r.crossings.meanTimingErrorMinutes)}`}
+                    </p>
+                  )}
+                </IonLabel>
+                <div slot="end" className="analysis-metrics">
+                  <div>MAE {fmt(r.overall.mae)}</div>
+                  <IonNote>RMSE {fmt(r.overall.rmse)}</IonNote>
+                </div>
+              </IonItem>
+            ))}
+          </IonList>
+        )}
+
+        {selected && (
+          <IonList inset>
+            <IonListHeader>
+              <IonLabel>
+                Error by lead time: {selected.strategyLabel}, {selected.lookbackHours} h lookback
+              </IonLabel>
+            </IonListHeader>
+            <table className="analysis-lead-table">
+              <thead>
+                <tr>
+                  <th>Lead</th>
+                  <th>MAE</th>
+                  <th>RMSE</th>
+                  <th>Bias</th>
+                  <th>n</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selected.byLead.map(b => (
+                  <tr key={b.leadHours}>
+                    <td>≤ {b.leadHours} h</td>
+                    <td>{fmt(b.mae)}</td>
+                    <td>{fmt(b.rmse)}</td>
+                    <td>{formatLength(b.bias, config.units, { signed: true })}</td>
+                    <td>{b.n}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {(selected.crossings?.hits || selected.skipped > 0) && (
+              <IonItem lines="none">
+                <IonNote className="ion-text-wrap">
+                  {selected.crossings?.hits
+                    ? `Mean absolute crossing timing error ${formatMinutes(selected.crossings.meanAbsTimingErrorMinutes, false)}. `
+                    : ''}
+                  {selected.skipped > 0 ? `${selected.skipped} forecasts skipped for missing observations.` : ''}
+                </IonNote>
+              </IonItem>
+            )}
+          </IonList>
+        )}
+      </IonContent>
+    </IonPage>
+  );
+};
+
+export default Analysis;
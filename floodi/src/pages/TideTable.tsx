@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Tide table page for FloodCast application
+ *
+ * Lists the predicted high and low tides for the coming week at the selected
+ * station, using NOAA's `hilo` predictions product. Each event also shows the
+ * surge-adjusted height, and high tides reaching the flood threshold are
+ * highlighted.
+ *
+ * Features:
+ * - Events grouped by day in the configured display timezone
+ * - Surge offset from the same auto/manual settings as the chart
+ * - Pull-to-refresh
+ * - Picks up settings changed on the FloodCast tab when the page is shown
+ */
+
+import React from 'react';
+import {
+  IonBadge,
+  IonContent,
+  IonHeader,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonNote,
+  IonPage,
+  IonRefresher,
+  IonRefresherContent,
+  IonSpinner,
+  IonTitle,
+  IonToolbar,
+  useIonViewWillEnter,
+} from '@ionic/react';
+import type { RefresherEventDetail } from '@ionic/react';
+import type { TideEventType } from '../lib/noaa';
+import { formatLength } from '../lib/units';
+import { useSettingsStorage } from '../components/Tab2/hooks/useSettingsStorage';
+import { useTideTable } from '../components/TideTable/hooks/useTideTable';
+import './TideTable.css';
+
+/** Display labels for NOAA high/low event types */
+const EVENT_LABELS: Record<TideEventType, string> = {
+  H: 'High',
+  HH: 'Higher high',
+  L: 'Low',
+  LL: 'Lower low',
+};
+
+/**
+ * TideTable Component
+ *
+ * Shows a day-by-day list of high and low tides with predicted and
+ * surge-adjusted heights for the configured station.
+ *
+ * @component
+ * @returns {JSX.Element} The tide table page
+ *
+ * @example
+ * // Accessed via tab navigation at /tides
+ * <TideTable />
+ */
+const TideTable: React.FC = () => {
+  const { config, reload } = useSettingsStorage();
+  const { loading, error, days, offset, refresh } = useTideTable(config);
+
+  // Settings may have changed on another tab since this page was created
+  useIonViewWillEnter(reload);
+
+  const timeZone = config.display.timezone === 'gmt' ? 'UTC' : undefined;
+
+  const formatTime = (d: Date) =>
+    d.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', timeZone });
+
+  const formatDay = (d: Date) =>
+    d.toLocaleDateString([], { weekday: 'long', month: 'short', day: 'numeric', timeZone });
+
+  const handleRefresh = async (event: CustomEvent<RefresherEventDetail>) => {
+    await refresh();
+    event.detail.complete();
+  };
+
+  return (
+    <IonPage>
+      <IonHeader>
+        <IonToolbar>
+          <IonTitle>Tide Table</IonTitle>
+        </IonToolbar>
+      </IonHeader>
+
+      <IonContent fullscreen>
+        <IonHeader collapse="condense">
+          <IonToolbar>
+            <IonTitle size="large">Tide Table</IonTitle>
+          </IonToolbar>
+        </IonHeader>
+
+        <IonRefresher slot="fixed" onIonRefresh={handleRefresh}>
+          <IonRefresherContent />
+        </IonRefresher>
+
+        <div className="tide-table-summary">
+          <div className="tide-table-station">{config.station.name || config.station.id}</div>
+          <IonNote>
+            Heights in {config.units} above {config.datum} · flood threshold{' '}
+            {formatLength(config.threshold, config.units)} · surge offset{' '}
+            {formatLength(offset, config.units, { signed: true })}
+            {config.offset.mode === 'auto' ? ' (auto)' : ''}
+          </IonNote>
+        </div>
+
+        {error && (
+          <IonItem color="danger" lines="none">
+            <IonLabel className="ion-text-wrap">{error.message}</IonLabel>
+          </IonItem>
+        )}
+
+        {loading && days.length === 0 && (
+          <div className="tide-table-loading">
+            <IonSpinner name="crescent" />
+          </div>
+        )}
+
+        {days.map(day => (
+          <IonList key={day.key} inset>
+            <IonListHeader>
+              <IonLabel>{formatDay(day.date)}</IonLabel>
+            </IonListHeader>
+            {day.rows.map(row => (
+              <IonItem
+                key={row.t.getTime()}
+                className={row.exceedsThreshold ? 'tide-row-flood' : undefined}
+              >
+                <IonLabel>
+                  <h3>{formatTime(row.t)}</h3>
+                  <p>{EVENT_LABELS[row.type]}</p>
+                </IonLabel>
+                <div slot="end" className="tide-row-heights">
+                  <div>{formatLength(row.v, config.units)}</div>
+                  <IonNote>adj. {formatLength(row.adjusted, config.units)}</IonNote>
+                  {row.exceedsThreshold && <IonBadge color="danger">Flood</IonBadge>}
+                </div>
+              </IonItem>
+            ))}
+          </IonList>
+        ))}
+      </IonContent>
+    </IonPage>
+  );
+};
+
+export default TideTable;